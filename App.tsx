@@ -1,35 +1,260 @@
 
-import React, { useState } from 'react';
+import React, { useMemo } from 'react';
 import { useTrades } from './hooks/useTrades';
+import { useTradeScope } from './hooks/useTradeScope';
+import { useAccountSettings } from './hooks/useAccountSettings';
+import { useJournalTimezone } from './hooks/useJournalTimezone';
+import { usePlaybooks } from './hooks/usePlaybooks';
+import { useTags } from './hooks/useTags';
+import { useTradeFilters } from './hooks/useTradeFilters';
+import { useRiskRules } from './hooks/useRiskRules';
+import { useAiSettings } from './hooks/useAiSettings';
+import { useRoute } from './hooks/useRoute';
+import { buildEquityCurve } from './services/equity';
+import { evaluateRiskRules, findBreachesOf } from './services/riskRules';
+import { currentDay, tradeSortTime } from './services/tradeTime';
+import { filterTrades } from './services/tradeFilters';
+import { routeToHash, DASHBOARD_ROUTE } from './services/routes';
+import { JournalSettings, ImportMode } from './services/journalTransfer';
 import { Dashboard } from './components/Dashboard';
 import { TradeForm } from './components/TradeForm';
 import { AiAnalyzer } from './components/AiAnalyzer';
 import { Header } from './components/Header';
-import { Trade } from './types';
+import { JournalTransfer } from './components/JournalTransfer';
+import { Settings } from './components/Settings';
+import { Playbooks } from './components/Playbooks';
+import { Reports } from './components/Reports';
+import { Gallery } from './components/Gallery';
+import { TradeDetail } from './components/TradeDetail';
+import { Trade, Setup } from './types';
 
-type View = 'dashboard' | 'add_trade' | 'ai_analyzer';
+const TradeNotFound: React.FC = () => (
+  <div className="text-center text-gray-400 py-16">
+    <p className="mb-4">This trade doesn't exist. It may have been deleted.</p>
+    <a href={routeToHash(DASHBOARD_ROUTE)} className="text-primary hover:underline">Back to the dashboard</a>
+  </div>
+);
 
 const App: React.FC = () => {
-  const [currentView, setCurrentView] = useState<View>('dashboard');
-  const { trades, addTrade, deleteTrade } = useTrades();
+  const { route, navigate } = useRoute();
+  const { trades, isLoading, storageError, dismissStorageError, addTrade, addTrades, updateTrade, deleteTrade, importTrades, renameSetup, renameTag } = useTrades();
+  const { scope, setScope, accounts, instruments, scopedTrades } = useTradeScope(trades);
+  const { getAccountSettings, saveAccountSettings, hasOwnSettings } = useAccountSettings();
+  const { timezone, setTimezone } = useJournalTimezone();
+  const { setups, saveSetup, deleteSetup, importSetups } = usePlaybooks();
+  const { tags, saveTag, renameTagDefinition, importTags } = useTags(trades);
+  const { query, setQuery, resetQuery, presets, savePreset, deletePreset, renameFilterValues, importPresets } = useTradeFilters();
+  const { rules: riskRules, saveRules: saveRiskRules, importRules: importRiskRules, breaches: ruleBreaches, recordBreaches, clearBreaches } = useRiskRules();
+  const { aiSettings, saveAiSettings } = useAiSettings();
+
+  // Rules look at every account, not just the scoped trades, since the limits are on the trader.
+  const riskEvaluation = useMemo(
+    () => evaluateRiskRules(trades, riskRules, timezone, currentDay(timezone)),
+    [trades, riskRules, timezone]);
+
+  // Trades are checked against the rules as they are added or edited, and any breach they cause is logged.
+  const recordBreachesOf = (changed: Trade[], journal: Trade[]) => {
+    recordBreaches(findBreachesOf(changed, journal, riskRules, timezone));
+  };
+
+  const addTradeWithRules = (tradeData: Omit<Trade, 'id'>) => {
+    const newTrade = addTrade(tradeData);
+    recordBreachesOf([newTrade], [...trades, newTrade]);
+  };
+
+  const addTradesWithRules = (tradesData: Omit<Trade, 'id'>[]) => {
+    const newTrades = addTrades(tradesData);
+    recordBreachesOf(newTrades, [...trades, ...newTrades]);
+  };
+
+  const updateTradeWithRules = (id: string, tradeData: Omit<Trade, 'id'>) => {
+    const updatedTrade = updateTrade(id, tradeData);
+    if (updatedTrade) recordBreachesOf([updatedTrade], trades.map(t => (t.id === id ? updatedTrade : t)));
+  };
+
+  // A renamed setup or tag is renamed on its trades and in the filters too, so they stay linked to it.
+  const saveSetupAndRename = (setup: Setup) => {
+    const previous = setups.find(s => s.id === setup.id);
+    saveSetup(setup);
+    if (previous && previous.name !== setup.name) {
+      renameSetup(previous.name, setup.name);
+      renameFilterValues('setup', previous.name, setup.name);
+    }
+  };
+
+  const renameTagEverywhere = (from: string, to: string) => {
+    renameTagDefinition(from, to);
+    renameTag(from, to);
+    renameFilterValues('tag', from, to);
+  };
+
+  // Exported and imported with the trades, since the trades refer to them.
+  const journalSettings: JournalSettings = { setups, tags, riskRules, filterPresets: presets };
+
+  const importSettings = (settings: JournalSettings, mode: ImportMode) => {
+    importSetups(settings.setups, mode);
+    importTags(settings.tags, mode);
+    if (settings.riskRules) importRiskRules(settings.riskRules, mode);
+    importPresets(settings.filterPresets, mode);
+  };
+
+  // Prev/next on the trade page walk the trade history as filtered, newest first like the table.
+  const historyOrder = useMemo(
+    () => [...filterTrades(scopedTrades, query, { timezone, tags })].sort((a, b) => tradeSortTime(b, timezone) - tradeSortTime(a, timezone)),
+    [scopedTrades, query, timezone, tags]);
+
+  const getAccountBalance = (account?: string) =>
+    buildEquityCurve(trades.filter(t => (t.account ?? '') === (account ?? '')), getAccountSettings, timezone).endingBalance;
+
+  const startEditing = (trade: Trade) => navigate({ view: 'edit_trade', id: trade.id });
+
+  // Leaving the form replaces its history entry, so Back doesn't reopen a form that was just saved.
+  const finishEditing = () => navigate(DASHBOARD_ROUTE, { replace: true });
 
   const renderView = () => {
-    switch (currentView) {
+    if (isLoading) {
+      return <p className="text-center text-gray-400 py-16">Loading your trades...</p>;
+    }
+    switch (route.view) {
       case 'add_trade':
-        return <TradeForm addTrade={addTrade} onTradeAdded={() => setCurrentView('dashboard')} />;
+        return (
+          <TradeForm
+            addTrade={addTradeWithRules}
+            updateTrade={updateTradeWithRules}
+            onTradeSaved={finishEditing}
+            instruments={instruments}
+            accounts={accounts}
+            scope={scope}
+            getAccountSettings={getAccountSettings}
+            getAccountBalance={getAccountBalance}
+            timezone={timezone}
+            setups={setups}
+            tags={tags}
+            saveTag={saveTag}
+          />
+        );
+      case 'edit_trade': {
+        const editingTrade = trades.find(t => t.id === route.id);
+        if (!editingTrade) return <TradeNotFound />;
+        return (
+          <TradeForm
+            key={editingTrade.id}
+            tradeToEdit={editingTrade}
+            addTrade={addTradeWithRules}
+            updateTrade={updateTradeWithRules}
+            onTradeSaved={finishEditing}
+            onCancel={finishEditing}
+            instruments={instruments}
+            accounts={accounts}
+            scope={scope}
+            getAccountSettings={getAccountSettings}
+            getAccountBalance={getAccountBalance}
+            timezone={timezone}
+            setups={setups}
+            tags={tags}
+            saveTag={saveTag}
+          />
+        );
+      }
+      case 'trade': {
+        const trade = trades.find(t => t.id === route.id);
+        if (!trade) return <TradeNotFound />;
+        const index = historyOrder.findIndex(t => t.id === trade.id);
+        const { id, ...tradeData } = trade;
+        return (
+          <TradeDetail
+            trade={trade}
+            timezone={timezone}
+            getAccountSettings={getAccountSettings}
+            navigation={{
+              previousId: index > 0 ? historyOrder[index - 1].id : undefined,
+              nextId: index >= 0 ? historyOrder[index + 1]?.id : undefined,
+              position: index + 1,
+              total: historyOrder.length,
+            }}
+            saveAnnotations={annotations => updateTradeWithRules(id, { ...tradeData, annotations })}
+          />
+        );
+      }
+      case 'playbooks':
+        return <Playbooks setups={setups} saveSetup={saveSetupAndRename} deleteSetup={deleteSetup} />;
+      case 'data':
+        return (
+          <JournalTransfer
+            trades={trades}
+            importTrades={importTrades}
+            addTrades={addTradesWithRules}
+            settings={journalSettings}
+            importSettings={importSettings}
+            timezone={timezone}
+          />
+        );
+      case 'settings':
+        return (
+          <Settings
+            accounts={accounts}
+            getAccountSettings={getAccountSettings}
+            saveAccountSettings={saveAccountSettings}
+            hasOwnSettings={hasOwnSettings}
+            timezone={timezone}
+            setTimezone={setTimezone}
+            tags={tags}
+            saveTag={saveTag}
+            renameTag={renameTagEverywhere}
+            riskRules={riskRules}
+            saveRiskRules={saveRiskRules}
+            aiSettings={aiSettings}
+            saveAiSettings={saveAiSettings}
+          />
+        );
       case 'ai_analyzer':
-        return <AiAnalyzer trades={trades} />;
+        return <AiAnalyzer trades={scopedTrades} timezone={timezone} aiSettings={aiSettings} tab={route.tab} onTabChange={tab => navigate({ view: 'ai_analyzer', tab })} />;
+      case 'reports':
+        return <Reports trades={scopedTrades} tags={tags} timezone={timezone} aiSettings={aiSettings} />;
+      case 'gallery':
+        return <Gallery trades={scopedTrades} timezone={timezone} />;
       case 'dashboard':
       default:
-        return <Dashboard trades={trades} deleteTrade={deleteTrade} />;
+        return (
+          <Dashboard
+            trades={scopedTrades}
+            deleteTrade={deleteTrade}
+            editTrade={startEditing}
+            getAccountSettings={getAccountSettings}
+            timezone={timezone}
+            tags={tags}
+            query={query}
+            setQuery={setQuery}
+            resetQuery={resetQuery}
+            presets={presets}
+            savePreset={savePreset}
+            deletePreset={deletePreset}
+            riskEvaluation={riskEvaluation}
+            ruleBreaches={ruleBreaches}
+            clearBreaches={clearBreaches}
+          />
+        );
     }
   };
 
   return (
-    <div className="min-h-screen bg-gray-900 text-gray-200 flex flex-col">
-      <Header currentView={currentView} setCurrentView={setCurrentView} />
-      <main className="flex-grow p-4 md:p-8">
+    <div className="min-h-screen bg-gray-900 text-gray-200 flex flex-col print:bg-white print:text-black">
+      <Header
+        currentView={route.view}
+        scope={scope}
+        setScope={setScope}
+        accounts={accounts}
+        instruments={instruments}
+        ruleAlerts={riskEvaluation.statuses.filter(status => status.state !== 'ok')}
+      />
+      <main className="flex-grow p-4 md:p-8 print:p-0">
         <div className="max-w-7xl mx-auto">
+          {storageError && (
+            <div role="alert" className="mb-6 print:hidden flex items-start justify-between gap-4 bg-red-900/40 border border-danger text-red-200 rounded-lg p-4 text-sm">
+              <span>{storageError}</span>
+              <button onClick={dismissStorageError} className="text-red-200 hover:text-white font-bold">&times;</button>
+            </div>
+          )}
           {renderView()}
         </div>
       </main>
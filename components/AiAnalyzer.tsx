@@ -1,19 +1,22 @@
-import React, { useState } from 'react';
-import { Trade } from '../types';
-import { analyzeTradesWithAI } from '../services/geminiService';
+import React, { useState, useEffect, useRef, useMemo, useDeferredValue } from 'react';
+import { Trade, JournalTimezone, ChatMessage, ChatConversation, AiSettings } from '../types';
+import { chatAboutTrades } from '../services/aiService';
+import { describeAiError } from '../services/aiErrors';
+import { useConversations, storeConversation } from '../hooks/useConversations';
+import { buildChatPayload, describeFocus, AiPayload } from '../services/aiPayload';
+import { currentDay } from '../services/tradeTime';
 import { SlSweepAnalyzer } from './SlSweepAnalyzer';
+import { AiAnswer } from './AiAnswer';
+import { AnalyzerTab } from '../services/routes';
 
 interface AiAnalyzerProps {
   trades: Trade[];
+  timezone: JournalTimezone;
+  aiSettings: AiSettings;
+  tab: AnalyzerTab;
+  onTabChange: (tab: AnalyzerTab) => void;
 }
 
-interface Message {
-  sender: 'user' | 'ai';
-  text: string;
-}
-
-type AnalyzerTab = 'chat' | 'slSweep';
-
 const SparklesIcon = () => (
     <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 3v4M3 5h4M6 17v4m-2-2h4m5-16l2.293 2.293a1 1 0 010 1.414L13 12l-1.293-1.293a1 1 0 010-1.414L14 7l2.293 2.293a1 1 0 010 1.414L15 13l-1.293-1.293a1 1 0 010-1.414L16 9m-5 11l2-2 2 2m-2-2v-4m-4 4h4" />
@@ -32,33 +35,175 @@ const TabButton: React.FC<{ label: string; isActive: boolean; onClick: () => voi
 );
 
 
-const ChatAnalyzer: React.FC<{ trades: Trade[] }> = ({ trades }) => {
+const TITLE_LENGTH = 60;
+
+const conversationTitle = (messages: ChatMessage[]) => {
+    const question = messages.find(m => m.role === 'user')?.text.trim() ?? 'Conversation';
+    return question.length > TITLE_LENGTH ? `${question.slice(0, TITLE_LENGTH - 1)}…` : question;
+};
+
+const toConversation = (id: string, messages: ChatMessage[]): ChatConversation => ({
+    id,
+    title: conversationTitle(messages),
+    createdAt: messages[0].createdAt,
+    updatedAt: new Date().toISOString(),
+    messages,
+});
+
+// The questions a payload is built for: every question so far, so follow-ups keep narrowing.
+const questionsText = (messages: ChatMessage[], next = '') =>
+    [...messages.filter(m => m.role === 'user').map(m => m.text), next].join('\n');
+
+const formatTokens = (tokens: number) => (tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : `${tokens}`);
+
+// What will go with the next question, so the size and the trades picked can be checked first.
+const PayloadPreview: React.FC<{
+    payload: AiPayload;
+    includeImages: boolean;
+    setIncludeImages: (include: boolean) => void;
+}> = ({ payload, includeImages, setIncludeImages }) => {
+    const [showDetails, setShowDetails] = useState(false);
+    const focus = describeFocus(payload.focus);
+    const { estimatedTokens } = payload;
+
+    return (
+        <div className="text-xs text-gray-400 mb-3">
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                <span>
+                    Sending {payload.sentCount} of {payload.totalCount} trades
+                    {payload.images.length > 0 && `, ${payload.images.length} image${payload.images.length === 1 ? '' : 's'}`}
+                    {' · '}~{formatTokens(estimatedTokens.total)} tokens
+                </span>
+                <label className="flex items-center gap-1 cursor-pointer">
+                    <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)}
+                           className="h-3 w-3 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary" />
+                    <span>Include images</span>
+                </label>
+                <button type="button" onClick={() => setShowDetails(!showDetails)} className="text-primary hover:underline">
+                    {showDetails ? 'Hide details' : 'Details'}
+                </button>
+            </div>
+            {showDetails && (
+                <ul className="mt-2 bg-gray-900/50 rounded-md p-3 space-y-1">
+                    <li>Focus: {focus.length > 0 ? focus.join(', ') : 'the whole journal'} ({payload.matchingCount} matching trades)</li>
+                    <li>Summary statistics: computed locally over all {payload.totalCount} trades{focus.length > 0 && ' and over the matching ones'}</li>
+                    <li>
+                        Trades listed: {payload.sentCount}
+                        {payload.sentCount < payload.matchingCount && `, the ${payload.matchingCount - payload.sentCount} oldest matching ones left out to stay within budget`}
+                    </li>
+                    <li>
+                        Images: {payload.images.length > 0 ? payload.images.map(image => image.label).join(', ') : 'none'}
+                        {payload.skippedImageCount > 0 && ` (${payload.skippedImageCount} not sent${includeImages ? ', over the image limit' : ''})`}
+                    </li>
+                    <li>Estimated tokens: ~{formatTokens(estimatedTokens.text)} text + ~{formatTokens(estimatedTokens.images)} images</li>
+                </ul>
+            )}
+        </div>
+    );
+};
+
+const ChatAnalyzer: React.FC<{ trades: Trade[]; timezone: JournalTimezone; aiSettings: AiSettings }> = ({ trades, timezone, aiSettings }) => {
+    const { conversations, saveConversation, deleteConversation } = useConversations();
+    const [conversationId, setConversationId] = useState<string | null>(null);
     const [prompt, setPrompt] = useState('');
-    const [messages, setMessages] = useState<Message[]>([]);
+    const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [includeImages, setIncludeImages] = useState(false);
+    const abortRef = useRef<AbortController | null>(null);
+    // The conversation with the reply streamed so far, marked as stopped in case it has to be saved as is.
+    const streamingRef = useRef<{ id: string; messages: ChatMessage[] } | null>(null);
+    const endRef = useRef<HTMLDivElement>(null);
 
-    const handleSubmit = async (e: React.FormEvent) => {
-        e.preventDefault();
-        if (!prompt.trim() || isLoading) return;
+    // Leaving the analyzer stops a reply that is still streaming. The request only settles after the
+    // component is gone, so what arrived is saved here rather than by reply.
+    useEffect(() => () => {
+        const streaming = streamingRef.current;
+        abortRef.current?.abort();
+        if (streaming) storeConversation(toConversation(streaming.id, streaming.messages));
+    }, []);
 
-        const userMessage: Message = { sender: 'user', text: prompt };
-        setMessages(prev => [...prev, userMessage]);
-        setPrompt('');
+    useEffect(() => {
+        endRef.current?.scrollIntoView({ block: 'end' });
+    }, [messages]);
+
+    // Not rebuilt while a reply streams in, since the messages change with every chunk.
+    const deferredPrompt = useDeferredValue(prompt);
+    const preview = useMemo(
+        () => (isLoading ? null : buildChatPayload(questionsText(messages, deferredPrompt), trades, timezone, currentDay(timezone), { includeImages })),
+        [isLoading, messages, deferredPrompt, trades, timezone, includeImages]);
+
+    const persist = (id: string, conversationMessages: ChatMessage[]) => {
+        saveConversation(toConversation(id, conversationMessages));
+    };
+
+    // Streams the answer to the last question in history into a new model message.
+    const reply = async (id: string, history: ChatMessage[]) => {
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsLoading(true);
+        const pending: ChatMessage = { role: 'model', text: '', createdAt: new Date().toISOString() };
+        let received = '';
+        setMessages([...history, pending]);
+        streamingRef.current = { id, messages: [...history, { ...pending, status: 'stopped' }] };
 
+        let answer: ChatMessage;
         try {
-            const aiResponse = await analyzeTradesWithAI(prompt, trades);
-            const aiMessage: Message = { sender: 'ai', text: aiResponse };
-            setMessages(prev => [...prev, aiMessage]);
+            const payload = buildChatPayload(questionsText(history), trades, timezone, currentDay(timezone), { includeImages });
+            const text = await chatAboutTrades(aiSettings, history, payload, partial => {
+                received = partial;
+                setMessages([...history, { ...pending, text: partial }]);
+                streamingRef.current = { id, messages: [...history, { ...pending, text: partial, status: 'stopped' }] };
+            }, controller.signal);
+            answer = { ...pending, text };
         } catch (error) {
-            console.error(error);
-            const errorMessage: Message = { sender: 'ai', text: "I'm having trouble connecting to my analysis server. Please try again later." };
-            setMessages(prev => [...prev, errorMessage]);
+            if (controller.signal.aborted) {
+                answer = { ...pending, text: received, status: 'stopped' };
+            } else {
+                console.error(error);
+                answer = { ...pending, text: describeAiError(error), status: 'error' };
+            }
         } finally {
+            abortRef.current = null;
+            streamingRef.current = null;
             setIsLoading(false);
         }
+        const updated = [...history, answer];
+        setMessages(updated);
+        persist(id, updated);
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!prompt.trim() || isLoading) return;
+
+        const id = conversationId ?? new Date().toISOString() + Math.random();
+        const history = [...messages, { role: 'user' as const, text: prompt.trim(), createdAt: new Date().toISOString() }];
+        setConversationId(id);
+        setPrompt('');
+        // Saved before the reply arrives, so the question isn't lost if the analyzer is closed meanwhile.
+        persist(id, history);
+        await reply(id, history);
+    };
+
+    // Asks for a new answer to the last question, replacing the one given.
+    const handleRegenerate = () => {
+        const lastQuestion = messages.map(m => m.role).lastIndexOf('user');
+        if (!conversationId || lastQuestion === -1 || isLoading) return;
+        reply(conversationId, messages.slice(0, lastQuestion + 1));
+    };
+
+    const openConversation = (id: string) => {
+        const conversation = conversations.find(c => c.id === id);
+        setConversationId(conversation?.id ?? null);
+        setMessages(conversation?.messages ?? []);
+    };
+
+    const handleDelete = () => {
+        if (!conversationId || !window.confirm("Delete this conversation?")) return;
+        deleteConversation(conversationId);
+        openConversation('');
     };
-    
+
     const suggestionPrompts = [
         "What are my biggest strengths and weaknesses?",
         "Identify any negative patterns in my losing trades.",
@@ -66,8 +211,31 @@ const ChatAnalyzer: React.FC<{ trades: Trade[] }> = ({ trades }) => {
         "Summarize my performance over the last month."
     ];
 
+    const lastMessage = messages[messages.length - 1];
+    const smallButtonClasses = "px-3 py-1 rounded-md text-xs bg-gray-700 hover:bg-gray-600 text-gray-200 transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
     return (
         <>
+            {(conversations.length > 0 || messages.length > 0) && (
+                <div className="px-4 py-2 border-b border-gray-700 flex flex-wrap items-center gap-2">
+                    <select
+                        value={conversationId ?? ''}
+                        onChange={e => openConversation(e.target.value)}
+                        disabled={isLoading}
+                        className="flex-grow min-w-0 bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary disabled:opacity-50"
+                    >
+                        <option value="">New conversation</option>
+                        {conversations.map(c => (
+                            <option key={c.id} value={c.id}>{c.title} · {new Date(c.updatedAt).toLocaleDateString()}</option>
+                        ))}
+                    </select>
+                    <button onClick={() => openConversation('')} disabled={isLoading || messages.length === 0} className={smallButtonClasses}>New chat</button>
+                    {conversationId && (
+                        <button onClick={handleDelete} disabled={isLoading} className="px-3 py-1 rounded-md text-xs text-gray-400 hover:text-red-400 disabled:opacity-50">Delete</button>
+                    )}
+                </div>
+            )}
+
             <div className="flex-grow p-6 overflow-y-auto space-y-6">
                 {messages.length === 0 && (
                     <div className="text-center text-gray-400 flex flex-col items-center justify-center h-full">
@@ -86,44 +254,60 @@ const ChatAnalyzer: React.FC<{ trades: Trade[] }> = ({ trades }) => {
                     </div>
                 )}
                 {messages.map((msg, index) => (
-                    <div key={index} className={`flex ${msg.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                        <div className={`max-w-xl lg:max-w-2xl px-4 py-3 rounded-lg ${msg.sender === 'user' ? 'bg-primary text-white' : 'bg-gray-700'}`}>
-                            <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+                    <div key={index} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                        <div className={`max-w-xl lg:max-w-2xl px-4 py-3 rounded-lg ${msg.role === 'user' ? 'bg-primary text-white' : msg.status === 'error' ? 'bg-red-900/40 border border-red-800' : 'bg-gray-700'}`}>
+                            {msg.role === 'model' && msg.text === '' && isLoading ? (
+                                <div className="flex items-center space-x-2">
+                                    <span className="animate-pulse">.</span><span className="animate-pulse delay-75">.</span><span className="animate-pulse delay-150">.</span>
+                                    <span className="text-sm">Analyzing...</span>
+                                </div>
+                            ) : msg.role === 'model' ? (
+                                <AiAnswer text={msg.text} partial={msg.status === 'stopped' || (isLoading && index === messages.length - 1)}
+                                          trades={trades} timezone={timezone} />
+                            ) : (
+                                <p className="text-sm whitespace-pre-wrap">{msg.text}</p>
+                            )}
+                            {msg.status === 'stopped' && <p className="text-xs text-gray-400 mt-2">Stopped</p>}
                         </div>
                     </div>
                 ))}
-                {isLoading && (
+                {!isLoading && lastMessage && (
                     <div className="flex justify-start">
-                        <div className="max-w-xl lg:max-w-2xl px-4 py-3 rounded-lg bg-gray-700 flex items-center space-x-2">
-                            <span className="animate-pulse">.</span><span className="animate-pulse delay-75">.</span><span className="animate-pulse delay-150">.</span>
-                            <span className="text-sm">Analyzing...</span>
-                        </div>
+                        <button onClick={handleRegenerate} className={smallButtonClasses}>
+                            {lastMessage.role === 'user' ? 'Get answer' : 'Regenerate'}
+                        </button>
                     </div>
                 )}
+                <div ref={endRef} />
             </div>
 
             <div className="p-4 border-t border-gray-700 bg-gray-800">
+                {preview && <PayloadPreview payload={preview} includeImages={includeImages} setIncludeImages={setIncludeImages} />}
                 <form onSubmit={handleSubmit} className="flex items-center space-x-3">
                     <input
                         type="text"
                         value={prompt}
                         onChange={(e) => setPrompt(e.target.value)}
-                        placeholder="e.g., What patterns do you see in my losing trades?"
+                        placeholder={messages.length > 0 ? "Ask a follow-up, e.g. What about Tuesdays only?" : "e.g., What patterns do you see in my losing trades?"}
                         disabled={isLoading}
                         className="flex-grow bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary disabled:opacity-50"
                     />
-                    <button type="submit" disabled={isLoading || !prompt.trim()} className="inline-flex items-center justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
-                        Send
-                    </button>
+                    {isLoading ? (
+                        <button type="button" onClick={() => abortRef.current?.abort()} className="inline-flex items-center justify-center py-2 px-4 border border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-200 hover:bg-gray-700 transition-colors">
+                            Stop
+                        </button>
+                    ) : (
+                        <button type="submit" disabled={!prompt.trim()} className="inline-flex items-center justify-center py-2 px-4 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary disabled:bg-gray-600 disabled:cursor-not-allowed transition-colors">
+                            Send
+                        </button>
+                    )}
                 </form>
             </div>
         </>
     )
 }
 
-export const AiAnalyzer: React.FC<AiAnalyzerProps> = ({ trades }) => {
-  const [activeTab, setActiveTab] = useState<AnalyzerTab>('chat');
-  
+export const AiAnalyzer: React.FC<AiAnalyzerProps> = ({ trades, timezone, aiSettings, tab, onTabChange }) => {
   return (
     <div className="max-w-4xl mx-auto flex flex-col h-[calc(100vh-10rem)] bg-gray-800 rounded-lg shadow-lg border border-gray-700">
         <div className="p-4 border-b border-gray-700 flex items-center justify-between">
@@ -132,15 +316,15 @@ export const AiAnalyzer: React.FC<AiAnalyzerProps> = ({ trades }) => {
                 <h2 className="text-xl font-bold text-primary">AI Performance Analyzer</h2>
             </div>
             <div className="flex items-center space-x-1 rounded-lg bg-gray-900 p-1">
-                <TabButton label="Chat" isActive={activeTab === 'chat'} onClick={() => setActiveTab('chat')} />
-                <TabButton label="SL Sweep Analysis" isActive={activeTab === 'slSweep'} onClick={() => setActiveTab('slSweep')} />
+                <TabButton label="Chat" isActive={tab === 'chat'} onClick={() => onTabChange('chat')} />
+                <TabButton label="SL Sweep Analysis" isActive={tab === 'slSweep'} onClick={() => onTabChange('slSweep')} />
             </div>
         </div>
 
-        {activeTab === 'chat' ? (
-            <ChatAnalyzer trades={trades} />
+        {tab === 'chat' ? (
+            <ChatAnalyzer trades={trades} timezone={timezone} aiSettings={aiSettings} />
         ) : (
-            <SlSweepAnalyzer trades={trades} />
+            <SlSweepAnalyzer trades={trades} timezone={timezone} aiSettings={aiSettings} />
         )}
     </div>
   );
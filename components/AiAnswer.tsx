@@ -0,0 +1,71 @@
+import React, { useMemo } from 'react';
+import { Trade, JournalTimezone, AiInsight, InsightSeverity } from '../types';
+import { parseAnalysis, partialSummary } from '../services/aiInsights';
+import { tradeDay, formatDay } from '../services/tradeTime';
+import { routeToHash } from '../services/routes';
+
+interface AiAnswerProps {
+  text: string;
+  partial?: boolean; // Still streaming in, or stopped before it was complete
+  trades: Trade[];
+  timezone: JournalTimezone;
+}
+
+const SEVERITY_CLASSES: Record<InsightSeverity, string> = {
+  [InsightSeverity.HIGH]: 'bg-danger',
+  [InsightSeverity.MEDIUM]: 'bg-warning',
+  [InsightSeverity.LOW]: 'bg-gray-500',
+};
+
+const TradeLink: React.FC<{ id: string; trade?: Trade; timezone: JournalTimezone }> = ({ id, trade, timezone }) => (
+    trade ? (
+        <a href={routeToHash({ view: 'trade', id })} title={id}
+           className="px-2 py-0.5 rounded bg-gray-800 text-xs text-primary hover:bg-gray-900 hover:underline">
+            {trade.instrument || 'Trade'} · {formatDay(tradeDay(trade, timezone))}
+        </a>
+    ) : (
+        // Models sometimes get an id wrong; it's still shown so the claim can be checked.
+        <span title="No trade with this ID in the journal" className="px-2 py-0.5 rounded bg-gray-800 text-xs font-mono text-gray-500 line-through">
+            {id.length > 24 ? `${id.slice(0, 23)}…` : id}
+        </span>
+    )
+);
+
+const InsightCard: React.FC<{ insight: AiInsight; tradesById: Map<string, Trade>; timezone: JournalTimezone }> = ({ insight, tradesById, timezone }) => (
+    <div className="bg-gray-900/50 rounded-md border border-gray-600 p-3 space-y-2">
+        <div className="flex items-start justify-between gap-3">
+            <h4 className="text-sm font-semibold text-white">{insight.title}</h4>
+            <span className={`shrink-0 px-2 py-0.5 rounded text-xs font-bold text-white ${SEVERITY_CLASSES[insight.severity]}`}>{insight.severity}</span>
+        </div>
+        <p className="text-sm text-gray-300 whitespace-pre-wrap">{insight.finding}</p>
+        {insight.statistic && <p className="text-xs text-gray-400"><span className="font-semibold text-gray-300">Statistic:</span> {insight.statistic}</p>}
+        {insight.suggestedRule && (
+            <p className="text-xs text-gray-400"><span className="font-semibold text-primary">Suggested rule:</span> {insight.suggestedRule}</p>
+        )}
+        {insight.tradeIds.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+                {insight.tradeIds.map(id => <TradeLink key={id} id={id} trade={tradesById.get(id)} timezone={timezone} />)}
+            </div>
+        )}
+    </div>
+);
+
+// An AI reply: the summary and insight cards when it is valid structured JSON, the summary so far
+// while that JSON is still streaming in or when it was stopped, and otherwise the reply as plain text.
+export const AiAnswer: React.FC<AiAnswerProps> = ({ text, partial = false, trades, timezone }) => {
+  const analysis = useMemo(() => parseAnalysis(text), [text]);
+  const tradesById = useMemo(() => new Map(trades.map(trade => [trade.id, trade])), [trades]);
+
+  if (!analysis) {
+    return <p className="text-sm whitespace-pre-wrap">{partial ? partialSummary(text) ?? text : text}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {analysis.summary && <p className="text-sm whitespace-pre-wrap">{analysis.summary}</p>}
+      {analysis.insights.map((insight, index) => (
+        <InsightCard key={index} insight={insight} tradesById={tradesById} timezone={timezone} />
+      ))}
+    </div>
+  );
+};
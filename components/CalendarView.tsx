@@ -0,0 +1,251 @@
+import React, { useMemo, useState } from 'react';
+import { Trade, Outcome, JournalTimezone } from '../types';
+import { realizedR, tradeR, isTakenTrade, formatR } from '../services/tradeMath';
+import { tradeDay, tradeClockTime, tradeSession, formatDay } from '../services/tradeTime';
+
+interface CalendarViewProps {
+  trades: Trade[];
+  timezone: JournalTimezone;
+}
+
+interface DaySummary {
+  trades: Trade[];
+  tradeCount: number; // Taken trades, excluding no-trade entries
+  netR: number;
+  isNoTradeDay: boolean; // Only no-trade entries were logged that day
+}
+
+type CalendarLayout = 'month' | 'year';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+
+const pad = (n: number) => n.toString().padStart(2, '0');
+const dayKey = (year: number, month: number, day: number) => `${year}-${pad(month + 1)}-${pad(day)}`;
+const daysInMonth = (year: number, month: number) => new Date(year, month + 1, 0).getDate();
+// Monday-based column of the first day of the month.
+const firstWeekday = (year: number, month: number) => (new Date(year, month, 1).getDay() + 6) % 7;
+
+// Green for profit, red for loss, scaled by size up to 3R; amber for a flat day.
+const dayColor = (summary: DaySummary): React.CSSProperties => {
+  if (summary.tradeCount === 0) return {};
+  if (summary.netR === 0) return { backgroundColor: 'rgba(245, 158, 11, 0.35)' };
+  const intensity = 0.2 + 0.6 * Math.min(Math.abs(summary.netR) / 3, 1);
+  return { backgroundColor: summary.netR > 0 ? `rgba(34, 197, 94, ${intensity})` : `rgba(239, 68, 68, ${intensity})` };
+};
+
+const rClass = (r: number) => (r > 0 ? 'text-success' : r < 0 ? 'text-danger' : 'text-gray-400');
+
+const DayTradesModal: React.FC<{ day: string; trades: Trade[]; timezone: JournalTimezone; onClose: () => void }> = ({ day, trades, timezone, onClose }) => (
+    <div
+        className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4"
+        onClick={onClose}
+    >
+        <div
+            className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-xl max-w-5xl w-full max-h-[90vh] overflow-y-auto border border-gray-700"
+            onClick={(e) => e.stopPropagation()}
+        >
+            <div className="flex justify-between items-center mb-4">
+                <h3 className="text-xl font-bold text-primary">Trades on {formatDay(day)}</h3>
+                <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl font-bold">&times;</button>
+            </div>
+            <div className="space-y-6">
+                {trades.map(trade => (
+                    <div key={trade.id} className="bg-gray-900 rounded-md p-4">
+                        <div className="flex flex-wrap items-center gap-3 text-sm mb-2">
+                            <span className={`font-bold ${trade.outcome === Outcome.TP ? 'text-success' : trade.outcome === Outcome.SL ? 'text-danger' : trade.outcome === Outcome.BE ? 'text-warning' : 'text-gray-400'}`}>
+                                {trade.outcome}
+                            </span>
+                            {trade.type && <span>{trade.type}</span>}
+                            {trade.instrument && <span className="text-gray-300">{trade.instrument}</span>}
+                            {trade.activationTime && <span className="text-gray-400">{tradeClockTime(trade, timezone)} ({tradeSession(trade, timezone)})</span>}
+                            {isTakenTrade(trade) && <span className={rClass(tradeR(trade))}>{formatR(realizedR(trade))}</span>}
+                        </div>
+                        {trade.notes && <p className="text-sm text-gray-400 whitespace-pre-wrap mb-2">{trade.notes}</p>}
+                        {trade.images && trade.images.length > 0 && (
+                            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                                {trade.images.map(image => (
+                                    <div key={image.id}>
+                                        <h4 className="text-xs font-semibold text-center mb-1 text-gray-400">{image.label}</h4>
+                                        <img src={image.data} alt={`Trade image ${image.label}`} className="w-full h-auto object-contain rounded" />
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                ))}
+            </div>
+        </div>
+    </div>
+);
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ trades, timezone }) => {
+  const today = new Date();
+  const [layout, setLayout] = useState<CalendarLayout>('month');
+  const [year, setYear] = useState(today.getFullYear());
+  const [month, setMonth] = useState(today.getMonth());
+  const [selectedDay, setSelectedDay] = useState<string | null>(null);
+
+  const days = useMemo(() => {
+    const summaries = new Map<string, DaySummary>();
+    trades.forEach(trade => {
+      const key = tradeDay(trade, timezone);
+      const summary = summaries.get(key) ?? { trades: [], tradeCount: 0, netR: 0, isNoTradeDay: true };
+      summary.trades.push(trade);
+      if (isTakenTrade(trade)) {
+        summary.tradeCount++;
+        summary.netR += tradeR(trade);
+        summary.isNoTradeDay = false;
+      }
+      summaries.set(key, summary);
+    });
+    return summaries;
+  }, [trades, timezone]);
+
+  const summarize = (keys: string[]) => keys.reduce((acc, key) => {
+    const summary = days.get(key);
+    if (summary) {
+      acc.netR += summary.netR;
+      acc.tradeCount += summary.tradeCount;
+    }
+    return acc;
+  }, { netR: 0, tradeCount: 0 });
+
+  const monthKeys = (y: number, m: number) => Array.from({ length: daysInMonth(y, m) }, (_, i) => dayKey(y, m, i + 1));
+
+  const step = (delta: number) => {
+    if (layout === 'year') {
+      setYear(y => y + delta);
+      return;
+    }
+    const next = new Date(year, month + delta, 1);
+    setYear(next.getFullYear());
+    setMonth(next.getMonth());
+  };
+
+  const renderMonthGrid = () => {
+    const cells: (string | null)[] = [
+      ...Array.from({ length: firstWeekday(year, month) }, () => null),
+      ...monthKeys(year, month),
+    ];
+    while (cells.length % 7 !== 0) cells.push(null);
+    const weeks = Array.from({ length: cells.length / 7 }, (_, i) => cells.slice(i * 7, i * 7 + 7));
+    const monthTotal = summarize(monthKeys(year, month));
+
+    return (
+      <>
+        <div className="grid grid-cols-8 gap-1 text-xs text-gray-400 mb-1">
+          {WEEKDAYS.map(d => <div key={d} className="text-center">{d}</div>)}
+          <div className="text-center">Week</div>
+        </div>
+        {weeks.map((week, weekIndex) => {
+          const weekTotal = summarize(week.filter((k): k is string => !!k));
+          return (
+            <div key={weekIndex} className="grid grid-cols-8 gap-1 mb-1">
+              {week.map((key, index) => {
+                if (!key) return <div key={index} />;
+                const summary = days.get(key);
+                return (
+                  <button
+                    key={key}
+                    onClick={() => summary && setSelectedDay(key)}
+                    disabled={!summary}
+                    style={summary ? dayColor(summary) : undefined}
+                    className={`h-20 rounded-md p-1 text-left flex flex-col border ${summary?.isNoTradeDay ? 'border-dashed border-gray-500 bg-gray-700/40' : 'border-gray-700'} ${summary ? 'hover:ring-2 hover:ring-primary' : 'cursor-default'}`}
+                  >
+                    <span className="text-xs text-gray-300">{parseInt(key.split('-')[2], 10)}</span>
+                    {summary && summary.tradeCount > 0 && (
+                      <>
+                        <span className="text-sm font-bold text-white mt-auto">{formatR(summary.netR)}</span>
+                        <span className="text-xs text-gray-200">{summary.tradeCount} trade{summary.tradeCount === 1 ? '' : 's'}</span>
+                      </>
+                    )}
+                    {summary?.isNoTradeDay && <span className="text-xs text-gray-400 mt-auto">No trade</span>}
+                  </button>
+                );
+              })}
+              <div className="h-20 rounded-md p-1 bg-gray-900/50 flex flex-col justify-end text-right">
+                <span className={`text-sm font-bold ${rClass(weekTotal.netR)}`}>{formatR(weekTotal.netR)}</span>
+                <span className="text-xs text-gray-500">{weekTotal.tradeCount} trades</span>
+              </div>
+            </div>
+          );
+        })}
+        <p className="text-sm text-right mt-2">
+          Month: <span className={`font-bold ${rClass(monthTotal.netR)}`}>{formatR(monthTotal.netR)}</span>
+          <span className="text-gray-500"> from {monthTotal.tradeCount} trades</span>
+        </p>
+      </>
+    );
+  };
+
+  const renderYearGrid = () => {
+    const yearTotal = summarize(MONTHS.flatMap((_, m) => monthKeys(year, m)));
+    return (
+      <>
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-4">
+          {MONTHS.map((name, m) => {
+            const total = summarize(monthKeys(year, m));
+            return (
+              <div key={name} className="bg-gray-900/50 rounded-md p-3">
+                <button onClick={() => { setMonth(m); setLayout('month'); }} className="flex justify-between w-full text-sm mb-2 hover:text-primary">
+                  <span className="font-semibold">{name}</span>
+                  <span className={rClass(total.netR)}>{formatR(total.netR)}</span>
+                </button>
+                <div className="grid grid-cols-7 gap-0.5">
+                  {Array.from({ length: firstWeekday(year, m) }, (_, i) => <div key={`pad-${i}`} />)}
+                  {monthKeys(year, m).map(key => {
+                    const summary = days.get(key);
+                    return (
+                      <button
+                        key={key}
+                        onClick={() => summary && setSelectedDay(key)}
+                        disabled={!summary}
+                        title={summary ? `${key}: ${summary.isNoTradeDay ? 'no trade' : `${formatR(summary.netR)}, ${summary.tradeCount} trades`}` : key}
+                        style={summary ? dayColor(summary) : undefined}
+                        className={`h-4 rounded-sm ${summary?.isNoTradeDay ? 'border border-dashed border-gray-500' : summary ? '' : 'bg-gray-800'}`}
+                      />
+                    );
+                  })}
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{total.tradeCount} trades</p>
+              </div>
+            );
+          })}
+        </div>
+        <p className="text-sm text-right mt-4">
+          Year: <span className={`font-bold ${rClass(yearTotal.netR)}`}>{formatR(yearTotal.netR)}</span>
+          <span className="text-gray-500"> from {yearTotal.tradeCount} trades</span>
+        </p>
+      </>
+    );
+  };
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+      {selectedDay && days.get(selectedDay) && (
+        <DayTradesModal day={selectedDay} trades={days.get(selectedDay)!.trades} timezone={timezone} onClose={() => setSelectedDay(null)} />
+      )}
+      <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+        <h3 className="text-lg font-semibold">Calendar</h3>
+        <div className="flex items-center space-x-2">
+          <button onClick={() => step(-1)} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-sm">&lsaquo;</button>
+          <span className="text-sm font-medium w-36 text-center">{layout === 'month' ? `${MONTHS[month]} ${year}` : year}</span>
+          <button onClick={() => step(1)} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 text-sm">&rsaquo;</button>
+        </div>
+        <div className="flex items-center space-x-1 rounded-lg bg-gray-900 p-1">
+          {(['month', 'year'] as CalendarLayout[]).map(l => (
+            <button
+              key={l}
+              onClick={() => setLayout(l)}
+              className={`px-3 py-1 text-sm font-medium rounded-md capitalize transition-colors duration-200 ${layout === l ? 'bg-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+            >
+              {l}
+            </button>
+          ))}
+        </div>
+      </div>
+      {layout === 'month' ? renderMonthGrid() : renderYearGrid()}
+    </div>
+  );
+};
@@ -1,49 +1,161 @@
 
 import React, { useMemo, useState } from 'react';
-import { Trade, Outcome, TradeType } from '../types';
+import { Trade, Outcome, AccountSettings, JournalTimezone, TradingSession, TagDefinition, RuleBreach } from '../types';
+import { buildEquityCurve, buildRCurve, formatMoney } from '../services/equity';
+import { calculatePerformanceMetrics } from '../services/performanceMetrics';
+import { realizedR, tradeR, totalR, isTakenTrade, formatR, describeEvent } from '../services/tradeMath';
+import { tradeDay, tradeHour, tradeClockTime, tradeSession, tradeSortTime, dayOfWeek, weekStart, formatDay, SESSION_ORDER } from '../services/tradeTime';
+import { tradesToCSV, downloadFile } from '../services/journalTransfer';
+import { isFullyCompliant } from '../services/playbook';
+import { TradeQuery, FilterPreset, filterTrades } from '../services/tradeFilters';
+import { PeriodComparison, tradesInRange, periodLabels } from '../services/periods';
+import { RiskEvaluation } from '../services/riskRules';
+import { routeToHash } from '../services/routes';
+import { CalendarView } from './CalendarView';
+import { MistakeReport } from './MistakeReport';
+import { FilterBuilder } from './FilterBuilder';
+import { PeriodComparisonBar } from './PeriodComparisonBar';
+import { RiskRulesPanel } from './RiskRulesPanel';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, PieChart, Pie, Cell, LineChart, Line } from 'recharts';
 
 interface DashboardProps {
   trades: Trade[];
   deleteTrade: (id: string) => void;
+  editTrade: (trade: Trade) => void;
+  getAccountSettings: (account?: string) => AccountSettings;
+  timezone: JournalTimezone;
+  tags: TagDefinition[];
+  query: TradeQuery;
+  setQuery: (query: TradeQuery) => void;
+  resetQuery: () => void;
+  presets: FilterPreset[];
+  savePreset: (name: string) => void;
+  deletePreset: (id: string) => void;
+  riskEvaluation: RiskEvaluation;
+  ruleBreaches: RuleBreach[];
+  clearBreaches: () => void;
 }
 
 type SortableTradeKeys = keyof Trade;
 
-const StatCard: React.FC<{ title: string; value: string; subtext?: string, colorClass?: string }> = ({ title, value, subtext, colorClass = 'text-white' }) => (
+const calculateStats = (trades: Trade[]) => {
+    const takenTrades = trades.filter(isTakenTrade);
+    const totalTrades = takenTrades.length;
+    const wins = trades.filter(t => t.outcome === Outcome.TP).length;
+    const losses = trades.filter(t => t.outcome === Outcome.SL).length;
+    const breakEvens = trades.filter(t => t.outcome === Outcome.BE).length;
+    const winRate = totalTrades > 0 && (wins + losses > 0) ? ((wins / (wins + losses)) * 100).toFixed(1) : '0.0';
+
+    const totalRREarned = totalR(takenTrades);
+    
+    const averageRR = totalTrades > 0 ? totalRREarned / totalTrades : 0;
+
+    return {
+      totalTrades,
+      wins,
+      losses,
+      breakEvens,
+      winRate,
+      totalRREarned,
+      averageRR,
+    };
+};
+
+type BreakdownKey = 'instrument' | 'account' | 'setup' | 'tag';
+
+const BREAKDOWN_LABELS: Record<BreakdownKey, string> = {
+  instrument: 'Instrument',
+  account: 'Account',
+  setup: 'Setup',
+  tag: 'Tag',
+};
+
+// A value from the previous period and how the current one differs from it.
+interface CardComparison {
+  previous: string;
+  delta: string;
+  colorClass: string;
+}
+
+// Deltas are only shown between finite values; lowerIsBetter flips the colouring, e.g. for drawdowns.
+const compareValues = (
+  current: number | null,
+  previous: number | null,
+  format: (value: number) => string,
+  lowerIsBetter = false,
+): CardComparison => {
+  const previousText = previous === null ? 'N/A' : previous === Infinity ? '∞' : format(previous);
+  if (current === null || previous === null || !isFinite(current) || !isFinite(previous)) {
+    return { previous: previousText, delta: '-', colorClass: 'text-gray-400' };
+  }
+  const delta = current - previous;
+  const improved = lowerIsBetter ? delta < 0 : delta > 0;
+  return {
+    previous: previousText,
+    delta: `${delta >= 0 ? '+' : ''}${format(delta)}`,
+    colorClass: delta === 0 ? 'text-gray-400' : improved ? 'text-success' : 'text-danger',
+  };
+};
+
+const ComparisonLine: React.FC<{ comparison: CardComparison }> = ({ comparison }) => (
+  <p className="text-xs mt-1">
+    <span className={`font-semibold ${comparison.colorClass}`}>{comparison.delta}</span>
+    <span className="text-gray-500"> vs {comparison.previous}</span>
+  </p>
+);
+
+const StatCard: React.FC<{ title: string; value: string; subtext?: string, colorClass?: string, comparison?: CardComparison }> = ({ title, value, subtext, colorClass = 'text-white', comparison }) => (
   <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
     <h3 className="text-sm font-medium text-gray-400 uppercase tracking-wider">{title}</h3>
     <p className={`text-3xl font-bold mt-2 ${colorClass}`}>{value}</p>
     {subtext && <p className="text-xs text-gray-500 mt-1">{subtext}</p>}
+    {comparison && <ComparisonLine comparison={comparison} />}
   </div>
 );
 
-const ImageModal: React.FC<{ trade: Trade, onClose: () => void }> = ({ trade, onClose }) => (
+const MetricTile: React.FC<{ label: string; value: string; hint?: string; colorClass?: string; comparison?: CardComparison }> = ({ label, value, hint, colorClass = 'text-white', comparison }) => (
+  <div className="bg-gray-900/50 rounded-md p-3" title={hint}>
+    <p className="text-xs text-gray-400 uppercase tracking-wider">{label}</p>
+    <p className={`text-xl font-bold mt-1 ${colorClass}`}>{value}</p>
+    {comparison && <ComparisonLine comparison={comparison} />}
+  </div>
+);
+
+const formatRatio = (value: number | null, suffix = '') =>
+  value === null ? 'N/A' : value === Infinity ? '∞' : `${value.toFixed(2)}${suffix}`;
+
+const HistoryModal: React.FC<{ trade: Trade, onClose: () => void }> = ({ trade, onClose }) => (
     <div 
         className="fixed inset-0 bg-black bg-opacity-80 flex items-center justify-center z-50 p-4"
         onClick={onClose}
     >
         <div 
-            className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-xl max-w-5xl w-full border border-gray-700"
+            className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-xl max-w-2xl w-full max-h-[80vh] overflow-y-auto border border-gray-700"
             onClick={(e) => e.stopPropagation()}
         >
             <div className="flex justify-between items-center mb-4">
-                <h3 className="text-xl font-bold text-primary">Trade Images - {new Date(trade.date).toLocaleDateString()}</h3>
+                <h3 className="text-xl font-bold text-primary">Edit History - {formatDay(trade.date.split('T')[0])}</h3>
                 <button onClick={onClose} className="text-gray-400 hover:text-white text-2xl font-bold">&times;</button>
             </div>
-            {(!trade.images || Object.keys(trade.images).length === 0) ? (
-                <p className="text-center text-gray-500">No images for this trade.</p>
+            {(!trade.history || trade.history.length === 0) ? (
+                <p className="text-center text-gray-500">This trade has not been edited.</p>
             ) : (
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                    {Object.entries(trade.images).map(([key, imgData]) => (
-                        <div key={key} className="bg-gray-900 rounded-md p-2">
-                            <h4 className="text-sm font-semibold text-center mb-2 text-gray-400 capitalize">
-                              {key === 'metatrader' ? 'MetaTrader Screen' : key}
-                            </h4>
-                            <img src={imgData} alt={`Trade image ${key}`} className="w-full h-auto object-contain rounded" />
-                        </div>
+                <ol className="space-y-4">
+                    {[...trade.history].reverse().map((edit, index) => (
+                        <li key={`${edit.editedAt}-${index}`} className="bg-gray-900 rounded-md p-3">
+                            <p className="text-xs text-gray-400 mb-2">{new Date(edit.editedAt).toLocaleString()}</p>
+                            <ul className="space-y-1 text-sm">
+                                {edit.changes.map(change => (
+                                    <li key={change.field}>
+                                        <span className="font-semibold text-gray-300">{change.field}</span>:{' '}
+                                        <span className="text-danger line-through">{change.from || 'N/A'}</span>{' → '}
+                                        <span className="text-success">{change.to || 'N/A'}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </li>
                     ))}
-                </div>
+                </ol>
             )}
         </div>
     </div>
@@ -55,64 +167,75 @@ const SortIcon: React.FC<{ direction?: 'ascending' | 'descending' }> = ({ direct
 };
 
 
-export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) => {
-  const [viewingTrade, setViewingTrade] = useState<Trade | null>(null);
-  const [filters, setFilters] = useState({
-    startDate: '',
-    endDate: '',
-    outcome: 'all',
-    type: 'all',
-    rangeSize: 'all',
-    dayOfWeek: 'all',
-  });
+export const Dashboard: React.FC<DashboardProps> = ({
+  trades, deleteTrade, editTrade, getAccountSettings, timezone, tags,
+  query, setQuery, resetQuery, presets, savePreset, deletePreset,
+  riskEvaluation, ruleBreaches, clearBreaches,
+}) => {
+  const [historyTrade, setHistoryTrade] = useState<Trade | null>(null);
   const [sortConfig, setSortConfig] = useState<{ key: SortableTradeKeys; direction: 'ascending' | 'descending' }>({ key: 'date', direction: 'descending' });
-
-
-  const stats = useMemo(() => {
-    const totalTrades = trades.filter(t => t.outcome !== Outcome.NO_TRADE).length;
-    const wins = trades.filter(t => t.outcome === Outcome.TP).length;
-    const losses = trades.filter(t => t.outcome === Outcome.SL).length;
-    const breakEvens = trades.filter(t => t.outcome === Outcome.BE).length;
-    const winRate = totalTrades > 0 && (wins + losses > 0) ? ((wins / (wins + losses)) * 100).toFixed(1) : '0.0';
-
-    const totalRREarned = trades
-      .filter(t => t.outcome !== Outcome.NO_TRADE)
-      .reduce((acc, trade) => {
-        if (trade.rr !== undefined && trade.rr !== null) { // Prioritize manually entered RR
-            // For SL, it is always -1R, regardless of what's in rr field.
-            return acc + (trade.outcome === Outcome.SL ? -1 : trade.rr);
-        }
-        if (trade.outcome === Outcome.TP && trade.slSize && trade.tpSize && trade.slSize > 0) {
-            return acc + (trade.tpSize / trade.slSize);
-        }
-        if (trade.outcome === Outcome.SL) {
-            return acc - 1;
-        }
-        // For BE or other cases without specified RR, add 0.
-        return acc;
-    }, 0);
-    
-    const averageRR = totalTrades > 0 ? totalRREarned / totalTrades : 0;
-
+  const [breakdownKey, setBreakdownKey] = useState<BreakdownKey>('instrument');
+  const [comparison, setComparison] = useState<PeriodComparison | null>(null);
+
+
+  const matchingTrades = useMemo(() => filterTrades(trades, query, { timezone, tags }), [trades, query, timezone, tags]);
+
+  // Every stat, chart and the table read the trades matching the filters, narrowed to the current
+  // period when comparing; the previous period is only used for the deltas.
+  const filteredTrades = useMemo(
+    () => (comparison ? tradesInRange(matchingTrades, comparison.current, timezone) : matchingTrades),
+    [matchingTrades, comparison, timezone]);
+  const previousTrades = useMemo(
+    () => (comparison ? tradesInRange(matchingTrades, comparison.previous, timezone) : null),
+    [matchingTrades, comparison, timezone]);
+
+  const stats = useMemo(() => calculateStats(filteredTrades), [filteredTrades]);
+  const breakdownData = useMemo(() => {
+    const groups = new Map<string, Trade[]>();
+    filteredTrades.forEach(trade => {
+      // A trade with several tags counts towards each of them.
+      const keys = breakdownKey === 'tag' ? trade.tags ?? [] : [trade[breakdownKey]];
+      (keys.length > 0 ? keys : [undefined]).forEach(value => {
+        const key = value || 'Unassigned';
+        groups.set(key, [...(groups.get(key) ?? []), trade]);
+      });
+    });
+    return Array.from(groups.entries())
+      .map(([name, groupTrades]) => ({ name, ...calculateStats(groupTrades) }))
+      .sort((a, b) => b.totalTrades - a.totalTrades);
+  }, [filteredTrades, breakdownKey]);
+
+  // For every checklist item, how trades that met it compare with trades that went ahead without it.
+  const complianceData = useMemo(() => {
+    const withChecklist = filteredTrades.filter(t => isTakenTrade(t) && t.checklist && t.checklist.length > 0);
+    const items = new Map<string, { setup: string; item: string; followed: Trade[]; skipped: Trade[] }>();
+    withChecklist.forEach(trade => {
+      const setup = trade.setup ?? 'Unassigned';
+      trade.checklist!.forEach(check => {
+        const key = JSON.stringify([setup, check.item]);
+        const entry = items.get(key) ?? { setup, item: check.item, followed: [], skipped: [] };
+        (check.checked ? entry.followed : entry.skipped).push(trade);
+        items.set(key, entry);
+      });
+    });
+    const fullyCompliant = withChecklist.filter(t => isFullyCompliant(t.checklist!));
     return {
-      totalTrades,
-      wins,
-      losses,
-      breakEvens,
-      winRate,
-      totalRREarned,
-      averageRR,
+      tradeCount: withChecklist.length,
+      overall: {
+        followed: calculateStats(fullyCompliant),
+        skipped: calculateStats(withChecklist.filter(t => !isFullyCompliant(t.checklist!))),
+      },
+      items: Array.from(items.values())
+        .map(({ setup, item, followed, skipped }) => ({
+          setup,
+          item,
+          complianceRate: (followed.length / (followed.length + skipped.length)) * 100,
+          followed: calculateStats(followed),
+          skipped: calculateStats(skipped),
+        }))
+        .sort((a, b) => a.setup.localeCompare(b.setup) || a.complianceRate - b.complianceRate),
     };
-  }, [trades]);
-  
-  const handleFilterChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    setFilters(prev => ({ ...prev, [name]: value }));
-  };
-
-  const resetFilters = () => {
-    setFilters({ startDate: '', endDate: '', outcome: 'all', type: 'all', rangeSize: 'all', dayOfWeek: 'all' });
-  };
+  }, [filteredTrades]);
   
   const requestSort = (key: SortableTradeKeys) => {
     let direction: 'ascending' | 'descending' = 'ascending';
@@ -123,49 +246,17 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
   };
   
   const filteredAndSortedTrades = useMemo(() => {
-    let filteredTrades = [...trades];
-
-    if (filters.startDate) {
-        filteredTrades = filteredTrades.filter(t => new Date(t.date) >= new Date(filters.startDate));
-    }
-    if (filters.endDate) {
-        filteredTrades = filteredTrades.filter(t => new Date(t.date) <= new Date(filters.endDate));
-    }
-    if (filters.outcome !== 'all') {
-        filteredTrades = filteredTrades.filter(t => t.outcome === filters.outcome);
-    }
-    if (filters.type !== 'all') {
-        filteredTrades = filteredTrades.filter(t => t.type === filters.type);
-    }
-    if (filters.rangeSize !== 'all') {
-        const [minStr, maxStr] = filters.rangeSize.split('-');
-        const min = parseFloat(minStr);
-        const max = maxStr ? parseFloat(maxStr) : Infinity;
-
-        filteredTrades = filteredTrades.filter(t => {
-            if (t.rangeSize == null) return false;
-            return t.rangeSize >= min && t.rangeSize < max;
-        });
-    }
-    if (filters.dayOfWeek !== 'all') {
-        filteredTrades = filteredTrades.filter(t => {
-            const date = new Date(t.date);
-            const utcDate = new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
-            // In JS, getUTCDay() is 0 for Sunday, 1 for Monday, ..., 6 for Saturday.
-            return utcDate.getUTCDay().toString() === filters.dayOfWeek;
-        });
-    }
-
-    filteredTrades.sort((a, b) => {
-        const aValue = a[sortConfig.key];
-        const bValue = b[sortConfig.key];
+    return [...filteredTrades].sort((a, b) => {
+        // The R/R column shows realized R, so sort by that rather than the raw field.
+        const aValue = sortConfig.key === 'rr' ? realizedR(a) : a[sortConfig.key];
+        const bValue = sortConfig.key === 'rr' ? realizedR(b) : b[sortConfig.key];
 
         if (aValue == null) return 1;
         if (bValue == null) return -1;
 
         let comparison = 0;
         if (sortConfig.key === 'date') {
-            comparison = new Date(aValue as string).getTime() - new Date(bValue as string).getTime();
+            comparison = tradeSortTime(a, timezone) - tradeSortTime(b, timezone);
         } else if (typeof aValue === 'number' && typeof bValue === 'number') {
             comparison = aValue - bValue;
         } else {
@@ -174,18 +265,37 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
         
         return sortConfig.direction === 'descending' ? -comparison : comparison;
     });
+  }, [filteredTrades, sortConfig, timezone]);
+
+  const metrics = useMemo(() => calculatePerformanceMetrics(filteredTrades, timezone), [filteredTrades, timezone]);
+
+  const previous = useMemo(() => previousTrades && {
+    stats: calculateStats(previousTrades),
+    metrics: calculatePerformanceMetrics(previousTrades, timezone),
+    equity: buildEquityCurve(previousTrades, getAccountSettings, timezone),
+  }, [previousTrades, getAccountSettings, timezone]);
+
+  // Undefined outside comparison mode, so the cards render as before.
+  const vs = (
+    current: number | null,
+    pickPrevious: (period: NonNullable<typeof previous>) => number | null,
+    format: (value: number) => string,
+    lowerIsBetter = false,
+  ) => (previous ? compareValues(current, pickPrevious(previous), format, lowerIsBetter) : undefined);
 
-    return filteredTrades;
-  }, [trades, filters, sortConfig]);
+  const count = (value: number) => value.toString();
+  const rValue = (value: number) => `${value.toFixed(2)}R`;
+  const ratio = (value: number) => value.toFixed(2);
+  const money = (value: number) => formatMoney(value, equity.currency);
 
   const outcomeData = useMemo(() => {
     return [
       { name: 'Take Profit', value: stats.wins },
       { name: 'Stop Loss', value: stats.losses },
       { name: 'Break Even', value: stats.breakEvens },
-      { name: 'No Trade Days', value: trades.filter(t=> t.outcome === Outcome.NO_TRADE).length },
+      { name: 'No Trade Days', value: filteredTrades.filter(t=> t.outcome === Outcome.NO_TRADE).length },
     ].filter(d => d.value > 0);
-  }, [trades, stats]);
+  }, [filteredTrades, stats]);
 
   const COLORS = {
     'Take Profit': '#22c55e',
@@ -197,11 +307,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
   const weeklyWinRateData = useMemo(() => {
     const weeks: { [key: string]: { wins: number, losses: number, total: number } } = {};
     
-    trades.forEach(trade => {
+    filteredTrades.forEach(trade => {
         if (trade.outcome === Outcome.TP || trade.outcome === Outcome.SL) {
-            const date = new Date(trade.date);
-            const firstDay = new Date(date.setDate(date.getDate() - date.getDay()));
-            const weekKey = firstDay.toISOString().split('T')[0];
+            const weekKey = weekStart(tradeDay(trade, timezone));
 
             if (!weeks[weekKey]) {
                 weeks[weekKey] = { wins: 0, losses: 0, total: 0 };
@@ -219,15 +327,15 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
       'Win Rate': data.wins + data.losses > 0 ? (data.wins / (data.wins + data.losses)) * 100 : 0,
       wins: data.wins,
       losses: data.losses
-    })).sort((a,b) => new Date(a.name).getTime() - new Date(b.name).getTime());
-  }, [trades]);
+    })).sort((a,b) => a.name.localeCompare(b.name));
+  }, [filteredTrades, timezone]);
 
   const dailyTpslData = useMemo(() => {
     const dailyData: { [key: string]: { TP: number; SL: number } } = {};
 
-    trades.forEach((trade) => {
+    filteredTrades.forEach((trade) => {
       if (trade.outcome === Outcome.TP || trade.outcome === Outcome.SL) {
-        const dayKey = new Date(trade.date).toISOString().split('T')[0];
+        const dayKey = tradeDay(trade, timezone);
 
         if (!dailyData[dayKey]) {
           dailyData[dayKey] = { TP: 0, SL: 0 };
@@ -246,56 +354,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
         TP: data.TP,
         SL: data.SL,
       }))
-      .sort((a, b) => new Date(a.name).getTime() - new Date(b.name).getTime());
-  }, [trades]);
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [filteredTrades, timezone]);
   
-  const cumulativeRRData = useMemo(() => {
-    // Step 1: Process and sort all trades by date
-    const sortedTrades = trades
-      .filter(t => t.outcome !== Outcome.NO_TRADE)
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-
-    if (sortedTrades.length === 0) {
-      return [];
-    }
-
-    // Step 2: Group trades by day and calculate daily R/R sum
-    const dailyData: Map<string, number> = new Map();
-    sortedTrades.forEach(trade => {
-      const dayKey = new Date(trade.date).toISOString().split('T')[0];
-      
-      let tradeRR = 0;
-      if (trade.rr !== undefined && trade.rr !== null) {
-        tradeRR = trade.outcome === Outcome.SL ? -1 : trade.rr;
-      } else if (trade.outcome === Outcome.TP && trade.tpSize && trade.slSize && trade.slSize > 0) {
-        tradeRR = trade.tpSize / trade.slSize;
-      } else if (trade.outcome === Outcome.SL) {
-        tradeRR = -1;
-      }
-
-      const currentDailyRR = dailyData.get(dayKey) || 0;
-      dailyData.set(dayKey, currentDailyRR + tradeRR);
-    });
-
-    // Step 3: Calculate the cumulative R/R for each day
-    let cumulativeRR = 0;
-    const chartData = [];
-    
-    // The map keys will be in insertion order, which is chronological because we processed sorted trades.
-    for (const [day, dailyRR] of dailyData.entries()) {
-      cumulativeRR += dailyRR;
-      chartData.push({
-        name: day,
-        'Cumulative R/R': cumulativeRR,
-      });
-    }
-
-    // Step 4: Prepend a starting point for the equity curve
-    return [
-      { name: 'Start', 'Cumulative R/R': 0 },
-      ...chartData,
-    ];
-  }, [trades]);
+  const cumulativeRRData = useMemo(() => buildRCurve(filteredTrades, timezone), [filteredTrades, timezone]);
+
+  const equity = useMemo(() => buildEquityCurve(filteredTrades, getAccountSettings, timezone), [filteredTrades, getAccountSettings, timezone]);
+
+  // Cumulative R by trade number for both periods, so periods of different lengths line up.
+  const comparisonCurveData = useMemo(() => {
+    if (!comparison || !previousTrades) return [];
+    const cumulative = (periodTrades: Trade[]) => {
+      let sum = 0;
+      return periodTrades
+        .filter(isTakenTrade)
+        .sort((a, b) => tradeSortTime(a, timezone) - tradeSortTime(b, timezone))
+        .map(trade => (sum += tradeR(trade)));
+    };
+    const labels = periodLabels(comparison.preset);
+    const current = cumulative(filteredTrades);
+    const prior = cumulative(previousTrades);
+    return Array.from({ length: Math.max(current.length, prior.length) + 1 }, (_, index) => ({
+      name: index.toString(),
+      [labels.current]: index === 0 ? 0 : current[index - 1],
+      [labels.previous]: index === 0 ? 0 : prior[index - 1],
+    }));
+  }, [comparison, filteredTrades, previousTrades, timezone]);
 
   const performanceByDayData = useMemo(() => {
     const days = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
@@ -304,12 +388,9 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
         return acc;
     }, {} as { [key: string]: { wins: number; losses: number; trades: number } });
 
-    trades.forEach(trade => {
+    filteredTrades.forEach(trade => {
         if (trade.outcome === Outcome.NO_TRADE) return;
-        // Adjust for timezone by using UTC date parts
-        const date = new Date(trade.date);
-        const utcDate = new Date(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate());
-        const dayName = days[utcDate.getUTCDay()];
+        const dayName = days[dayOfWeek(tradeDay(trade, timezone))];
         
         dailyStats[dayName].trades++;
         if (trade.outcome === Outcome.TP) {
@@ -326,7 +407,32 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
             ? (dailyStats[day].wins / (dailyStats[day].wins + dailyStats[day].losses)) * 100 : 0,
         'Trades': dailyStats[day].trades,
     }));
-  }, [trades]);
+  }, [filteredTrades, timezone]);
+
+  // Win rate and net R per session and per activation hour; trades without a time are left out.
+  const performanceByTimeData = useMemo(() => {
+    const bySession = new Map<TradingSession, Trade[]>(SESSION_ORDER.map(session => [session, []]));
+    const byHour = new Map<number, Trade[]>();
+    filteredTrades.filter(isTakenTrade).forEach(trade => {
+      const session = tradeSession(trade, timezone);
+      const hour = tradeHour(trade, timezone);
+      if (session) bySession.get(session)!.push(trade);
+      if (hour !== null) byHour.set(hour, [...(byHour.get(hour) ?? []), trade]);
+    });
+    const summarize = (name: string, group: Trade[]) => {
+      const groupStats = calculateStats(group);
+      return { name, 'Win Rate': parseFloat(groupStats.winRate), 'Net R': parseFloat(groupStats.totalRREarned.toFixed(2)), 'Trades': groupStats.totalTrades };
+    };
+    return {
+      sessions: SESSION_ORDER.filter(session => bySession.get(session)!.length > 0).map(session => summarize(session, bySession.get(session)!)),
+      hours: Array.from(byHour.keys()).sort((a, b) => a - b).map(hour => summarize(`${hour.toString().padStart(2, '0')}:00`, byHour.get(hour)!)),
+    };
+  }, [filteredTrades, timezone]);
+
+  const exportFilteredCSV = () => {
+    const stamp = new Date().toISOString().split('T')[0];
+    downloadFile(`trades-${stamp}.csv`, tradesToCSV(filteredAndSortedTrades, timezone), 'text/csv');
+  };
 
   const renderSortableHeader = (label: string, key: SortableTradeKeys) => (
     <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
@@ -337,33 +443,36 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
     </th>
   );
 
-  const rangeOptions = [
-    { value: 'all', label: 'All' },
-    { value: '0-5', label: '0-5 pips' },
-    { value: '5-10', label: '5-10 pips' },
-    { value: '10-20', label: '10-20 pips' },
-    { value: '20-', label: '20+ pips' },
-  ];
-
   return (
     <div className="space-y-8">
-      {viewingTrade && <ImageModal trade={viewingTrade} onClose={() => setViewingTrade(null)} />}
+      {historyTrade && <HistoryModal trade={historyTrade} onClose={() => setHistoryTrade(null)} />}
+      {(riskEvaluation.statuses.length > 0 || ruleBreaches.length > 0) && (
+        <RiskRulesPanel evaluation={riskEvaluation} breaches={ruleBreaches} clearBreaches={clearBreaches} />
+      )}
+      <PeriodComparisonBar comparison={comparison} setComparison={setComparison} timezone={timezone} />
       <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-6">
-        <StatCard title="Total Trades" value={stats.totalTrades.toString()} />
-        <StatCard title="Win Rate" value={`${stats.winRate}%`} colorClass={parseFloat(stats.winRate) >= 50 ? 'text-success' : 'text-danger'} />
+        <StatCard title="Total Trades" value={stats.totalTrades.toString()} comparison={vs(stats.totalTrades, p => p.stats.totalTrades, count)} />
+        <StatCard
+            title="Win Rate"
+            value={`${stats.winRate}%`}
+            colorClass={parseFloat(stats.winRate) >= 50 ? 'text-success' : 'text-danger'}
+            comparison={vs(parseFloat(stats.winRate), p => parseFloat(p.stats.winRate), value => `${value.toFixed(1)}%`)}
+        />
         <StatCard 
             title="Total R/R Earned" 
             value={`${stats.totalRREarned.toFixed(2)}R`} 
             colorClass={stats.totalRREarned >= 0 ? 'text-success' : 'text-danger'}
+            comparison={vs(stats.totalRREarned, p => p.stats.totalRREarned, rValue)}
         />
         <StatCard
             title="Average R/R"
             value={`${stats.averageRR.toFixed(2)}R`}
             colorClass={stats.averageRR >= 0 ? 'text-success' : 'text-danger'}
             subtext="per trade"
+            comparison={vs(stats.averageRR, p => p.stats.averageRR, rValue)}
         />
-        <StatCard title="Wins" value={stats.wins.toString()} subtext="Take Profits" colorClass="text-success" />
-        <StatCard title="Losses" value={stats.losses.toString()} subtext="Stop Losses" colorClass="text-danger" />
+        <StatCard title="Wins" value={stats.wins.toString()} subtext="Take Profits" colorClass="text-success" comparison={vs(stats.wins, p => p.stats.wins, count)} />
+        <StatCard title="Losses" value={stats.losses.toString()} subtext="Stop Losses" colorClass="text-danger" comparison={vs(stats.losses, p => p.stats.losses, count, true)} />
       </div>
       
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
@@ -435,6 +544,89 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
         </ResponsiveContainer>
       </div>
       
+      {comparison && (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+          <h3 className="text-lg font-semibold mb-1">{periodLabels(comparison.preset).current} vs {periodLabels(comparison.preset).previous}</h3>
+          <p className="text-xs text-gray-500 mb-4">Cumulative R by trade number in each period.</p>
+          <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={comparisonCurveData}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="name" stroke="#9ca3af" tick={{ fontSize: 12 }} />
+              <YAxis stroke="#9ca3af" unit="R" domain={['auto', 'auto']} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                formatter={(value: number) => `${value.toFixed(2)}R`}
+              />
+              <Legend />
+              <Line type="monotone" dataKey={periodLabels(comparison.preset).current} stroke="#00A86B" strokeWidth={2} dot={false} connectNulls={false} />
+              <Line type="monotone" dataKey={periodLabels(comparison.preset).previous} stroke="#9ca3af" strokeWidth={2} strokeDasharray="5 5" dot={false} connectNulls={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatCard
+            title="Balance"
+            value={formatMoney(equity.endingBalance, equity.currency)}
+            subtext={`from ${formatMoney(equity.startingBalance, equity.currency)}`}
+            comparison={vs(equity.endingBalance, p => p.equity.endingBalance, money)}
+        />
+        <StatCard
+            title="Net P&L"
+            value={formatMoney(equity.netPnl, equity.currency)}
+            colorClass={equity.netPnl >= 0 ? 'text-success' : 'text-danger'}
+            subtext={equity.startingBalance > 0 ? `${((equity.netPnl / equity.startingBalance) * 100).toFixed(1)}% return` : undefined}
+            comparison={vs(equity.netPnl, p => p.equity.netPnl, money)}
+        />
+        <StatCard
+            title="Max Drawdown"
+            value={formatMoney(-equity.maxDrawdown, equity.currency)}
+            colorClass="text-danger"
+            subtext="peak to trough"
+            comparison={vs(equity.maxDrawdown, p => p.equity.maxDrawdown, money, true)}
+        />
+        <StatCard
+            title="Max Drawdown %"
+            value={`${equity.maxDrawdownPct.toFixed(1)}%`}
+            colorClass="text-danger"
+            subtext="of peak balance"
+            comparison={vs(equity.maxDrawdownPct, p => p.equity.maxDrawdownPct, value => `${value.toFixed(1)}%`, true)}
+        />
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+        <h3 className="text-lg font-semibold mb-1">Account Equity</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          {equity.currency ? '' : 'Accounts use different currencies, so amounts are summed without conversion. '}
+          Trades without a recorded P&L are estimated from their R and the risk in Settings.
+        </p>
+        <ResponsiveContainer width="100%" height={300}>
+            <LineChart data={equity.points}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                <XAxis dataKey="name" stroke="#9ca3af" tick={{ fontSize: 12 }} />
+                <YAxis stroke="#9ca3af" domain={['auto', 'auto']} tickFormatter={(value: number) => value.toFixed(0)} />
+                <Tooltip 
+                  contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                  formatter={(value: number) => [formatMoney(value, equity.currency), 'Balance']}
+                />
+                <Legend />
+                <Line 
+                    type="monotone" 
+                    dataKey="Balance" 
+                    stroke={equity.netPnl >= 0 ? COLORS['Take Profit'] : COLORS['Stop Loss']} 
+                    strokeWidth={2}
+                    dot={{ r: 2, fill: equity.netPnl >= 0 ? COLORS['Take Profit'] : COLORS['Stop Loss'] }}
+                    activeDot={{ r: 6 }}
+                />
+            </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <CalendarView trades={filteredTrades} timezone={timezone} />
+
+      <MistakeReport trades={filteredTrades} tags={tags} timezone={timezone} />
+
       <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
          <h3 className="text-lg font-semibold mb-4">Performance by Day of Week</h3>
          <ResponsiveContainer width="100%" height={300}>
@@ -454,54 +646,167 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
          </ResponsiveContainer>
        </div>
 
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+        {[
+          { title: 'Performance by Session', data: performanceByTimeData.sessions },
+          { title: 'Performance by Hour', data: performanceByTimeData.hours },
+        ].map(({ title, data }) => (
+          <div key={title} className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+            <h3 className="text-lg font-semibold mb-4">{title}</h3>
+            {data.length > 0 ? (
+              <ResponsiveContainer width="100%" height={300}>
+                <BarChart data={data} margin={{ top: 20, right: 30, left: 0, bottom: 5 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+                  <XAxis dataKey="name" stroke="#9ca3af" tick={{ fontSize: 12 }} />
+                  <YAxis yAxisId="left" orientation="left" stroke="#00A86B" unit="%" />
+                  <YAxis yAxisId="right" orientation="right" stroke="#9ca3af" unit="R" />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                    formatter={(value: number, name: string) => [name === 'Win Rate (%)' ? `${value.toFixed(1)}%` : name === 'Net R' ? `${value.toFixed(2)}R` : value, name]}
+                  />
+                  <Legend />
+                  <Bar yAxisId="left" dataKey="Win Rate" fill="#00A86B" name="Win Rate (%)" />
+                  <Bar yAxisId="right" dataKey="Net R" fill="#6b7280" name="Net R" />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className="text-sm text-gray-500">Record activation times on your trades to see this breakdown.</p>
+            )}
+          </div>
+        ))}
+      </div>
+
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Performance by {BREAKDOWN_LABELS[breakdownKey]}</h3>
+          <select value={breakdownKey} onChange={e => setBreakdownKey(e.target.value as BreakdownKey)}
+                  className="bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary">
+            <option value="instrument">By Instrument</option>
+            <option value="account">By Account</option>
+            <option value="setup">By Setup</option>
+            <option value="tag">By Tag</option>
+          </select>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="min-w-full divide-y divide-gray-700 text-sm">
+            <thead className="bg-gray-700/50 text-xs font-medium text-gray-400 uppercase tracking-wider">
+              <tr>
+                <th className="px-4 py-3 text-left">{BREAKDOWN_LABELS[breakdownKey]}</th>
+                <th className="px-4 py-3 text-left">Trades</th>
+                <th className="px-4 py-3 text-left">Win Rate</th>
+                <th className="px-4 py-3 text-left">Total R/R</th>
+                <th className="px-4 py-3 text-left">Average R/R</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {breakdownData.map(row => (
+                <tr key={row.name}>
+                  <td className="px-4 py-3 font-semibold">{row.name}</td>
+                  <td className="px-4 py-3 text-gray-300">{row.totalTrades}</td>
+                  <td className={`px-4 py-3 ${parseFloat(row.winRate) >= 50 ? 'text-success' : 'text-danger'}`}>{row.winRate}%</td>
+                  <td className={`px-4 py-3 ${row.totalRREarned >= 0 ? 'text-success' : 'text-danger'}`}>{row.totalRREarned.toFixed(2)}R</td>
+                  <td className={`px-4 py-3 ${row.averageRR >= 0 ? 'text-success' : 'text-danger'}`}>{row.averageRR.toFixed(2)}R</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {breakdownData.length === 0 && <p className="text-center py-8 text-gray-500">No trades yet.</p>}
+        </div>
+      </div>
+
+      {complianceData.tradeCount > 0 && (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+          <h3 className="text-lg font-semibold mb-1">Checklist Compliance</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            {complianceData.tradeCount} trades logged with a checklist.
+            Fully compliant: {complianceData.overall.followed.totalTrades} trades averaging {complianceData.overall.followed.averageRR.toFixed(2)}R;
+            with items skipped: {complianceData.overall.skipped.totalTrades} trades averaging {complianceData.overall.skipped.averageRR.toFixed(2)}R.
+          </p>
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="bg-gray-700/50 text-xs font-medium text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3 text-left">Setup</th>
+                  <th className="px-4 py-3 text-left">Checklist Item</th>
+                  <th className="px-4 py-3 text-left">Compliance</th>
+                  <th className="px-4 py-3 text-left">When Met</th>
+                  <th className="px-4 py-3 text-left">When Skipped</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {complianceData.items.map(row => (
+                  <tr key={`${row.setup}-${row.item}`}>
+                    <td className="px-4 py-3 text-gray-300">{row.setup}</td>
+                    <td className="px-4 py-3 font-semibold">{row.item}</td>
+                    <td className="px-4 py-3 text-gray-300">{row.complianceRate.toFixed(0)}%</td>
+                    {[row.followed, row.skipped].map((group, index) => (
+                      <td key={index} className="px-4 py-3 text-gray-300">
+                        {group.totalTrades > 0 ? (
+                          <>
+                            <span className={group.averageRR >= 0 ? 'text-success' : 'text-danger'}>{group.averageRR.toFixed(2)}R</span>
+                            <span className="text-xs text-gray-500"> avg · {group.winRate}% win · {group.totalTrades} trades</span>
+                          </>
+                        ) : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+        <h3 className="text-lg font-semibold mb-1">Advanced Metrics</h3>
+        <p className="text-xs text-gray-500 mb-4">Based on the {metrics.tradeCount} trades matching the Trade History filters below{comparison ? ' in the current period' : ''}. All values are in R.</p>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+          <MetricTile label="Expectancy" value={`${metrics.expectancy.toFixed(2)}R`} hint="Average R per trade" colorClass={metrics.expectancy >= 0 ? 'text-success' : 'text-danger'}
+            comparison={vs(metrics.expectancy, p => p.metrics.expectancy, rValue)} />
+          <MetricTile label="Profit Factor" value={formatRatio(metrics.profitFactor)} hint="Gross R won divided by gross R lost" colorClass={(metrics.profitFactor ?? 0) >= 1 ? 'text-success' : 'text-danger'}
+            comparison={vs(metrics.profitFactor, p => p.metrics.profitFactor, ratio)} />
+          <MetricTile label="Avg Winner" value={`${metrics.averageWinner.toFixed(2)}R`} colorClass="text-success" comparison={vs(metrics.averageWinner, p => p.metrics.averageWinner, rValue)} />
+          <MetricTile label="Avg Loser" value={`${metrics.averageLoser.toFixed(2)}R`} colorClass="text-danger" comparison={vs(metrics.averageLoser, p => p.metrics.averageLoser, rValue)} />
+          <MetricTile label="Payoff Ratio" value={formatRatio(metrics.payoffRatio)} hint="Average winner divided by average loser"
+            comparison={vs(metrics.payoffRatio, p => p.metrics.payoffRatio, ratio)} />
+          <MetricTile label="Max Drawdown" value={`-${metrics.maxDrawdownR.toFixed(2)}R`} hint="Deepest fall of cumulative R from a previous peak" colorClass="text-danger"
+            comparison={vs(metrics.maxDrawdownR, p => p.metrics.maxDrawdownR, rValue, true)} />
+          <MetricTile label="DD Duration" value={`${metrics.maxDrawdownTrades} trades`} hint={`Longest time below a previous peak: ${metrics.maxDrawdownDays} days`}
+            comparison={vs(metrics.maxDrawdownTrades, p => p.metrics.maxDrawdownTrades, count, true)} />
+          <MetricTile label="Longest Win Streak" value={metrics.longestWinStreak.toString()} colorClass="text-success" comparison={vs(metrics.longestWinStreak, p => p.metrics.longestWinStreak, count)} />
+          <MetricTile label="Longest Loss Streak" value={metrics.longestLossStreak.toString()} colorClass="text-danger" comparison={vs(metrics.longestLossStreak, p => p.metrics.longestLossStreak, count, true)} />
+          <MetricTile
+            label="Current Streak"
+            value={metrics.currentStreak.kind === 'none' ? '-' : `${metrics.currentStreak.length} ${metrics.currentStreak.kind === 'win' ? 'W' : 'L'}`}
+            colorClass={metrics.currentStreak.kind === 'win' ? 'text-success' : metrics.currentStreak.kind === 'loss' ? 'text-danger' : 'text-white'}
+          />
+          <MetricTile label="Sharpe / Sortino" value={`${formatRatio(metrics.sharpe)} / ${formatRatio(metrics.sortino)}`} hint="Per-trade, on R multiples"
+            comparison={vs(metrics.sharpe, p => p.metrics.sharpe, ratio)} />
+          <MetricTile label="SQN" value={formatRatio(metrics.sqn)} hint="System Quality Number: sqrt(trades) × expectancy / std dev of R"
+            comparison={vs(metrics.sqn, p => p.metrics.sqn, ratio)} />
+        </div>
+      </div>
 
       <div className="bg-gray-800 p-4 sm:p-6 rounded-lg shadow-md border border-gray-700">
-        <h3 className="text-lg font-semibold mb-4">Trade History</h3>
-        
-        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6 p-4 bg-gray-900/50 rounded-lg">
-            <div>
-                <label className="text-xs text-gray-400">Start Date</label>
-                <input type="date" name="startDate" value={filters.startDate} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary" />
-            </div>
-            <div>
-                <label className="text-xs text-gray-400">End Date</label>
-                <input type="date" name="endDate" value={filters.endDate} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary" />
-            </div>
-            <div>
-                <label className="text-xs text-gray-400">Outcome</label>
-                <select name="outcome" value={filters.outcome} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary">
-                    <option value="all">All</option>
-                    {Object.values(Outcome).map(o => <option key={o} value={o}>{o}</option>)}
-                </select>
-            </div>
-            <div>
-                <label className="text-xs text-gray-400">Type</label>
-                <select name="type" value={filters.type} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary">
-                    <option value="all">All</option>
-                    {Object.values(TradeType).map(t => <option key={t} value={t}>{t}</option>)}
-                </select>
-            </div>
-            <div>
-                <label className="text-xs text-gray-400">Range Size</label>
-                <select name="rangeSize" value={filters.rangeSize} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary">
-                    {rangeOptions.map(opt => <option key={opt.value} value={opt.value}>{opt.label}</option>)}
-                </select>
-            </div>
-            <div>
-                <label className="text-xs text-gray-400">Day of Week</label>
-                <select name="dayOfWeek" value={filters.dayOfWeek} onChange={handleFilterChange} className="w-full bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary">
-                    <option value="all">All</option>
-                    <option value="1">Monday</option>
-                    <option value="2">Tuesday</option>
-                    <option value="3">Wednesday</option>
-                    <option value="4">Thursday</option>
-                    <option value="5">Friday</option>
-                </select>
-            </div>
-            <div className="flex items-end">
-                <button onClick={resetFilters} className="w-full bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md text-sm transition-colors">Reset</button>
-            </div>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold">Trade History</h3>
+          <button onClick={exportFilteredCSV} disabled={filteredAndSortedTrades.length === 0}
+                  className="bg-gray-700 hover:bg-gray-600 text-white py-1 px-3 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Export CSV
+          </button>
         </div>
+        
+        <FilterBuilder
+          trades={trades}
+          tags={tags}
+          query={query}
+          setQuery={setQuery}
+          resetQuery={resetQuery}
+          presets={presets}
+          savePreset={savePreset}
+          deletePreset={deletePreset}
+        />
 
         <div className="overflow-x-auto">
             <table className="min-w-full divide-y divide-gray-700">
@@ -509,21 +814,31 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
                 <tr>
                   {renderSortableHeader('Date', 'date')}
                   {renderSortableHeader('Time', 'activationTime')}
+                  {renderSortableHeader('Instrument', 'instrument')}
+                  {renderSortableHeader('Account', 'account')}
                   {renderSortableHeader('Type', 'type')}
                   {renderSortableHeader('Outcome', 'outcome')}
                   {renderSortableHeader('R/R', 'rr')}
+                  {renderSortableHeader('P&L', 'pnl')}
                   {renderSortableHeader('Range', 'rangeSize')}
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">SL Sweep Notes</th>
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Notes</th>
                   <th scope="col" className="px-4 py-3 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">Images</th>
-                  <th scope="col" className="relative px-4 py-3"><span className="sr-only">Delete</span></th>
+                  <th scope="col" className="relative px-4 py-3"><span className="sr-only">Actions</span></th>
                 </tr>
               </thead>
               <tbody className="bg-gray-800 divide-y divide-gray-700">
                 {filteredAndSortedTrades.map(trade => (
                   <tr key={trade.id}>
-                    <td className="px-4 py-4 whitespace-nowrap text-sm">{new Date(trade.date).toLocaleDateString()}</td>
-                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300">{trade.activationTime || 'N/A'}</td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm">
+                      <a href={routeToHash({ view: 'trade', id: trade.id })} className="hover:text-primary hover:underline">{formatDay(tradeDay(trade, timezone))}</a>
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300">
+                      {tradeClockTime(trade, timezone) ?? 'N/A'}
+                      {trade.activationTime && <span className="block text-xs text-gray-500">{tradeSession(trade, timezone)}</span>}
+                    </td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300">{trade.instrument || 'N/A'}</td>
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300">{trade.account || 'N/A'}</td>
                     <td className="px-4 py-4 whitespace-nowrap text-sm">
                       <span className={`px-2 inline-flex text-xs leading-5 font-semibold rounded-full ${trade.type === 'BUY' ? 'bg-green-900 text-green-300' : trade.type === 'SELL' ? 'bg-red-900 text-red-300' : 'bg-gray-700 text-gray-300'}`}>
                         {trade.type ?? 'N/A'}
@@ -534,8 +849,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
                             {trade.outcome}
                         </span>
                     </td>
-                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300">
-                      {trade.rr ? `${trade.rr.toFixed(2)}R` : (trade.tpSize && trade.slSize && trade.slSize > 0) ? `${(trade.tpSize / trade.slSize).toFixed(2)}R` : 'N/A'}
+                    <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300" title={trade.events?.map(describeEvent).join('\n')}>
+                      {formatR(realizedR(trade))}
+                      {trade.events && trade.events.length > 0 && <span className="ml-1 text-xs text-gray-500">({trade.events.length} events)</span>}
+                    </td>
+                    <td className={`px-4 py-4 whitespace-nowrap text-sm ${trade.pnl == null ? 'text-gray-300' : trade.pnl >= 0 ? 'text-success' : 'text-danger'}`}>
+                      {trade.pnl != null ? formatMoney(trade.pnl, getAccountSettings(trade.account).currency) : 'N/A'}
                     </td>
                     <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-300">
                       {trade.rangeSize != null ? `${trade.rangeSize}p` : 'N/A'}
@@ -545,15 +864,23 @@ export const Dashboard: React.FC<DashboardProps> = ({ trades, deleteTrade }) =>
                     </td>
                     <td className="px-4 py-4 whitespace-nowrap text-sm text-gray-400 max-w-xs truncate" title={trade.notes}>
                         {trade.notes}
+                        {trade.tags && trade.tags.length > 0 && <span className="block text-xs text-gray-500">{trade.tags.join(', ')}</span>}
                     </td>
                     <td className="px-4 py-4 whitespace-nowrap text-sm">
-                      {trade.images && Object.keys(trade.images).length > 0 && (
-                          <button onClick={() => setViewingTrade(trade)} className="text-primary hover:underline text-xs">
-                              View ({Object.keys(trade.images).length})
-                          </button>
+                      {trade.images && trade.images.length > 0 && (
+                          <a href={routeToHash({ view: 'trade', id: trade.id })} className="flex items-center gap-1" title={trade.images.map(image => image.label).join(', ')}>
+                              {trade.images.slice(0, 3).map(image => (
+                                  <img key={image.id} src={image.data} alt={image.label} loading="lazy" className="h-8 w-12 object-cover rounded border border-gray-600 hover:border-primary" />
+                              ))}
+                              {trade.images.length > 3 && <span className="text-xs text-gray-400">+{trade.images.length - 3}</span>}
+                          </a>
                       )}
                     </td>
-                    <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium">
+                    <td className="px-4 py-4 whitespace-nowrap text-right text-sm font-medium space-x-3">
+                      {trade.history && trade.history.length > 0 && (
+                        <button onClick={() => setHistoryTrade(trade)} className="text-gray-400 hover:text-white">History ({trade.history.length})</button>
+                      )}
+                      <button onClick={() => editTrade(trade)} className="text-primary hover:text-green-400">Edit</button>
                       <button onClick={() => deleteTrade(trade.id)} className="text-danger hover:text-red-400">Delete</button>
                     </td>
                   </tr>
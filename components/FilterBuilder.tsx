@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from 'react';
+import { Trade, TagDefinition, Outcome, TradeType, TagCategory } from '../types';
+import { SESSION_ORDER } from '../services/tradeTime';
+import {
+  TradeQuery, FilterGroup, FilterCondition, FilterField, FilterMatch, FilterPreset,
+  FILTER_FIELDS, fieldKind, activeConditionCount,
+} from '../services/tradeFilters';
+
+interface FilterBuilderProps {
+  trades: Trade[];
+  tags: TagDefinition[];
+  query: TradeQuery;
+  setQuery: (query: TradeQuery) => void;
+  resetQuery: () => void;
+  presets: FilterPreset[];
+  savePreset: (name: string) => void;
+  deletePreset: (id: string) => void;
+}
+
+type ChoiceOption = { value: string; label: string };
+
+const DAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const selectClasses = "bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary";
+const inputClasses = `${selectClasses} w-32`;
+
+const distinct = (values: (string | undefined)[]): ChoiceOption[] =>
+  Array.from(new Set(values.filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b)).map(v => ({ value: v, label: v }));
+
+const MatchSelect: React.FC<{ value: FilterMatch; onChange: (match: FilterMatch) => void; noun: string }> = ({ value, onChange, noun }) => (
+    <span className="text-xs text-gray-400">
+        Match{' '}
+        <select value={value} onChange={e => onChange(e.target.value as FilterMatch)} className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-xs text-white">
+            <option value="all">all (AND)</option>
+            <option value="any">any (OR)</option>
+        </select>
+        {' '}of these {noun}
+    </span>
+);
+
+const parseNumber = (value: string) => (value === '' || isNaN(parseFloat(value)) ? undefined : parseFloat(value));
+
+const ConditionEditor: React.FC<{
+    condition: FilterCondition;
+    options: ChoiceOption[];
+    onChange: (condition: FilterCondition) => void;
+}> = ({ condition, options, onChange }) => {
+    switch (fieldKind(condition.field)) {
+        case 'date':
+        case 'time': {
+            const type = fieldKind(condition.field) === 'date' ? 'date' : 'time';
+            return (
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <input type={type} value={condition.from ?? ''} onChange={e => onChange({ ...condition, from: e.target.value || undefined })} className={selectClasses} />
+                    <span>to</span>
+                    <input type={type} value={condition.to ?? ''} onChange={e => onChange({ ...condition, to: e.target.value || undefined })} className={selectClasses} />
+                </div>
+            );
+        }
+        case 'number':
+            return (
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <input type="number" step="any" placeholder="min" value={condition.min ?? ''} onChange={e => onChange({ ...condition, min: parseNumber(e.target.value) })} className={inputClasses} />
+                    <span>to</span>
+                    <input type="number" step="any" placeholder="max" value={condition.max ?? ''} onChange={e => onChange({ ...condition, max: parseNumber(e.target.value) })} className={inputClasses} />
+                </div>
+            );
+        case 'text':
+            return (
+                <input type="text" placeholder="Search notes and sweep notes" value={condition.text ?? ''} onChange={e => onChange({ ...condition, text: e.target.value })}
+                       className={`${selectClasses} flex-grow`} />
+            );
+        case 'boolean':
+            return (
+                <select value={condition.flag === undefined ? '' : String(condition.flag)} onChange={e => onChange({ ...condition, flag: e.target.value === '' ? undefined : e.target.value === 'true' })} className={selectClasses}>
+                    <option value="">Either</option>
+                    <option value="true">Yes</option>
+                    <option value="false">No</option>
+                </select>
+            );
+        case 'choice': {
+            const selected = condition.values ?? [];
+            const toggle = (value: string) =>
+                onChange({ ...condition, values: selected.includes(value) ? selected.filter(v => v !== value) : [...selected, value] });
+            if (options.length === 0) return <span className="text-xs text-gray-500">No values in your journal yet.</span>;
+            return (
+                <div className="flex flex-wrap gap-1">
+                    {options.map(option => (
+                        <button key={option.value} type="button" onClick={() => toggle(option.value)}
+                                className={`px-2 py-1 rounded-full text-xs transition-colors ${selected.includes(option.value) ? 'bg-primary text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}>
+                            {option.label}
+                        </button>
+                    ))}
+                </div>
+            );
+        }
+    }
+};
+
+export const FilterBuilder: React.FC<FilterBuilderProps> = ({ trades, tags, query, setQuery, resetQuery, presets, savePreset, deletePreset }) => {
+  const [presetName, setPresetName] = useState('');
+
+  const choiceOptions = useMemo((): Partial<Record<FilterField, ChoiceOption[]>> => ({
+    dayOfWeek: [1, 2, 3, 4, 5, 6, 0].map(d => ({ value: d.toString(), label: DAYS[d] })),
+    session: SESSION_ORDER.map(s => ({ value: s, label: s })),
+    outcome: Object.values(Outcome).map(o => ({ value: o, label: o })),
+    type: Object.values(TradeType).map(t => ({ value: t, label: t })),
+    instrument: distinct(trades.map(t => t.instrument)),
+    account: distinct(trades.map(t => t.account)),
+    setup: distinct(trades.map(t => t.setup)),
+    tag: tags.map(t => ({ value: t.name, label: t.name })),
+    tagCategory: Object.values(TagCategory).map(c => ({ value: c, label: c })),
+  }), [trades, tags]);
+
+  const updateGroup = (index: number, group: FilterGroup) =>
+    setQuery({ ...query, groups: query.groups.map((g, i) => (i === index ? group : g)) });
+
+  const removeGroup = (index: number) => {
+    const groups = query.groups.filter((_, i) => i !== index);
+    setQuery({ ...query, groups: groups.length > 0 ? groups : [{ match: 'all', conditions: [] }] });
+  };
+
+  const addCondition = (index: number) => {
+    const group = query.groups[index];
+    updateGroup(index, { ...group, conditions: [...group.conditions, { field: 'outcome' }] });
+  };
+
+  const updateCondition = (groupIndex: number, conditionIndex: number, condition: FilterCondition) => {
+    const group = query.groups[groupIndex];
+    updateGroup(groupIndex, { ...group, conditions: group.conditions.map((c, i) => (i === conditionIndex ? condition : c)) });
+  };
+
+  const removeCondition = (groupIndex: number, conditionIndex: number) => {
+    const group = query.groups[groupIndex];
+    updateGroup(groupIndex, { ...group, conditions: group.conditions.filter((_, i) => i !== conditionIndex) });
+  };
+
+  const handleSavePreset = () => {
+    if (!presetName.trim()) return;
+    savePreset(presetName.trim());
+    setPresetName('');
+  };
+
+  const applyPreset = (id: string) => {
+    const preset = presets.find(p => p.id === id);
+    if (preset) setQuery(preset.query);
+  };
+
+  const activeCount = activeConditionCount(query);
+
+  return (
+    <div className="mb-6 p-4 bg-gray-900/50 rounded-lg space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        {query.groups.length > 1
+          ? <MatchSelect value={query.match} onChange={match => setQuery({ ...query, match })} noun="groups" />
+          : <span className="text-xs text-gray-400">{activeCount === 0 ? 'No filters applied' : `${activeCount} filter${activeCount === 1 ? '' : 's'} applied`}</span>}
+        <div className="flex flex-wrap items-center gap-2">
+          {presets.length > 0 && (
+            <>
+              <select value="" onChange={e => applyPreset(e.target.value)} className={selectClasses}>
+                <option value="">Load preset...</option>
+                {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+              <select value="" onChange={e => e.target.value && deletePreset(e.target.value)} className={selectClasses}>
+                <option value="">Delete preset...</option>
+                {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+              </select>
+            </>
+          )}
+          <input type="text" value={presetName} onChange={e => setPresetName(e.target.value)} placeholder="Preset name"
+                 onKeyDown={e => e.key === 'Enter' && handleSavePreset()} className={inputClasses} />
+          <button onClick={handleSavePreset} disabled={!presetName.trim()}
+                  className="bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            Save
+          </button>
+          <button onClick={resetQuery} className="bg-gray-600 hover:bg-gray-500 text-white font-bold py-2 px-4 rounded-md text-sm transition-colors">Reset</button>
+        </div>
+      </div>
+
+      {query.groups.map((group, groupIndex) => (
+        <div key={groupIndex} className="border border-gray-700 rounded-md p-3 space-y-2">
+          {groupIndex > 0 && <p className="text-xs font-bold text-primary uppercase">{query.match === 'all' ? 'and' : 'or'}</p>}
+          <div className="flex items-center justify-between">
+            <MatchSelect value={group.match} onChange={match => updateGroup(groupIndex, { ...group, match })} noun="conditions" />
+            {query.groups.length > 1 && (
+              <button onClick={() => removeGroup(groupIndex)} className="text-xs text-gray-400 hover:text-red-400">Remove group</button>
+            )}
+          </div>
+          {group.conditions.map((condition, conditionIndex) => (
+            <div key={conditionIndex} className="flex flex-wrap items-center gap-2">
+              <select value={condition.field} onChange={e => updateCondition(groupIndex, conditionIndex, { field: e.target.value as FilterField })} className={selectClasses}>
+                {FILTER_FIELDS.map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+              </select>
+              <ConditionEditor
+                condition={condition}
+                options={choiceOptions[condition.field] ?? []}
+                onChange={updated => updateCondition(groupIndex, conditionIndex, updated)}
+              />
+              <button onClick={() => removeCondition(groupIndex, conditionIndex)} className="text-gray-400 hover:text-red-400 text-lg font-bold">&times;</button>
+            </div>
+          ))}
+          <button onClick={() => addCondition(groupIndex)} className="text-sm text-primary hover:underline">+ Add condition</button>
+        </div>
+      ))}
+      <button onClick={() => setQuery({ ...query, groups: [...query.groups, { match: 'all', conditions: [] }] })} className="text-sm text-gray-300 hover:underline">
+        + Add group
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useMemo, useState } from 'react';
+import { Trade, Outcome, JournalTimezone } from '../types';
+import { realizedR, formatR } from '../services/tradeMath';
+import { tradeDay, tradeSortTime, formatDay } from '../services/tradeTime';
+import { routeToHash } from '../services/routes';
+
+interface GalleryProps {
+  trades: Trade[];
+  timezone: JournalTimezone;
+}
+
+const ALL = 'all';
+
+const OUTCOME_CLASSES: Record<Outcome, string> = {
+  [Outcome.TP]: 'bg-success',
+  [Outcome.SL]: 'bg-danger',
+  [Outcome.BE]: 'bg-warning',
+  [Outcome.NO_TRADE]: 'bg-gray-500',
+};
+
+const Chip: React.FC<{ active: boolean; onClick: () => void; children: React.ReactNode }> = ({ active, onClick, children }) => (
+    <button
+        onClick={onClick}
+        className={`px-3 py-1 rounded-full text-xs font-medium transition-colors ${active ? 'bg-primary text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+    >
+        {children}
+    </button>
+);
+
+// Every screenshot in the journal, newest trade first, narrowed down by outcome and label.
+export const Gallery: React.FC<GalleryProps> = ({ trades, timezone }) => {
+  const [outcome, setOutcome] = useState<Outcome | typeof ALL>(ALL);
+  const [label, setLabel] = useState<string>(ALL);
+
+  const entries = useMemo(() =>
+    [...trades]
+      .filter(trade => trade.images && trade.images.length > 0)
+      .sort((a, b) => tradeSortTime(b, timezone) - tradeSortTime(a, timezone))
+      .flatMap(trade => trade.images!.map(image => ({ trade, image }))),
+    [trades, timezone]);
+
+  const labels = useMemo(() => [...new Set(entries.map(entry => entry.image.label))].sort(), [entries]);
+  const outcomes = useMemo(() => Object.values(Outcome).filter(o => entries.some(entry => entry.trade.outcome === o)), [entries]);
+
+  const visible = entries.filter(({ trade, image }) =>
+    (outcome === ALL || trade.outcome === outcome) && (label === ALL || image.label === label));
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-4">Screenshot Gallery</h2>
+        <div className="flex flex-wrap items-center gap-4">
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-xs text-gray-400">Outcome</span>
+            <Chip active={outcome === ALL} onClick={() => setOutcome(ALL)}>All</Chip>
+            {outcomes.map(o => <Chip key={o} active={outcome === o} onClick={() => setOutcome(o)}>{o}</Chip>)}
+          </div>
+          {labels.length > 1 && (
+            <label className="flex items-center gap-2 text-xs text-gray-400">
+              <span>Label</span>
+              <select
+                value={label}
+                onChange={e => setLabel(e.target.value)}
+                className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary"
+              >
+                <option value={ALL}>All</option>
+                {labels.map(l => <option key={l} value={l}>{l}</option>)}
+              </select>
+            </label>
+          )}
+          <span className="text-xs text-gray-500 ml-auto">{visible.length} of {entries.length} images</span>
+        </div>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="text-center text-gray-500 py-16">
+          {entries.length === 0 ? 'No screenshots yet. Attach them when logging or editing a trade.' : 'No screenshots match these filters.'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+          {visible.map(({ trade, image }) => (
+            <a
+              key={`${trade.id}-${image.id}`}
+              href={routeToHash({ view: 'trade', id: trade.id })}
+              className="group bg-gray-800 rounded-lg border border-gray-700 hover:border-primary overflow-hidden transition-colors"
+            >
+              <div className="relative">
+                <img src={image.data} alt={image.label} loading="lazy" className="h-40 w-full object-cover" />
+                <span className={`absolute top-2 left-2 px-2 py-0.5 rounded text-xs font-bold text-white ${OUTCOME_CLASSES[trade.outcome]}`}>
+                  {trade.outcome}
+                </span>
+              </div>
+              <div className="p-3 text-xs">
+                <p className="font-semibold text-gray-200 truncate group-hover:text-primary">{image.label}</p>
+                <p className="text-gray-400 truncate">
+                  {formatDay(tradeDay(trade, timezone))} · {trade.instrument || 'N/A'} · {formatR(realizedR(trade))}
+                </p>
+              </div>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,21 +1,47 @@
 import React from 'react';
-
-type View = 'dashboard' | 'add_trade' | 'ai_analyzer';
+import { ALL, TradeScope } from '../hooks/useTradeScope';
+import { RuleStatus } from '../services/riskRules';
+import { Route, View, routeToHash } from '../services/routes';
 
 interface HeaderProps {
   currentView: View;
-  setCurrentView: (view: View) => void;
+  scope: TradeScope;
+  setScope: (scope: TradeScope) => void;
+  accounts: string[];
+  instruments: string[];
+  ruleAlerts: RuleStatus[];
 }
 
+const ScopeSelect: React.FC<{
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+}> = ({ label, value, options, onChange }) => (
+  <label className="flex items-center space-x-1 text-xs text-gray-400">
+    <span>{label}</span>
+    <select
+      value={value}
+      onChange={e => onChange(e.target.value)}
+      className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary"
+    >
+      <option value={ALL}>All</option>
+      {/* Keep a remembered selection visible even if no trade uses it any more. */}
+      {value !== ALL && !options.includes(value) && <option value={value}>{value}</option>}
+      {options.map(o => <option key={o} value={o}>{o}</option>)}
+    </select>
+  </label>
+);
+
 const NavLink: React.FC<{
   label: string;
   isActive: boolean;
-  onClick: () => void;
+  to: Route;
   // Fix: Replaced JSX.Element with React.ReactElement to resolve "Cannot find namespace 'JSX'" error.
   icon: React.ReactElement;
-}> = ({ label, isActive, onClick, icon }) => (
-  <button
-    onClick={onClick}
+}> = ({ label, isActive, to, icon }) => (
+  <a
+    href={routeToHash(to)}
     className={`flex items-center space-x-2 px-3 py-2 rounded-md text-sm font-medium transition-colors duration-200 ${
       isActive
         ? 'bg-primary text-white'
@@ -24,7 +50,7 @@ const NavLink: React.FC<{
   >
     {icon}
     <span>{label}</span>
-  </button>
+  </a>
 );
 
 const ChartBarIcon = () => (
@@ -45,36 +71,124 @@ const SparklesIcon = () => (
     </svg>
 );
 
-export const Header: React.FC<HeaderProps> = ({ currentView, setCurrentView }) => {
+const DocumentReportIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 17v-2m3 2v-4m3 4v-6m2 10H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
+    </svg>
+);
+
+const PhotographIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
+    </svg>
+);
+
+const ClipboardCheckIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2m-6 9l2 2 4-4" />
+    </svg>
+);
+
+const ArrowsUpDownIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16V4m0 0L3 8m4-4l4 4m6 0v12m0 0l4-4m-4 4l-4-4" />
+    </svg>
+);
+
+const CogIcon = () => (
+    <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z" />
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 12a3 3 0 11-6 0 3 3 0 016 0z" />
+    </svg>
+);
+
+const ALERT_ORDER = ['breached', 'reached', 'met'];
+
+const ALERT_STYLES = {
+  breached: 'bg-red-900/60 text-red-200',
+  reached: 'bg-yellow-900/60 text-yellow-200',
+  met: 'bg-green-900/60 text-green-200',
+};
+
+// One line per rule that needs attention today; limits come first so they aren't missed.
+const RuleAlertBanner: React.FC<{ alerts: RuleStatus[] }> = ({ alerts }) => (
+  <div role="status">
+    {[...alerts].sort((a, b) => ALERT_ORDER.indexOf(a.state) - ALERT_ORDER.indexOf(b.state)).map(alert => (
+      <div key={alert.rule} className={`px-4 py-2 text-sm text-center ${ALERT_STYLES[alert.state as keyof typeof ALERT_STYLES]}`}>
+        <span className="font-semibold">{alert.label}: {alert.current} / {alert.limit}.</span>{' '}
+        {alert.state === 'breached' && 'You traded past this limit today.'}
+        {alert.state === 'reached' && 'Limit reached, stop trading for today.'}
+        {alert.state === 'met' && 'Weekly target reached.'}
+      </div>
+    ))}
+  </div>
+);
+
+export const Header: React.FC<HeaderProps> = ({ currentView, scope, setScope, accounts, instruments, ruleAlerts }) => {
   return (
-    <header className="bg-gray-800 shadow-lg">
+    <header className="bg-gray-800 shadow-lg print:hidden">
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-        <div className="flex items-center justify-between h-16">
+        <div className="flex flex-wrap items-center justify-between gap-2 py-3 min-h-16">
           <div className="flex items-center">
             <h1 className="text-xl font-bold text-primary">MLASSA Trading Tracker v3</h1>
           </div>
+          <div className="flex items-center space-x-3">
+            <ScopeSelect label="Account" value={scope.account} options={accounts} onChange={account => setScope({ ...scope, account })} />
+            <ScopeSelect label="Instrument" value={scope.instrument} options={instruments} onChange={instrument => setScope({ ...scope, instrument })} />
+          </div>
           <nav className="flex space-x-2 md:space-x-4">
             <NavLink
               label="Dashboard"
               icon={<ChartBarIcon />}
-              isActive={currentView === 'dashboard'}
-              onClick={() => setCurrentView('dashboard')}
+              isActive={currentView === 'dashboard' || currentView === 'trade'}
+              to={{ view: 'dashboard' }}
             />
             <NavLink
               label="Add Trade"
               icon={<PlusCircleIcon />}
               isActive={currentView === 'add_trade'}
-              onClick={() => setCurrentView('add_trade')}
+              to={{ view: 'add_trade' }}
             />
             <NavLink
               label="AI Analyzer"
               icon={<SparklesIcon />}
               isActive={currentView === 'ai_analyzer'}
-              onClick={() => setCurrentView('ai_analyzer')}
+              to={{ view: 'ai_analyzer', tab: 'chat' }}
+            />
+            <NavLink
+              label="Reports"
+              icon={<DocumentReportIcon />}
+              isActive={currentView === 'reports'}
+              to={{ view: 'reports' }}
+            />
+            <NavLink
+              label="Gallery"
+              icon={<PhotographIcon />}
+              isActive={currentView === 'gallery'}
+              to={{ view: 'gallery' }}
+            />
+            <NavLink
+              label="Playbooks"
+              icon={<ClipboardCheckIcon />}
+              isActive={currentView === 'playbooks'}
+              to={{ view: 'playbooks' }}
+            />
+            <NavLink
+              label="Import/Export"
+              icon={<ArrowsUpDownIcon />}
+              isActive={currentView === 'data'}
+              to={{ view: 'data' }}
+            />
+            <NavLink
+              label="Settings"
+              icon={<CogIcon />}
+              isActive={currentView === 'settings'}
+              to={{ view: 'settings' }}
             />
           </nav>
         </div>
       </div>
+      {ruleAlerts.length > 0 && <RuleAlertBanner alerts={ruleAlerts} />}
     </header>
   );
 };
\ No newline at end of file
@@ -0,0 +1,272 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Annotation, AnnotationKind } from '../types';
+
+interface ImageAnnotatorProps {
+  src: string;
+  alt: string;
+  annotations: Annotation[];
+  onSave: (annotations: Annotation[]) => void;
+}
+
+type Tool = 'pan' | AnnotationKind;
+
+const TOOLS: { value: Tool; label: string }[] = [
+  { value: 'pan', label: 'Pan' },
+  { value: AnnotationKind.ENTRY, label: 'Entry' },
+  { value: AnnotationKind.SL, label: 'SL' },
+  { value: AnnotationKind.TP, label: 'TP' },
+  { value: AnnotationKind.ARROW, label: 'Arrow' },
+  { value: AnnotationKind.TEXT, label: 'Text' },
+];
+
+const ANNOTATION_STYLES: Record<AnnotationKind, { label: string; color: string }> = {
+  [AnnotationKind.ENTRY]: { label: 'Entry', color: '#3b82f6' },
+  [AnnotationKind.SL]: { label: 'SL', color: '#ef4444' },
+  [AnnotationKind.TP]: { label: 'TP', color: '#22c55e' },
+  [AnnotationKind.ARROW]: { label: 'Arrow', color: '#f59e0b' },
+  [AnnotationKind.TEXT]: { label: 'Text', color: '#ffffff' },
+};
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 8;
+const INITIAL_VIEW = { scale: 1, x: 0, y: 0 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Draws one annotation in image pixels; sizes are relative to the image width so they read the
+// same on small and large screenshots.
+const AnnotationShape: React.FC<{ annotation: Annotation; width: number; height: number }> = ({ annotation, width, height }) => {
+  const { color, label } = ANNOTATION_STYLES[annotation.kind];
+  const stroke = Math.max(1, width * 0.003);
+  const fontSize = Math.max(10, width * 0.018);
+  const textProps = { fill: color, fontSize, fontWeight: 600, stroke: '#000', strokeWidth: stroke, paintOrder: 'stroke' as const };
+
+  if (annotation.kind === AnnotationKind.ARROW) {
+    const x1 = annotation.x * width, y1 = annotation.y * height;
+    const x2 = (annotation.x2 ?? annotation.x) * width, y2 = (annotation.y2 ?? annotation.y) * height;
+    const angle = Math.atan2(y2 - y1, x2 - x1);
+    const head = width * 0.015;
+    const points = [
+      [x2, y2],
+      [x2 - head * Math.cos(angle - Math.PI / 6), y2 - head * Math.sin(angle - Math.PI / 6)],
+      [x2 - head * Math.cos(angle + Math.PI / 6), y2 - head * Math.sin(angle + Math.PI / 6)],
+    ].map(point => point.join(',')).join(' ');
+    return (
+      <g>
+        <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={color} strokeWidth={stroke * 1.5} />
+        <polygon points={points} fill={color} />
+        {annotation.text && <text x={x1} y={y1 - fontSize * 0.4} {...textProps}>{annotation.text}</text>}
+      </g>
+    );
+  }
+
+  if (annotation.kind === AnnotationKind.TEXT) {
+    return <text x={annotation.x * width} y={annotation.y * height} {...textProps}>{annotation.text}</text>;
+  }
+
+  const y = annotation.y * height;
+  return (
+    <g>
+      <line x1={0} y1={y} x2={width} y2={y} stroke={color} strokeWidth={stroke} strokeDasharray={annotation.kind === AnnotationKind.ENTRY ? undefined : `${stroke * 6} ${stroke * 3}`} />
+      <text x={width * 0.01} y={y - fontSize * 0.4} {...textProps}>
+        {annotation.text ? `${label} · ${annotation.text}` : label}
+      </text>
+    </g>
+  );
+};
+
+// A screenshot with zoom (wheel or buttons), drag to pan, and a drawing layer. The drawing is
+// kept as data next to the original image, which is never modified.
+export const ImageAnnotator: React.FC<ImageAnnotatorProps> = ({ src, alt, annotations, onSave }) => {
+  const [view, setView] = useState(INITIAL_VIEW);
+  const [tool, setTool] = useState<Tool>('pan');
+  const [draft, setDraft] = useState<Annotation[]>(annotations);
+  const [pendingArrow, setPendingArrow] = useState<Annotation | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isPanning, setIsPanning] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const panStart = useRef<{ pointerX: number; pointerY: number; x: number; y: number } | null>(null);
+
+  const savedKey = JSON.stringify(annotations);
+  const isDirty = JSON.stringify(draft) !== savedKey;
+
+  // Start over when switching screenshots, and pick up the saved layer after saving.
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+    setPendingArrow(null);
+  }, [src]);
+
+  useEffect(() => {
+    setDraft(JSON.parse(savedKey));
+  }, [src, savedKey]);
+
+  // Zooms towards the given point in the container, so whatever is under the cursor stays put.
+  const zoomAt = (factor: number, pointX: number, pointY: number) => {
+    setView(prev => {
+      const scale = clamp(prev.scale * factor, MIN_SCALE, MAX_SCALE);
+      if (scale === MIN_SCALE) return INITIAL_VIEW;
+      const ratio = scale / prev.scale;
+      return { scale, x: pointX - (pointX - prev.x) * ratio, y: pointY - (pointY - prev.y) * ratio };
+    });
+  };
+
+  const zoomCentre = (factor: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    zoomAt(factor, container.clientWidth / 2, container.clientHeight / 2);
+  };
+
+  // React's wheel listener is passive, so the page would scroll as well; attach one that isn't.
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = container.getBoundingClientRect();
+      zoomAt(e.deltaY < 0 ? 1.2 : 1 / 1.2, e.clientX - rect.left, e.clientY - rect.top);
+    };
+    container.addEventListener('wheel', handleWheel, { passive: false });
+    return () => container.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Pointer position as a fraction of the image, whatever the zoom.
+  const imagePoint = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return {
+      x: clamp((e.clientX - rect.left) / rect.width, 0, 1),
+      y: clamp((e.clientY - rect.top) / rect.height, 0, 1),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0 || !imageRef.current) return;
+    if (tool === 'pan') {
+      if (view.scale === MIN_SCALE) return;
+      panStart.current = { pointerX: e.clientX, pointerY: e.clientY, x: view.x, y: view.y };
+      setIsPanning(true);
+      e.currentTarget.setPointerCapture(e.pointerId);
+      return;
+    }
+    const point = imagePoint(e);
+    if (tool === AnnotationKind.ARROW) {
+      setPendingArrow({ kind: AnnotationKind.ARROW, x: point.x, y: point.y, x2: point.x, y2: point.y });
+      e.currentTarget.setPointerCapture(e.pointerId);
+    } else if (tool === AnnotationKind.TEXT) {
+      const text = window.prompt("Text to place on the image:")?.trim();
+      if (text) setDraft(prev => [...prev, { kind: AnnotationKind.TEXT, x: point.x, y: point.y, text }]);
+    } else {
+      setDraft(prev => [...prev, { kind: tool, x: 0, y: point.y }]);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const start = panStart.current;
+    if (start) {
+      setView(prev => ({ ...prev, x: start.x + e.clientX - start.pointerX, y: start.y + e.clientY - start.pointerY }));
+    } else if (pendingArrow) {
+      const point = imagePoint(e);
+      setPendingArrow({ ...pendingArrow, x2: point.x, y2: point.y });
+    }
+  };
+
+  const handlePointerUp = () => {
+    if (panStart.current) {
+      panStart.current = null;
+      setIsPanning(false);
+    }
+    if (pendingArrow) {
+      // A click without a drag would leave an invisible arrow.
+      if (Math.hypot(pendingArrow.x2! - pendingArrow.x, pendingArrow.y2! - pendingArrow.y) > 0.01) {
+        setDraft(prev => [...prev, pendingArrow]);
+      }
+      setPendingArrow(null);
+    }
+  };
+
+  const removeAnnotation = (index: number) => setDraft(prev => prev.filter((_, i) => i !== index));
+
+  const cursorClass = tool !== 'pan' ? 'cursor-crosshair' : view.scale === MIN_SCALE ? 'cursor-default' : isPanning ? 'cursor-grabbing' : 'cursor-grab';
+  const shapes = pendingArrow ? [...draft, pendingArrow] : draft;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex flex-wrap gap-1">
+          {TOOLS.map(option => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setTool(option.value)}
+              className={`px-3 py-1 rounded-md text-xs font-medium transition-colors ${tool === option.value ? 'bg-primary text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-1 text-xs">
+          <button type="button" onClick={() => zoomCentre(1 / 1.5)} disabled={view.scale === MIN_SCALE} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">−</button>
+          <span className="w-12 text-center text-gray-400">{Math.round(view.scale * 100)}%</span>
+          <button type="button" onClick={() => zoomCentre(1.5)} disabled={view.scale === MAX_SCALE} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600 disabled:opacity-50">+</button>
+          <button type="button" onClick={() => setView(INITIAL_VIEW)} className="px-2 py-1 rounded-md bg-gray-700 hover:bg-gray-600">Fit</button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        className={`relative overflow-hidden bg-gray-900 rounded-md max-h-[75vh] touch-none select-none ${cursorClass}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+      >
+        <div className="relative origin-top-left" style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})` }}>
+          <img
+            ref={imageRef}
+            src={src}
+            alt={alt}
+            draggable={false}
+            onLoad={e => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            className="block w-full h-auto"
+          />
+          {size && (
+            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox={`0 0 ${size.width} ${size.height}`} preserveAspectRatio="none">
+              {shapes.map((annotation, index) => (
+                <AnnotationShape key={index} annotation={annotation} width={size.width} height={size.height} />
+              ))}
+            </svg>
+          )}
+        </div>
+      </div>
+      <p className="text-xs text-gray-500">Scroll to zoom. {tool === 'pan' ? 'Drag to move around when zoomed in.' : tool === AnnotationKind.ARROW ? 'Drag from the tail to the head.' : tool === AnnotationKind.TEXT ? 'Click where the text should go.' : 'Click at the price level.'}</p>
+
+      {(draft.length > 0 || isDirty) && (
+        <div className="bg-gray-900/50 rounded-md p-3">
+          <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+            <h4 className="text-sm font-semibold text-gray-300">Annotations ({draft.length})</h4>
+            <div className="flex gap-2">
+              {draft.length > 0 && (
+                <button type="button" onClick={() => setDraft([])} className="text-xs text-gray-400 hover:text-red-400">Clear</button>
+              )}
+              {isDirty && (
+                <>
+                  <button type="button" onClick={() => setDraft(annotations)} className="px-3 py-1 rounded-md text-xs bg-gray-700 hover:bg-gray-600">Discard</button>
+                  <button type="button" onClick={() => onSave(draft)} className="px-3 py-1 rounded-md text-xs bg-primary hover:bg-green-600 text-white font-medium">Save annotations</button>
+                </>
+              )}
+            </div>
+          </div>
+          <ul className="flex flex-wrap gap-2">
+            {draft.map((annotation, index) => (
+              <li key={index} className="flex items-center gap-1 bg-gray-700 rounded-full pl-3 pr-1 py-0.5 text-xs">
+                <span style={{ color: ANNOTATION_STYLES[annotation.kind].color }}>●</span>
+                <span className="text-gray-200">{annotation.kind === AnnotationKind.TEXT ? `"${annotation.text}"` : ANNOTATION_STYLES[annotation.kind].label}</span>
+                <button type="button" onClick={() => removeAnnotation(index)} className="text-gray-400 hover:text-white px-1" aria-label="Remove annotation">&times;</button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
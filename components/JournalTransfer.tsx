@@ -0,0 +1,160 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Trade, JournalTimezone } from '../types';
+import {
+  createJournalBundle,
+  downloadFile,
+  parseJournalImport,
+  ImportMode,
+  ImportResult,
+  JournalSettings,
+} from '../services/journalTransfer';
+import { MetaTraderImport } from './MetaTraderImport';
+
+interface JournalTransferProps {
+  trades: Trade[];
+  importTrades: (trades: Trade[], mode: ImportMode) => { added: number; duplicates: Trade[] };
+  addTrades: (trades: Omit<Trade, 'id'>[]) => void;
+  settings: JournalSettings;
+  importSettings: (settings: JournalSettings, mode: ImportMode) => void;
+  timezone: JournalTimezone;
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// e.g. "2 setups, 5 tags and the risk rules"
+const describeSettings = (settings: JournalSettings): string | null => {
+  const parts = [
+    settings.setups.length > 0 && plural(settings.setups.length, 'setup'),
+    settings.tags.length > 0 && plural(settings.tags.length, 'tag'),
+    settings.filterPresets.length > 0 && plural(settings.filterPresets.length, 'filter preset'),
+    settings.riskRules && 'the risk rules',
+  ].filter((part): part is string => !!part);
+  if (parts.length === 0) return null;
+  return parts.length === 1 ? parts[0] : `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`;
+};
+
+export const JournalTransfer: React.FC<JournalTransferProps> = ({ trades, importTrades, addTrades, settings, importSettings, timezone }) => {
+  const [includeImages, setIncludeImages] = useState(true);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [importResult, setImportResult] = useState<ImportResult | null>(null);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [summary, setSummary] = useState<string | null>(null);
+
+  const existingIds = new Set(trades.map(t => t.id));
+  const duplicateCount = importResult ? importResult.trades.filter(t => existingIds.has(t.id)).length : 0;
+  const importedSettings = importResult?.settings ? describeSettings(importResult.settings) : null;
+
+  const handleExport = () => {
+    const bundle = createJournalBundle(trades, includeImages, settings);
+    const stamp = new Date().toISOString().split('T')[0];
+    downloadFile(`trading-journal-${stamp}.json`, JSON.stringify(bundle, null, 2), 'application/json');
+  };
+
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    setSummary(null);
+    setFileName(file.name);
+    const reader = new FileReader();
+    reader.onload = () => setImportResult(parseJournalImport(reader.result as string, timezone));
+    reader.onerror = () => setImportResult({ trades: [], errors: [{ row: 0, message: 'The file could not be read.' }] });
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleImport = () => {
+    if (!importResult || (importResult.trades.length === 0 && !importedSettings)) return;
+    if (mode === 'replace' && !window.confirm(
+      `This will delete all ${trades.length} trades currently in your journal` +
+      (importedSettings ? ' and replace your setups, tags, risk rules and filter presets with the ones in the file' : '') + '. Continue?'
+    )) {
+      return;
+    }
+    const { added, duplicates } = importTrades(importResult.trades, mode);
+    if (importResult.settings && importedSettings) importSettings(importResult.settings, mode);
+    setSummary(
+      `Imported ${added} trade${added === 1 ? '' : 's'}` +
+      (duplicates.length > 0 ? `, skipped ${duplicates.length} already in your journal` : '') +
+      (importedSettings ? `, with ${importedSettings}.` : '.')
+    );
+    setImportResult(null);
+    setFileName(null);
+  };
+
+  const cardClasses = "bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700";
+  const buttonClasses = "inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed";
+
+  return (
+    <div className="max-w-3xl mx-auto space-y-8">
+      <div className={cardClasses}>
+        <h2 className="text-2xl font-bold text-primary mb-2">Export Journal</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Download every trade, with your setups, tags, risk rules and filter presets, as a versioned JSON file that can be imported again later. To export the trade table as CSV, use the button on the dashboard; it respects the active filters.
+        </p>
+        <label className="flex items-center space-x-2 text-sm text-gray-300 mb-4 cursor-pointer">
+          <input type="checkbox" checked={includeImages} onChange={e => setIncludeImages(e.target.checked)}
+                 className="h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary" />
+          <span>Embed images (larger file)</span>
+        </label>
+        <button onClick={handleExport} disabled={trades.length === 0} className={buttonClasses}>
+          Export {trades.length} Trades
+        </button>
+      </div>
+
+      <div className={cardClasses}>
+        <h2 className="text-2xl font-bold text-primary mb-2">Import Journal</h2>
+        <p className="text-sm text-gray-400 mb-4">Load a JSON file exported from this app. Every record is checked before anything is saved.</p>
+        <label htmlFor="journal-import" className="inline-flex cursor-pointer py-2 px-4 rounded-md text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white transition-colors">
+          Choose File
+          <input id="journal-import" type="file" accept="application/json,.json" onChange={handleFileChange} className="sr-only" />
+        </label>
+        {fileName && <span className="ml-3 text-sm text-gray-400">{fileName}</span>}
+
+        {summary && <p className="mt-4 text-sm text-success">{summary}</p>}
+
+        {importResult && (
+          <div className="mt-6 space-y-4">
+            <p className="text-sm text-gray-300">
+              {importResult.trades.length} valid trade{importResult.trades.length === 1 ? '' : 's'} found
+              {duplicateCount > 0 && `, ${duplicateCount} already in your journal`}
+              {importResult.errors.length > 0 && `, ${importResult.errors.length} rejected`}.
+              {importedSettings && ` The file also has ${importedSettings}.`}
+            </p>
+
+            {importResult.errors.length > 0 && (
+              <div className="max-h-48 overflow-y-auto bg-gray-900/50 rounded-md p-3">
+                <ul className="space-y-1 text-xs text-red-300">
+                  {importResult.errors.map((err, index) => (
+                    <li key={index}>
+                      {err.row > 0 ? `Row ${err.row}` : 'File'}{err.id ? ` (id ${err.id})` : ''}: {err.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {(importResult.trades.length > 0 || importedSettings) && (
+              <>
+                <div className="flex items-center space-x-6 text-sm">
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input type="radio" name="importMode" checked={mode === 'merge'} onChange={() => setMode('merge')}
+                           className="h-4 w-4 text-primary bg-gray-700 border-gray-600 focus:ring-primary" />
+                    <span>Merge (skip trades and settings already in the journal)</span>
+                  </label>
+                  <label className="flex items-center space-x-2 cursor-pointer">
+                    <input type="radio" name="importMode" checked={mode === 'replace'} onChange={() => setMode('replace')}
+                           className="h-4 w-4 text-red-500 bg-gray-700 border-gray-600 focus:ring-red-500" />
+                    <span className="text-red-300">Replace the whole journal</span>
+                  </label>
+                </div>
+                <button onClick={handleImport} className={buttonClasses}>Import</button>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+
+      <MetaTraderImport trades={trades} addTrades={addTrades} timezone={timezone} />
+    </div>
+  );
+};
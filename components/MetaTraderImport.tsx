@@ -0,0 +1,160 @@
+import React, { useState, ChangeEvent } from 'react';
+import { Trade, Outcome, JournalTimezone } from '../types';
+import { parseMetaTraderStatement, findMatchingTrades, importedTickets, StatementTrade } from '../services/metatraderImport';
+import { realizedR, formatR } from '../services/tradeMath';
+
+interface MetaTraderImportProps {
+  trades: Trade[];
+  addTrades: (trades: Omit<Trade, 'id'>[]) => void;
+  timezone: JournalTimezone;
+}
+
+interface PreviewRow {
+  statementTrade: StatementTrade;
+  matches: Trade[];
+  selected: boolean;
+}
+
+// MT4/MT5 write HTML statements as UTF-16 with a byte order mark; CSV exports are usually UTF-8.
+const decodeStatement = (buffer: ArrayBuffer): string => {
+  const bytes = new Uint8Array(buffer);
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(buffer);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(buffer);
+  return new TextDecoder('utf-8').decode(buffer);
+};
+
+export const MetaTraderImport: React.FC<MetaTraderImportProps> = ({ trades, addTrades, timezone }) => {
+  const [rows, setRows] = useState<PreviewRow[] | null>(null);
+  const [message, setMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+  const handleFileChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setMessage(null);
+    const result = parseMetaTraderStatement(decodeStatement(await file.arrayBuffer()), file.name);
+    if (result.error) {
+      setRows(null);
+      setMessage({ text: result.error, isError: true });
+      return;
+    }
+    // Positions already in the journal, e.g. from importing the same statement before, are left out.
+    const known = importedTickets(trades);
+    const fresh = result.trades.filter(st => !st.ticket || !known.has(st.ticket));
+    const alreadyImported = result.trades.length - fresh.length;
+    const notes = [
+      result.skippedRows > 0 && `${result.skippedRows} open or incomplete position${result.skippedRows === 1 ? ' was' : 's were'} skipped.`,
+      alreadyImported > 0 && `${alreadyImported} position${alreadyImported === 1 ? ' is' : 's are'} already in your journal and ${alreadyImported === 1 ? 'was' : 'were'} left out.`,
+    ].filter(Boolean);
+    if (notes.length > 0) {
+      setMessage({ text: notes.join(' '), isError: false });
+    }
+    setRows(fresh.map(statementTrade => {
+      const matches = findMatchingTrades(statementTrade, trades, timezone);
+      // Positions that look like they are already in the journal start unselected.
+      return { statementTrade, matches, selected: matches.length === 0 };
+    }));
+  };
+
+  const toggleRow = (index: number) => {
+    setRows(prev => prev && prev.map((row, i) => (i === index ? { ...row, selected: !row.selected } : row)));
+  };
+
+  const setAll = (selected: boolean) => {
+    setRows(prev => prev && prev.map(row => ({ ...row, selected })));
+  };
+
+  const handleConfirm = () => {
+    if (!rows) return;
+    const selected = rows.filter(row => row.selected);
+    addTrades(selected.map(row => row.statementTrade.trade));
+    setRows(null);
+    setMessage({ text: `Added ${selected.length} trade${selected.length === 1 ? '' : 's'} to your journal.`, isError: false });
+  };
+
+  const selectedCount = rows?.filter(row => row.selected).length ?? 0;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+      <h2 className="text-2xl font-bold text-primary mb-2">Import from MetaTrader</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        Load an MT4 "Detailed Statement" or MT5 "Report" saved as HTML or CSV. Closed positions are converted into trades you can review before they are added.
+        SL/TP sizes are derived from the quoted prices, so check them for instruments that aren't quoted in standard pips.
+      </p>
+      <label htmlFor="mt-import" className="inline-flex cursor-pointer py-2 px-4 rounded-md text-sm font-medium bg-gray-700 hover:bg-gray-600 text-white transition-colors">
+        Choose Statement
+        <input id="mt-import" type="file" accept=".htm,.html,.csv,text/html,text/csv" onChange={handleFileChange} className="sr-only" />
+      </label>
+
+      {message && <p className={`mt-4 text-sm ${message.isError ? 'text-red-400' : 'text-gray-300'}`}>{message.text}</p>}
+
+      {rows && rows.length === 0 && <p className="mt-4 text-sm text-gray-400">No closed positions were found in this statement.</p>}
+
+      {rows && rows.length > 0 && (
+        <div className="mt-6 space-y-4">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-gray-300">{selectedCount} of {rows.length} selected</span>
+            <div className="space-x-3">
+              <button onClick={() => setAll(true)} className="text-primary hover:underline">Select all</button>
+              <button onClick={() => setAll(false)} className="text-gray-400 hover:underline">Select none</button>
+            </div>
+          </div>
+          <div className="overflow-x-auto max-h-96">
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="bg-gray-700/50 text-xs text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="px-3 py-2"></th>
+                  <th className="px-3 py-2 text-left">Ticket</th>
+                  <th className="px-3 py-2 text-left">Opened</th>
+                  <th className="px-3 py-2 text-left">Symbol</th>
+                  <th className="px-3 py-2 text-left">Type</th>
+                  <th className="px-3 py-2 text-left">Outcome</th>
+                  <th className="px-3 py-2 text-left">SL / TP</th>
+                  <th className="px-3 py-2 text-left">R/R</th>
+                  <th className="px-3 py-2 text-left">Profit</th>
+                  <th className="px-3 py-2 text-left">Journal</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {rows.map((row, index) => {
+                  const { statementTrade: st } = row;
+                  return (
+                    <tr key={`${st.ticket}-${index}`} className={row.selected ? '' : 'opacity-50'}>
+                      <td className="px-3 py-2">
+                        <input type="checkbox" checked={row.selected} onChange={() => toggleRow(index)}
+                               className="h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary" />
+                      </td>
+                      <td className="px-3 py-2 text-gray-300">{st.ticket}</td>
+                      <td className="px-3 py-2 whitespace-nowrap">{st.openTime}</td>
+                      <td className="px-3 py-2 text-gray-300">{st.symbol ?? 'N/A'}</td>
+                      <td className="px-3 py-2">{st.trade.type}</td>
+                      <td className={`px-3 py-2 font-bold ${st.trade.outcome === Outcome.TP ? 'text-success' : st.trade.outcome === Outcome.SL ? 'text-danger' : 'text-warning'}`}>
+                        {st.trade.outcome}
+                      </td>
+                      <td className="px-3 py-2 text-gray-300">{st.trade.slSize ?? '-'} / {st.trade.tpSize ?? '-'}</td>
+                      <td className="px-3 py-2 text-gray-300">{formatR(realizedR(st.trade))}</td>
+                      <td className={`px-3 py-2 ${st.profit >= 0 ? 'text-success' : 'text-danger'}`}>{st.profit.toFixed(2)}</td>
+                      <td className="px-3 py-2 text-xs">
+                        {row.matches.length > 0
+                          ? <span className="text-warning" title={row.matches.map(m => m.notes).join('\n')}>{row.matches.length} entr{row.matches.length === 1 ? 'y' : 'ies'} on this day</span>
+                          : <span className="text-gray-500">New</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <div className="flex justify-end space-x-3">
+            <button onClick={() => setRows(null)} className="py-2 px-4 border border-gray-600 text-sm rounded-md text-gray-300 hover:bg-gray-700 transition-colors">Cancel</button>
+            <button onClick={handleConfirm} disabled={selectedCount === 0}
+                    className="inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
+              Add {selectedCount} Trade{selectedCount === 1 ? '' : 's'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
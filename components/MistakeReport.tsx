@@ -0,0 +1,109 @@
+import React, { useMemo } from 'react';
+import { Trade, TagDefinition, TagCategory, JournalTimezone } from '../types';
+import { tradeR, isTakenTrade, formatR } from '../services/tradeMath';
+import { tradeDay } from '../services/tradeTime';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface MistakeReportProps {
+  trades: Trade[];
+  tags: TagDefinition[];
+  timezone: JournalTimezone;
+}
+
+const BAR_COLORS = ['#ef4444', '#f59e0b', '#a855f7', '#3b82f6', '#ec4899', '#14b8a6', '#84cc16', '#f97316'];
+
+// What each mistake tag cost: the R given up on losing trades carrying it, in total and per month.
+// Winning trades with the tag are listed but don't offset the cost.
+export const MistakeReport: React.FC<MistakeReportProps> = ({ trades, tags, timezone }) => {
+  const report = useMemo(() => {
+    const mistakes = tags.filter(tag => tag.category === TagCategory.MISTAKE).map(tag => tag.name);
+    const takenTrades = trades.filter(isTakenTrade);
+
+    const rows = mistakes
+      .map(name => {
+        const tagged = takenTrades.filter(t => t.tags?.includes(name));
+        const rs = tagged.map(tradeR);
+        return {
+          name,
+          trades: tagged.length,
+          netR: rs.reduce((sum, r) => sum + r, 0),
+          cost: rs.filter(r => r < 0).reduce((sum, r) => sum - r, 0),
+        };
+      })
+      .filter(row => row.trades > 0)
+      .sort((a, b) => b.cost - a.cost);
+
+    const months = new Map<string, { [tag: string]: number }>();
+    takenTrades.forEach(trade => {
+      const r = tradeR(trade);
+      if (r >= 0) return;
+      trade.tags?.filter(tag => mistakes.includes(tag)).forEach(tag => {
+        const month = tradeDay(trade, timezone).slice(0, 7);
+        const costs = months.get(month) ?? {};
+        costs[tag] = (costs[tag] ?? 0) - r;
+        months.set(month, costs);
+      });
+    });
+    const monthly = Array.from(months.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([month, costs]) => ({ name: month, ...costs }));
+
+    return { rows, monthly, totalCost: rows.reduce((sum, row) => sum + row.cost, 0) };
+  }, [trades, tags, timezone]);
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+      <h3 className="text-lg font-semibold mb-1">Cost of Mistakes</h3>
+      <p className="text-xs text-gray-500 mb-4">
+        R lost on losing trades tagged with a mistake. Tag trades when logging them and set a tag's category to Mistake in Settings.
+      </p>
+      {report.rows.length === 0 ? (
+        <p className="text-sm text-gray-500">No trades are tagged with a mistake yet.</p>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="bg-gray-700/50 text-xs font-medium text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="px-4 py-3 text-left">Mistake</th>
+                  <th className="px-4 py-3 text-left">Trades</th>
+                  <th className="px-4 py-3 text-left">R Lost</th>
+                  <th className="px-4 py-3 text-left">Net R</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {report.rows.map(row => (
+                  <tr key={row.name}>
+                    <td className="px-4 py-3 font-semibold">{row.name}</td>
+                    <td className="px-4 py-3 text-gray-300">{row.trades}</td>
+                    <td className="px-4 py-3 text-danger">-{formatR(row.cost)}</td>
+                    <td className={`px-4 py-3 ${row.netR >= 0 ? 'text-success' : 'text-danger'}`}>{formatR(row.netR)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-sm text-gray-400 mt-3">
+              Total: <span className="text-danger font-bold">-{formatR(report.totalCost)}</span>
+              <span className="text-xs text-gray-500"> (a trade with several mistake tags counts towards each)</span>
+            </p>
+          </div>
+          <ResponsiveContainer width="100%" height={300}>
+            <BarChart data={report.monthly} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="name" stroke="#9ca3af" tick={{ fontSize: 12 }} />
+              <YAxis stroke="#9ca3af" unit="R" />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                formatter={(value: number) => `-${value.toFixed(2)}R`}
+              />
+              <Legend />
+              {report.rows.map((row, index) => (
+                <Bar key={row.name} dataKey={row.name} stackId="cost" fill={BAR_COLORS[index % BAR_COLORS.length]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React from 'react';
+import { JournalTimezone } from '../types';
+import { PeriodComparison, ComparisonPreset, DateRange, COMPARISON_PRESETS, presetComparison, periodLabels } from '../services/periods';
+import { currentDay } from '../services/tradeTime';
+
+interface PeriodComparisonBarProps {
+  comparison: PeriodComparison | null;
+  setComparison: (comparison: PeriodComparison | null) => void;
+  timezone: JournalTimezone;
+}
+
+const inputClasses = "bg-gray-700 border border-gray-600 rounded-md p-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary";
+
+const RangeInputs: React.FC<{ label: string; range: DateRange; onChange: (range: DateRange) => void }> = ({ label, range, onChange }) => (
+    <div className="flex items-center gap-2 text-xs text-gray-400">
+        <span className="font-semibold text-gray-300">{label}</span>
+        <input type="date" value={range.from} onChange={e => onChange({ ...range, from: e.target.value })} className={inputClasses} />
+        <span>to</span>
+        <input type="date" value={range.to} onChange={e => onChange({ ...range, to: e.target.value })} className={inputClasses} />
+    </div>
+);
+
+export const PeriodComparisonBar: React.FC<PeriodComparisonBarProps> = ({ comparison, setComparison, timezone }) => {
+  const today = currentDay(timezone);
+
+  const toggle = (enabled: boolean) => setComparison(enabled ? presetComparison('month', today) : null);
+
+  const changePreset = (preset: ComparisonPreset) => {
+    // Custom periods start from whatever is shown, so they can be adjusted rather than re-entered.
+    setComparison(preset === 'custom' && comparison ? { ...comparison, preset } : presetComparison(preset, today));
+  };
+
+  const labels = comparison ? periodLabels(comparison.preset) : null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 p-4 bg-gray-800 rounded-lg border border-gray-700">
+      <label className="flex items-center gap-2 text-sm text-gray-300">
+        <input type="checkbox" checked={!!comparison} onChange={e => toggle(e.target.checked)} className="h-4 w-4 rounded border-gray-600 bg-gray-700 text-primary focus:ring-primary" />
+        Compare periods
+      </label>
+      {comparison && labels && (
+        <>
+          <select value={comparison.preset} onChange={e => changePreset(e.target.value as ComparisonPreset)} className={inputClasses}>
+            {COMPARISON_PRESETS.map(p => <option key={p.value} value={p.value}>{p.label}</option>)}
+          </select>
+          {comparison.preset === 'split' && (
+            <div className="flex items-center gap-2 text-xs text-gray-400">
+              <span>Change made on</span>
+              <input type="date" value={comparison.current.from}
+                     onChange={e => e.target.value && setComparison(presetComparison('split', today, e.target.value))} className={inputClasses} />
+            </div>
+          )}
+          {comparison.preset === 'custom' && (
+            <>
+              <RangeInputs label={labels.current} range={comparison.current} onChange={current => setComparison({ ...comparison, current })} />
+              <RangeInputs label={labels.previous} range={comparison.previous} onChange={previous => setComparison({ ...comparison, previous })} />
+            </>
+          )}
+          {(comparison.preset === 'week' || comparison.preset === 'month') && (
+            <span className="text-xs text-gray-500">
+              {labels.current}: {comparison.current.from} to {comparison.current.to} · {labels.previous}: {comparison.previous.from} to {comparison.previous.to}
+            </span>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
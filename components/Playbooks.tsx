@@ -0,0 +1,133 @@
+import React, { useState, FormEvent } from 'react';
+import { Setup } from '../types';
+
+interface PlaybooksProps {
+  setups: Setup[];
+  saveSetup: (setup: Setup) => void;
+  deleteSetup: (id: string) => void;
+}
+
+const NEW_SETUP = 'new';
+
+const toInputValue = (value?: number) => (value !== undefined ? value.toString() : '');
+
+const SetupForm: React.FC<{
+  initial?: Setup;
+  takenNames: string[];
+  onSave: (setup: Setup) => void;
+  onDelete?: () => void;
+}> = ({ initial, takenNames, onSave, onDelete }) => {
+  const [name, setName] = useState(initial?.name ?? '');
+  const [description, setDescription] = useState(initial?.description ?? '');
+  const [checklist, setChecklist] = useState(initial?.checklist.join('\n') ?? '');
+  const [defaultSlSize, setDefaultSlSize] = useState(toInputValue(initial?.defaultSlSize));
+  const [defaultTpSize, setDefaultTpSize] = useState(toInputValue(initial?.defaultTpSize));
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const trimmedName = name.trim();
+    if (takenNames.some(n => n.toLowerCase() === trimmedName.toLowerCase())) {
+      setError(`A setup called "${trimmedName}" already exists.`);
+      return;
+    }
+    onSave({
+      id: initial?.id ?? new Date().toISOString() + Math.random(),
+      name: trimmedName,
+      description: description.trim() || undefined,
+      checklist: checklist.split('\n').map(item => item.trim()).filter(Boolean),
+      defaultSlSize: defaultSlSize ? parseFloat(defaultSlSize) : undefined,
+      defaultTpSize: defaultTpSize ? parseFloat(defaultTpSize) : undefined,
+    });
+  };
+
+  const inputClasses = "w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary";
+  const labelClasses = "block text-sm font-medium text-gray-300 mb-1";
+
+  return (
+    <form onSubmit={handleSubmit} onChange={() => setError(null)} className="space-y-6">
+      <div>
+        <label htmlFor="setupName" className={labelClasses}>Name</label>
+        <input type="text" id="setupName" value={name} onChange={e => setName(e.target.value)} required placeholder="e.g., London range breakout" className={inputClasses} />
+      </div>
+      <div>
+        <label htmlFor="setupDescription" className={labelClasses}>Description</label>
+        <textarea id="setupDescription" value={description} onChange={e => setDescription(e.target.value)} rows={2} className={inputClasses}></textarea>
+      </div>
+      <div>
+        <label htmlFor="setupChecklist" className={labelClasses}>Entry Checklist</label>
+        <textarea id="setupChecklist" value={checklist} onChange={e => setChecklist(e.target.value)} rows={5}
+                  placeholder={"One criterion per line, e.g.\nRange under 10 pips\nNo red-folder news within the hour"}
+                  className={inputClasses}></textarea>
+      </div>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="defaultSlSize" className={labelClasses}>Default SL Size (pips)</label>
+          <input type="number" step="any" id="defaultSlSize" value={defaultSlSize} onChange={e => setDefaultSlSize(e.target.value)} className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="defaultTpSize" className={labelClasses}>Default TP Size (pips)</label>
+          <input type="number" step="any" id="defaultTpSize" value={defaultTpSize} onChange={e => setDefaultTpSize(e.target.value)} className={inputClasses} />
+        </div>
+      </div>
+      {initial && (
+        <p className="text-xs text-gray-500">
+          Trades already logged keep the name and checklist they were saved with.
+        </p>
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <div className="flex items-center justify-end space-x-4">
+        {onDelete && (
+          <button type="button" onClick={onDelete} className="py-2 px-4 border border-gray-600 text-sm rounded-md text-red-400 hover:bg-gray-700 transition-colors">
+            Delete Setup
+          </button>
+        )}
+        <button type="submit"
+                className="inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors">
+          {initial ? 'Save Setup' : 'Add Setup'}
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const Playbooks: React.FC<PlaybooksProps> = ({ setups, saveSetup, deleteSetup }) => {
+  const [selectedId, setSelectedId] = useState(setups[0]?.id ?? NEW_SETUP);
+  const selected = setups.find(s => s.id === selectedId);
+
+  const handleSave = (setup: Setup) => {
+    saveSetup(setup);
+    setSelectedId(setup.id);
+  };
+
+  const handleDelete = () => {
+    if (!selected || !window.confirm(`Delete the "${selected.name}" setup? Trades logged with it keep their setup name.`)) return;
+    deleteSetup(selected.id);
+    setSelectedId(NEW_SETUP);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto">
+      <div className="bg-gray-800 p-8 rounded-lg shadow-lg border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-2">Playbooks</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Describe each setup you trade and the criteria it needs. When logging a trade you pick the setup and tick the criteria that were met,
+          and the dashboard compares setups and shows what skipping each criterion costs.
+        </p>
+        <label htmlFor="playbookSetup" className="block text-sm font-medium text-gray-300 mb-1">Setup</label>
+        <select id="playbookSetup" value={selected ? selectedId : NEW_SETUP} onChange={e => setSelectedId(e.target.value)}
+                className="w-full mb-6 bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary">
+          {setups.map(s => <option key={s.id} value={s.id}>{s.name}</option>)}
+          <option value={NEW_SETUP}>+ New setup</option>
+        </select>
+        <SetupForm
+          key={selected?.id ?? NEW_SETUP}
+          initial={selected}
+          takenNames={setups.filter(s => s.id !== selected?.id).map(s => s.name)}
+          onSave={handleSave}
+          onDelete={selected ? handleDelete : undefined}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,217 @@
+import React, { useMemo, useState, useEffect, useRef } from 'react';
+import { Trade, TagDefinition, JournalTimezone, AiSettings } from '../types';
+import { buildReport, reportRange, shiftReportRange, reportToMarkdown, ReportPeriod, ReportTrade } from '../services/reports';
+import { tradesInRange } from '../services/periods';
+import { currentDay, formatDay } from '../services/tradeTime';
+import { formatR } from '../services/tradeMath';
+import { writeReportNarrative } from '../services/aiService';
+import { AiCancelledError, describeAiError } from '../services/aiErrors';
+import { downloadFile } from '../services/journalTransfer';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+
+interface ReportsProps {
+  trades: Trade[];
+  tags: TagDefinition[];
+  timezone: JournalTimezone;
+  aiSettings: AiSettings;
+}
+
+const cardClasses = "bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700 print:bg-white print:border-gray-300 print:shadow-none print:break-inside-avoid";
+
+const SummaryTile: React.FC<{ label: string; value: string; colorClass?: string }> = ({ label, value, colorClass = 'text-white' }) => (
+    <div className="bg-gray-900/50 rounded-md p-3 print:bg-white print:border print:border-gray-300">
+        <p className="text-xs text-gray-400 uppercase tracking-wider print:text-gray-600">{label}</p>
+        <p className={`text-xl font-bold mt-1 ${colorClass} print:text-black`}>{value}</p>
+    </div>
+);
+
+const TradeLine: React.FC<{ entry: ReportTrade | null }> = ({ entry }) =>
+    entry ? (
+        <p className="text-sm">
+            <span className={`font-bold ${entry.r >= 0 ? 'text-success' : 'text-danger'}`}>{formatR(entry.r)}</span>
+            <span className="text-gray-400 print:text-gray-700"> · {formatDay(entry.day)} · {entry.trade.instrument || 'N/A'} {entry.trade.type ?? ''}</span>
+            {entry.trade.notes && <span className="block text-xs text-gray-500 truncate" title={entry.trade.notes}>{entry.trade.notes}</span>}
+        </p>
+    ) : <p className="text-sm text-gray-500">N/A</p>;
+
+export const Reports: React.FC<ReportsProps> = ({ trades, tags, timezone, aiSettings }) => {
+  const [period, setPeriod] = useState<ReportPeriod>('week');
+  const [range, setRange] = useState(() => reportRange('week', currentDay(timezone)));
+  // Narratives are kept per report while the view is open, so flicking between periods doesn't lose them.
+  const [narratives, setNarratives] = useState<Record<string, string>>({});
+  const [isWriting, setIsWriting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Leaving the reports cancels a review that is still being written.
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const report = useMemo(() => buildReport(trades, period, range, timezone, tags), [trades, period, range, timezone, tags]);
+  const narrativeKey = `${period}:${range.from}`;
+  const narrative = narratives[narrativeKey];
+
+  const changePeriod = (next: ReportPeriod) => {
+    setPeriod(next);
+    setRange(reportRange(next, range.from));
+    setError(null);
+  };
+
+  const move = (direction: -1 | 1) => {
+    setRange(shiftReportRange(period, range, direction));
+    setError(null);
+  };
+
+  const handleWriteNarrative = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsWriting(true);
+    setError(null);
+    try {
+      const text = await writeReportNarrative(aiSettings, report, tradesInRange(trades, range, timezone), timezone, controller.signal);
+      setNarratives(prev => ({ ...prev, [narrativeKey]: text }));
+    } catch (err) {
+      if (!(err instanceof AiCancelledError)) {
+        console.error(err);
+        setError(describeAiError(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setIsWriting(false);
+    }
+  };
+
+  const exportMarkdown = () => {
+    downloadFile(`report-${period}-${range.from}.md`, reportToMarkdown(report, narrative), 'text/markdown');
+  };
+
+  const buttonClasses = "bg-gray-700 hover:bg-gray-600 text-white py-2 px-3 rounded-md text-sm transition-colors disabled:opacity-50 disabled:cursor-not-allowed";
+
+  return (
+    <div className="space-y-6 print:text-black">
+      <div className="flex flex-wrap items-center justify-between gap-3 print:hidden">
+        <div className="flex items-center gap-2">
+          {(['week', 'month'] as ReportPeriod[]).map(p => (
+            <button key={p} onClick={() => changePeriod(p)}
+                    className={`px-3 py-1 text-sm font-medium rounded-md transition-colors duration-200 ${period === p ? 'bg-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}>
+              {p === 'week' ? 'Weekly' : 'Monthly'}
+            </button>
+          ))}
+          <button onClick={() => move(-1)} className={buttonClasses}>&larr;</button>
+          <button onClick={() => setRange(reportRange(period, currentDay(timezone)))} className={buttonClasses}>Current</button>
+          <button onClick={() => move(1)} className={buttonClasses}>&rarr;</button>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={handleWriteNarrative} disabled={isWriting || report.tradeCount === 0} className={buttonClasses}>
+            {isWriting ? 'Writing review...' : narrative ? 'Rewrite AI review' : 'Write AI review'}
+          </button>
+          {isWriting && <button onClick={() => abortRef.current?.abort()} className={buttonClasses}>Cancel</button>}
+          <button onClick={() => window.print()} className={buttonClasses}>Print / PDF</button>
+          <button onClick={exportMarkdown} className={buttonClasses}>Export Markdown</button>
+        </div>
+      </div>
+      {error && <p className="text-red-500 text-sm print:hidden">{error}</p>}
+
+      <div>
+        <h2 className="text-2xl font-bold text-primary print:text-black">{report.title}</h2>
+        <p className="text-sm text-gray-400 print:text-gray-600">{formatDay(range.from)} – {formatDay(range.to)}</p>
+      </div>
+
+      <div className={cardClasses}>
+        <h3 className="text-lg font-semibold mb-4">Summary</h3>
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+          <SummaryTile label="Trades" value={report.tradeCount.toString()} />
+          <SummaryTile label="Win Rate" value={report.winRate === null ? 'N/A' : `${report.winRate.toFixed(1)}%`}
+                       colorClass={(report.winRate ?? 0) >= 50 ? 'text-success' : 'text-danger'} />
+          <SummaryTile label="Net R" value={formatR(report.netR)} colorClass={report.netR >= 0 ? 'text-success' : 'text-danger'} />
+          <SummaryTile label="Average R" value={formatR(report.averageR)} colorClass={report.averageR >= 0 ? 'text-success' : 'text-danger'} />
+          <SummaryTile label="W / L / BE" value={`${report.wins} / ${report.losses} / ${report.breakEvens}`} />
+          <SummaryTile label="No-trade Days" value={report.noTradeDays.toString()} />
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+          <div>
+            <h4 className="text-xs text-gray-400 uppercase tracking-wider mb-1">Best Trade</h4>
+            <TradeLine entry={report.bestTrade} />
+          </div>
+          <div>
+            <h4 className="text-xs text-gray-400 uppercase tracking-wider mb-1">Worst Trade</h4>
+            <TradeLine entry={report.worstTrade} />
+          </div>
+        </div>
+      </div>
+
+      {narrative && (
+        <div className={cardClasses}>
+          <h3 className="text-lg font-semibold mb-4">Review</h3>
+          <div className="text-sm text-gray-300 whitespace-pre-wrap leading-relaxed print:text-black">{narrative}</div>
+        </div>
+      )}
+
+      <div className={cardClasses}>
+        <h3 className="text-lg font-semibold mb-4">Equity</h3>
+        {report.equity.length > 0 ? (
+          <ResponsiveContainer width="100%" height={250}>
+            <LineChart data={report.equity}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#374151" />
+              <XAxis dataKey="name" stroke="#9ca3af" tick={{ fontSize: 12 }} />
+              <YAxis stroke="#9ca3af" unit="R" domain={['auto', 'auto']} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#1f2937', border: '1px solid #374151' }}
+                formatter={(value: number) => [`${value.toFixed(2)}R`, 'Cumulative R']}
+              />
+              <Line type="monotone" dataKey="Cumulative R" stroke={report.netR >= 0 ? '#22c55e' : '#ef4444'} strokeWidth={2} dot={{ r: 2 }} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        ) : (
+          <p className="text-sm text-gray-500">No trades in this period.</p>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={cardClasses}>
+          <h3 className="text-lg font-semibold mb-1">Rule Violations</h3>
+          <p className="text-xs text-gray-500 mb-4">Trades with skipped checklist items or mistake tags.</p>
+          {report.violations.length === 0 ? (
+            <p className="text-sm text-gray-500">None.</p>
+          ) : (
+            <ul className="space-y-2">
+              {report.violations.map(v => (
+                <li key={v.trade.id} className="text-sm">
+                  <span className="text-gray-300 print:text-black">{formatDay(v.day)} · {v.trade.instrument || 'N/A'} · </span>
+                  <span className={v.r >= 0 ? 'text-success' : 'text-danger'}>{formatR(v.r)}</span>
+                  <span className="block text-xs text-gray-400 print:text-gray-700">{v.reasons.join('; ')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+        <div className={cardClasses}>
+          <h3 className="text-lg font-semibold mb-4">Top Tags</h3>
+          {report.topTags.length === 0 ? (
+            <p className="text-sm text-gray-500">No tagged trades.</p>
+          ) : (
+            <table className="min-w-full divide-y divide-gray-700 text-sm">
+              <thead className="text-xs font-medium text-gray-400 uppercase tracking-wider">
+                <tr>
+                  <th className="px-2 py-2 text-left">Tag</th>
+                  <th className="px-2 py-2 text-left">Category</th>
+                  <th className="px-2 py-2 text-left">Trades</th>
+                  <th className="px-2 py-2 text-left">Net R</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-700">
+                {report.topTags.map(tag => (
+                  <tr key={tag.name}>
+                    <td className="px-2 py-2 font-semibold">{tag.name}</td>
+                    <td className="px-2 py-2 text-gray-400 print:text-gray-700">{tag.category}</td>
+                    <td className="px-2 py-2">{tag.trades}</td>
+                    <td className={`px-2 py-2 ${tag.netR >= 0 ? 'text-success' : 'text-danger'}`}>{formatR(tag.netR)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
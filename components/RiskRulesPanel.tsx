@@ -0,0 +1,69 @@
+import React from 'react';
+import { RuleBreach } from '../types';
+import { RiskEvaluation, RuleState, RULE_LABELS } from '../services/riskRules';
+import { formatDay } from '../services/tradeTime';
+
+interface RiskRulesPanelProps {
+  evaluation: RiskEvaluation;
+  breaches: RuleBreach[];
+  clearBreaches: () => void;
+}
+
+const STATE_STYLES: Record<RuleState, { text: string; colorClass: string }> = {
+  ok: { text: 'Within limit', colorClass: 'text-gray-400' },
+  reached: { text: 'Limit reached', colorClass: 'text-warning' },
+  breached: { text: 'Breached', colorClass: 'text-danger' },
+  met: { text: 'Target met', colorClass: 'text-success' },
+};
+
+export const RiskRulesPanel: React.FC<RiskRulesPanelProps> = ({ evaluation, breaches, clearBreaches }) => {
+  const { statuses, streak } = evaluation;
+
+  return (
+    <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+      <h3 className="text-lg font-semibold mb-1">Risk Rules</h3>
+      <p className="text-xs text-gray-500 mb-4">Today's standing across all accounts. Set the rules in Settings.</p>
+      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 gap-4">
+        {statuses.map(status => (
+          <div key={status.rule} className="bg-gray-900/50 rounded-md p-3">
+            <p className="text-xs text-gray-400 uppercase tracking-wider">{status.label}</p>
+            <p className="text-xl font-bold mt-1">
+              {status.current} <span className="text-sm font-normal text-gray-500">/ {status.limit}</span>
+            </p>
+            <p className={`text-xs mt-1 ${STATE_STYLES[status.state].colorClass}`}>{STATE_STYLES[status.state].text}</p>
+          </div>
+        ))}
+        <div className="bg-gray-900/50 rounded-md p-3" title="Trading days in a row without breaking a rule">
+          <p className="text-xs text-gray-400 uppercase tracking-wider">Rules Respected</p>
+          <p className={`text-xl font-bold mt-1 ${streak.current > 0 ? 'text-success' : 'text-white'}`}>{streak.current} days</p>
+          <p className="text-xs text-gray-500 mt-1">best {streak.best}</p>
+        </div>
+      </div>
+
+      <div className="flex justify-between items-center mt-6 mb-2">
+        <h4 className="text-sm font-semibold text-gray-300">Breach History</h4>
+        {breaches.length > 0 && (
+          <button onClick={() => window.confirm("Clear the breach history?") && clearBreaches()} className="text-xs text-gray-400 hover:text-red-400">
+            Clear
+          </button>
+        )}
+      </div>
+      {breaches.length === 0 ? (
+        <p className="text-sm text-gray-500">No breaches logged. Breaches are logged as trades are added.</p>
+      ) : (
+        <ul className="max-h-64 overflow-y-auto divide-y divide-gray-700 text-sm">
+          {[...breaches].reverse().map(breach => (
+            <li key={`${breach.rule}-${breach.tradeId}`} className="py-2 flex flex-wrap justify-between gap-2">
+              <span>
+                <span className="font-semibold text-danger">{RULE_LABELS[breach.rule]}</span>
+                <span className="text-gray-300"> · {formatDay(breach.day)}</span>
+                <span className="block text-xs text-gray-400">{breach.message}</span>
+              </span>
+              <span className="text-xs text-gray-500">{new Date(breach.recordedAt).toLocaleString()}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
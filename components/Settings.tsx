@@ -0,0 +1,346 @@
+import React, { useState, FormEvent } from 'react';
+import { AccountSettings, RiskMode, JournalTimezone, TagDefinition, TagCategory, RiskRules, RiskRuleKey, AiSettings, AiProviderKind } from '../types';
+import { DEFAULT_ACCOUNT_KEY } from '../hooks/useAccountSettings';
+import { TIMEZONE_OPTIONS } from '../services/tradeTime';
+import { RULE_LABELS } from '../services/riskRules';
+import { AI_PROVIDER_OPTIONS, DEFAULT_OPENAI_BASE_URL, createAiProvider } from '../services/aiProviders';
+import { describeAiError } from '../services/aiErrors';
+
+interface SettingsProps {
+  accounts: string[];
+  getAccountSettings: (account?: string) => AccountSettings;
+  saveAccountSettings: (account: string, settings: AccountSettings) => void;
+  hasOwnSettings: (account: string) => boolean;
+  timezone: JournalTimezone;
+  setTimezone: (timezone: JournalTimezone) => void;
+  tags: TagDefinition[];
+  saveTag: (tag: TagDefinition) => void;
+  renameTag: (from: string, to: string) => void;
+  riskRules: RiskRules;
+  saveRiskRules: (rules: RiskRules) => void;
+  aiSettings: AiSettings;
+  saveAiSettings: (settings: AiSettings) => void;
+}
+
+const AccountSettingsForm: React.FC<{
+  account: string;
+  initial: AccountSettings;
+  onSave: (settings: AccountSettings) => void;
+}> = ({ account, initial, onSave }) => {
+  const [startingBalance, setStartingBalance] = useState(initial.startingBalance.toString());
+  const [currency, setCurrency] = useState(initial.currency);
+  const [riskMode, setRiskMode] = useState<RiskMode>(initial.riskMode);
+  const [riskValue, setRiskValue] = useState(initial.riskValue.toString());
+  const [commissionPerTrade, setCommissionPerTrade] = useState(initial.commissionPerTrade.toString());
+  const [pipValuePerLot, setPipValuePerLot] = useState(initial.pipValuePerLot.toString());
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave({
+      startingBalance: parseFloat(startingBalance) || 0,
+      currency: currency.trim().toUpperCase() || 'USD',
+      riskMode,
+      riskValue: parseFloat(riskValue) || 0,
+      commissionPerTrade: parseFloat(commissionPerTrade) || 0,
+      pipValuePerLot: parseFloat(pipValuePerLot) || 0,
+    });
+    setSaved(true);
+  };
+
+  const inputClasses = "w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary";
+  const labelClasses = "block text-sm font-medium text-gray-300 mb-1";
+
+  return (
+    <form onSubmit={handleSubmit} onChange={() => setSaved(false)} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label htmlFor="startingBalance" className={labelClasses}>Starting Balance</label>
+          <input type="number" step="any" id="startingBalance" value={startingBalance} onChange={e => setStartingBalance(e.target.value)} required className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="currency" className={labelClasses}>Currency</label>
+          <input type="text" id="currency" value={currency} onChange={e => setCurrency(e.target.value)} maxLength={3} placeholder="USD" className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="riskMode" className={labelClasses}>Risk per Trade</label>
+          <div className="flex items-center gap-2">
+            <input type="number" step="any" id="riskValue" value={riskValue} onChange={e => setRiskValue(e.target.value)} required className={inputClasses} />
+            <select id="riskMode" value={riskMode} onChange={e => setRiskMode(e.target.value as RiskMode)}
+                    className="bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary">
+              <option value="percent">% of balance</option>
+              <option value="fixed">fixed amount</option>
+            </select>
+          </div>
+        </div>
+        <div>
+          <label htmlFor="commissionPerTrade" className={labelClasses}>Commission per Trade</label>
+          <input type="number" step="any" id="commissionPerTrade" value={commissionPerTrade} onChange={e => setCommissionPerTrade(e.target.value)} className={inputClasses} />
+        </div>
+        <div>
+          <label htmlFor="pipValuePerLot" className={labelClasses}>Pip Value per Standard Lot</label>
+          <input type="number" step="any" id="pipValuePerLot" value={pipValuePerLot} onChange={e => setPipValuePerLot(e.target.value)} className={inputClasses} />
+          <p className="text-xs text-gray-500 mt-1">Used by the position-size calculator, e.g. 10 for EURUSD on a USD account.</p>
+        </div>
+      </div>
+      <div className="flex items-center justify-end space-x-4">
+        {saved && <span className="text-sm text-success">Saved{account === DEFAULT_ACCOUNT_KEY ? '' : ` for ${account}`}.</span>}
+        <button type="submit"
+                className="inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors">
+          Save Settings
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const RULE_FIELDS: { rule: RiskRuleKey; unit: string; hint: string }[] = [
+  { rule: 'maxTradesPerDay', unit: 'trades', hint: 'Trades taken after this many in a day are breaches.' },
+  { rule: 'maxDailyLossR', unit: 'R', hint: 'Stop for the day once this much R has been lost.' },
+  { rule: 'maxConsecutiveLosses', unit: 'losses', hint: 'Stop for the day after this many stop losses in a row.' },
+  { rule: 'weeklyTargetR', unit: 'R', hint: 'A goal for the week; reaching it is shown in the header.' },
+];
+
+const RiskRulesForm: React.FC<{ initial: RiskRules; onSave: (rules: RiskRules) => void }> = ({ initial, onSave }) => {
+  const [values, setValues] = useState<Record<RiskRuleKey, string>>(() => ({
+    maxTradesPerDay: initial.maxTradesPerDay?.toString() ?? '',
+    maxDailyLossR: initial.maxDailyLossR?.toString() ?? '',
+    maxConsecutiveLosses: initial.maxConsecutiveLosses?.toString() ?? '',
+    weeklyTargetR: initial.weeklyTargetR?.toString() ?? '',
+  }));
+  const [saved, setSaved] = useState(false);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const rules: RiskRules = {};
+    RULE_FIELDS.forEach(({ rule }) => {
+      const value = parseFloat(values[rule]);
+      if (value > 0) rules[rule] = value;
+    });
+    onSave(rules);
+    setSaved(true);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} onChange={() => setSaved(false)} className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        {RULE_FIELDS.map(({ rule, unit, hint }) => (
+          <div key={rule}>
+            <label htmlFor={rule} className="block text-sm font-medium text-gray-300 mb-1">{RULE_LABELS[rule]} ({unit})</label>
+            <input type="number" step="any" min="0" id={rule} value={values[rule]} placeholder="Off"
+                   onChange={e => setValues(prev => ({ ...prev, [rule]: e.target.value }))}
+                   className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary" />
+            <p className="text-xs text-gray-500 mt-1">{hint}</p>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-end space-x-4">
+        {saved && <span className="text-sm text-success">Saved.</span>}
+        <button type="submit"
+                className="inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors">
+          Save Rules
+        </button>
+      </div>
+    </form>
+  );
+};
+
+const AiSettingsForm: React.FC<{ initial: AiSettings; onSave: (settings: AiSettings) => void }> = ({ initial, onSave }) => {
+  const [values, setValues] = useState<AiSettings>(initial);
+  const [saved, setSaved] = useState(false);
+  const [testResult, setTestResult] = useState<{ ok: boolean; message: string } | null>(null);
+  const [isTesting, setIsTesting] = useState(false);
+  const option = AI_PROVIDER_OPTIONS.find(o => o.value === values.provider) ?? AI_PROVIDER_OPTIONS[0];
+  const inputClasses = "w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary";
+  const labelClasses = "block text-sm font-medium text-gray-300 mb-1";
+
+  const update = (changes: Partial<AiSettings>) => {
+    setValues(prev => ({ ...prev, ...changes }));
+    setSaved(false);
+    setTestResult(null);
+  };
+
+  // Each provider has its own models, so switching starts from that provider's usual one.
+  const changeProvider = (provider: AiProviderKind) => {
+    const next = AI_PROVIDER_OPTIONS.find(o => o.value === provider);
+    update({ provider, model: next?.defaultModel ?? values.model });
+  };
+
+  const cleaned = (): AiSettings => ({
+    provider: values.provider,
+    model: values.model.trim() || option.defaultModel,
+    apiKey: values.apiKey?.trim() || undefined,
+    baseUrl: values.provider === AiProviderKind.OPENAI ? values.baseUrl?.trim() || undefined : undefined,
+  });
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    onSave(cleaned());
+    setSaved(true);
+  };
+
+  // Sends a tiny request with the settings as entered, saved or not.
+  const handleTest = async () => {
+    setIsTesting(true);
+    setTestResult(null);
+    try {
+      const reply = await createAiProvider(cleaned()).generate({
+        systemInstruction: 'You are checking that a connection works.',
+        turns: [{ role: 'user', parts: [{ text: 'Reply with the single word OK.' }] }],
+      });
+      setTestResult({ ok: true, message: `Connected. The model replied: "${reply.trim().slice(0, 80)}"` });
+    } catch (error) {
+      setTestResult({ ok: false, message: describeAiError(error) });
+    } finally {
+      setIsTesting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      <div>
+        <label htmlFor="aiProvider" className={labelClasses}>Provider</label>
+        <select id="aiProvider" value={values.provider} onChange={e => changeProvider(e.target.value as AiProviderKind)} className={inputClasses}>
+          {AI_PROVIDER_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+      </div>
+      {values.provider === AiProviderKind.OPENAI && (
+        <div>
+          <label htmlFor="aiBaseUrl" className={labelClasses}>Base URL</label>
+          <input type="url" id="aiBaseUrl" value={values.baseUrl ?? ''} placeholder={DEFAULT_OPENAI_BASE_URL}
+                 onChange={e => update({ baseUrl: e.target.value })} className={inputClasses} />
+          <p className="text-xs text-gray-500 mt-1">
+            Requests go to this URL followed by /chat/completions. For a local server, e.g. http://localhost:11434/v1 for Ollama or http://localhost:1234/v1 for LM Studio.
+          </p>
+        </div>
+      )}
+      {values.provider !== AiProviderKind.MOCK && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="aiModel" className={labelClasses}>Model</label>
+            <input type="text" id="aiModel" list="aiModelOptions" value={values.model} placeholder={option.defaultModel}
+                   onChange={e => update({ model: e.target.value })} className={inputClasses} />
+            <datalist id="aiModelOptions">
+              {option.models.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+          <div>
+            <label htmlFor="aiApiKey" className={labelClasses}>API Key</label>
+            <input type="password" id="aiApiKey" autoComplete="off" value={values.apiKey ?? ''}
+                   placeholder={values.provider === AiProviderKind.GEMINI ? 'Use the key the app was built with' : 'None'}
+                   onChange={e => update({ apiKey: e.target.value })} className={inputClasses} />
+            <p className="text-xs text-gray-500 mt-1">Stored in this browser only.</p>
+          </div>
+        </div>
+      )}
+      {values.provider === AiProviderKind.MOCK && (
+        <p className="text-sm text-gray-400">
+          The mock provider answers instantly without a network connection, describing what would have been sent. Useful for trying out the AI features and for tests.
+        </p>
+      )}
+      <div className="flex flex-wrap items-center justify-end gap-4">
+        {testResult && <span className={`text-sm ${testResult.ok ? 'text-success' : 'text-danger'}`}>{testResult.message}</span>}
+        {saved && <span className="text-sm text-success">Saved.</span>}
+        <button type="button" onClick={handleTest} disabled={isTesting}
+                className="py-2 px-4 rounded-md text-sm font-medium text-white bg-gray-700 hover:bg-gray-600 disabled:opacity-50 transition-colors">
+          {isTesting ? 'Testing...' : 'Test Connection'}
+        </button>
+        <button type="submit"
+                className="inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors">
+          Save AI Settings
+        </button>
+      </div>
+    </form>
+  );
+};
+
+export const Settings: React.FC<SettingsProps> = ({
+  accounts, getAccountSettings, saveAccountSettings, hasOwnSettings, timezone, setTimezone, tags, saveTag, renameTag, riskRules, saveRiskRules, aiSettings, saveAiSettings,
+}) => {
+  const [account, setAccount] = useState(DEFAULT_ACCOUNT_KEY);
+
+  const handleRenameTag = (name: string) => {
+    const input = window.prompt(`Rename the "${name}" tag to:`, name)?.trim();
+    if (!input || input === name) return;
+    const existing = tags.find(t => t.name.toLowerCase() === input.toLowerCase() && t.name !== name);
+    if (existing && !window.confirm(`There is already a "${existing.name}" tag. Merge "${name}" into it?`)) return;
+    renameTag(name, existing?.name ?? input);
+  };
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-8">
+      <div className="bg-gray-800 p-8 rounded-lg shadow-lg border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-2">Account Settings</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Balance and risk settings turn R multiples into money. Trades without a recorded P&L are estimated from their R and the risk configured here.
+        </p>
+        <label htmlFor="settingsAccount" className="block text-sm font-medium text-gray-300 mb-1">Account</label>
+        <select id="settingsAccount" value={account} onChange={e => setAccount(e.target.value)}
+                className="w-full mb-6 bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary">
+          <option value={DEFAULT_ACCOUNT_KEY}>Default (all other accounts)</option>
+          {accounts.map(a => <option key={a} value={a}>{a}{hasOwnSettings(a) ? '' : ' (uses default)'}</option>)}
+        </select>
+        <AccountSettingsForm
+          key={account}
+          account={account}
+          initial={getAccountSettings(account || undefined)}
+          onSave={settings => saveAccountSettings(account, settings)}
+        />
+      </div>
+      <div className="bg-gray-800 p-8 rounded-lg shadow-lg border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-2">Risk Rules</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Limits on how you trade, checked each time a trade is added. Leave a rule empty to turn it off. Days are counted in the journal's time zone, across all accounts.
+        </p>
+        <RiskRulesForm initial={riskRules} onSave={saveRiskRules} />
+      </div>
+      <div className="bg-gray-800 p-8 rounded-lg shadow-lg border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-2">Time Zone</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          New trades are recorded in this zone, and the dashboard groups trades into days, hours and sessions by it.
+          Trades keep the zone they were logged in, so changing it later moves them to the right place rather than reinterpreting their times.
+        </p>
+        <label htmlFor="journalTimezone" className="block text-sm font-medium text-gray-300 mb-1">Journal Time Zone</label>
+        <select id="journalTimezone" value={timezone} onChange={e => setTimezone(e.target.value as JournalTimezone)}
+                className="w-full bg-gray-700 border border-gray-600 rounded-md py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary">
+          {TIMEZONE_OPTIONS.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <p className="text-xs text-gray-500 mt-2">
+          Sessions: Asia 08:00-17:00 Tokyo, London 08:00-17:00 London, New York 08:00-17:00 New York. Hours when London and New York are both open count as the overlap.
+        </p>
+      </div>
+      <div className="bg-gray-800 p-8 rounded-lg shadow-lg border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-2">AI Provider</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          The service behind the AI analyzer and report reviews. An OpenAI-compatible endpoint can be a hosted API or an LLM running on this machine.
+        </p>
+        <AiSettingsForm initial={aiSettings} onSave={saveAiSettings} />
+      </div>
+      <div className="bg-gray-800 p-8 rounded-lg shadow-lg border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-2">Tags</h2>
+        <p className="text-sm text-gray-400 mb-6">
+          Tags are created from the trade form. Their category decides how they are grouped in filters, and Mistake tags are costed on the dashboard.
+          Renaming a tag renames it on every trade and in saved filters.
+        </p>
+        {tags.length === 0 ? (
+          <p className="text-sm text-gray-500">No tags yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {tags.map(tag => (
+              <div key={tag.name} className="flex items-center justify-between gap-4">
+                <span className="text-sm text-gray-200">{tag.name}</span>
+                <div className="flex items-center gap-3">
+                  <button type="button" onClick={() => handleRenameTag(tag.name)} className="text-xs text-gray-400 hover:text-white">Rename</button>
+                  <select value={tag.category} onChange={e => saveTag({ ...tag, category: e.target.value as TagCategory })}
+                          className="bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary">
+                    {Object.values(TagCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,9 +1,13 @@
-import React, { useState } from 'react';
-import { Trade } from '../types';
-import { analyzeSlSweepsWithAI } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { Trade, JournalTimezone, AiSettings } from '../types';
+import { analyzeSlSweepsWithAI } from '../services/aiService';
+import { AiCancelledError, describeAiError } from '../services/aiErrors';
+import { AiAnswer } from './AiAnswer';
 
 interface SlSweepAnalyzerProps {
     trades: Trade[];
+    timezone: JournalTimezone;
+    aiSettings: AiSettings;
 }
 
 const SearchIcon = () => (
@@ -12,22 +16,32 @@ const SearchIcon = () => (
     </svg>
 )
 
-export const SlSweepAnalyzer: React.FC<SlSweepAnalyzerProps> = ({ trades }) => {
+export const SlSweepAnalyzer: React.FC<SlSweepAnalyzerProps> = ({ trades, timezone, aiSettings }) => {
     const [analysis, setAnalysis] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Leaving the tab cancels an analysis that is still running.
+    useEffect(() => () => abortRef.current?.abort(), []);
 
     const handleAnalyze = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
         setIsLoading(true);
         setError(null);
         setAnalysis(null);
 
         try {
-            const result = await analyzeSlSweepsWithAI(trades);
+            const result = await analyzeSlSweepsWithAI(aiSettings, trades, timezone, controller.signal);
             setAnalysis(result);
-        } catch (err: any) {
-            setError(err.message || "An unexpected error occurred.");
+        } catch (err) {
+            if (!(err instanceof AiCancelledError)) {
+                console.error(err);
+                setError(describeAiError(err));
+            }
         } finally {
+            abortRef.current = null;
             setIsLoading(false);
         }
     };
@@ -39,12 +53,18 @@ export const SlSweepAnalyzer: React.FC<SlSweepAnalyzerProps> = ({ trades }) => {
                     <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mb-4"></div>
                     <p className="text-lg">Analyzing your notes...</p>
                     <p className="text-sm">The AI is looking for recurring patterns in your SL sweeps.</p>
+                    <button
+                        onClick={() => abortRef.current?.abort()}
+                        className="mt-6 py-2 px-4 border border-gray-600 rounded-md text-sm font-medium text-gray-200 hover:bg-gray-700 transition-colors"
+                    >
+                        Cancel
+                    </button>
                 </div>
             ) : analysis ? (
                 <div className="bg-gray-900/50 p-6 rounded-lg border border-gray-700">
                     <h3 className="text-lg font-bold text-primary mb-4">SL Sweep Analysis Results</h3>
-                    <div className="text-sm text-gray-300 whitespace-pre-wrap leading-relaxed prose prose-invert prose-p:my-2 prose-ul:my-2">
-                        {analysis}
+                    <div className="text-gray-300 leading-relaxed">
+                        <AiAnswer text={analysis} trades={trades} timezone={timezone} />
                     </div>
                      <button
                         onClick={() => setAnalysis(null)}
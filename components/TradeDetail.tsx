@@ -0,0 +1,192 @@
+import React, { useState, useEffect } from 'react';
+import { Trade, Outcome, AccountSettings, JournalTimezone, Annotation } from '../types';
+import { realizedR, formatR, describeEvent } from '../services/tradeMath';
+import { tradeDay, tradeClockTime, tradeSession, formatDay, TIMEZONE_OPTIONS } from '../services/tradeTime';
+import { formatMoney } from '../services/equity';
+import { routeToHash, DASHBOARD_ROUTE } from '../services/routes';
+import { ImageAnnotator } from './ImageAnnotator';
+
+// Where this trade sits in the trade history as currently filtered, for prev/next.
+export interface TradeNavigation {
+  previousId?: string;
+  nextId?: string;
+  position: number; // 1-based; 0 when the trade is outside the current filters
+  total: number;
+}
+
+interface TradeDetailProps {
+  trade: Trade;
+  timezone: JournalTimezone;
+  getAccountSettings: (account?: string) => AccountSettings;
+  navigation: TradeNavigation;
+  saveAnnotations: (annotations: Trade['annotations']) => void;
+}
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+    <div>
+        <dt className="text-xs text-gray-400 uppercase tracking-wider">{label}</dt>
+        <dd className="text-sm text-gray-200 mt-1">{children ?? 'N/A'}</dd>
+    </div>
+);
+
+const NavLink: React.FC<{ id?: string; children: React.ReactNode }> = ({ id, children }) => (
+    id ? (
+        <a href={routeToHash({ view: 'trade', id })} className="px-3 py-2 rounded-md text-sm bg-gray-700 hover:bg-gray-600 text-white transition-colors">{children}</a>
+    ) : (
+        <span className="px-3 py-2 rounded-md text-sm bg-gray-800 text-gray-600 cursor-not-allowed">{children}</span>
+    )
+);
+
+const optional = (value: number | string | undefined, suffix = '') =>
+  value === undefined || value === '' ? null : `${value}${suffix}`;
+
+export const TradeDetail: React.FC<TradeDetailProps> = ({ trade, timezone, getAccountSettings, navigation, saveAnnotations }) => {
+  const r = realizedR(trade);
+  const images = trade.images ?? [];
+  const [selectedImageId, setSelectedImageId] = useState<string | undefined>(images[0]?.id);
+  const activeImage = images.find(image => image.id === selectedImageId) ?? images[0];
+  const recordedZone = TIMEZONE_OPTIONS.find(option => option.value === trade.timezone)?.label;
+
+  // Arrow keys step through the filtered trades, unless the user is typing.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest('input, textarea, select') || e.altKey || e.ctrlKey || e.metaKey) return;
+      const id = e.key === 'ArrowLeft' ? navigation.previousId : e.key === 'ArrowRight' ? navigation.nextId : undefined;
+      if (id) window.location.hash = routeToHash({ view: 'trade', id });
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [navigation.previousId, navigation.nextId]);
+
+  const handleSaveAnnotations = (imageId: string, annotations: Annotation[]) => {
+    const { [imageId]: _, ...others } = trade.annotations ?? {};
+    const next = annotations.length > 0 ? { ...others, [imageId]: annotations } : others;
+    saveAnnotations(Object.keys(next).length > 0 ? next : undefined);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <a href={routeToHash(DASHBOARD_ROUTE)} className="text-sm text-gray-400 hover:text-white">&larr; Back to dashboard</a>
+        <div className="flex flex-wrap items-center gap-2">
+          <NavLink id={navigation.previousId}>&larr; Newer</NavLink>
+          <span className="text-xs text-gray-400 px-2" title="Position in the trade history with the current filters">
+            {navigation.position > 0 ? `${navigation.position} of ${navigation.total}` : 'Outside current filters'}
+          </span>
+          <NavLink id={navigation.nextId}>Older &rarr;</NavLink>
+          <a href={routeToHash({ view: 'edit_trade', id: trade.id })}
+             className="bg-primary hover:bg-green-600 text-white py-2 px-4 rounded-md text-sm font-medium transition-colors">
+            Edit
+          </a>
+        </div>
+      </div>
+
+      <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+        <h2 className="text-2xl font-bold text-primary mb-1">
+          {trade.instrument || 'Trade'} · {formatDay(tradeDay(trade, timezone))}
+        </h2>
+        <p className={`text-lg font-bold mb-6 ${trade.outcome === Outcome.TP ? 'text-success' : trade.outcome === Outcome.SL ? 'text-danger' : trade.outcome === Outcome.BE ? 'text-warning' : 'text-gray-400'}`}>
+          {trade.outcome} · {formatR(r)}
+        </p>
+        <dl className="grid grid-cols-2 md:grid-cols-4 gap-6">
+          <Field label="Type">{trade.type}</Field>
+          <Field label="Instrument">{trade.instrument}</Field>
+          <Field label="Account">{trade.account}</Field>
+          <Field label="Setup">{trade.setup}</Field>
+          <Field label="Time">{tradeClockTime(trade, timezone)}</Field>
+          <Field label="Session">{tradeSession(trade, timezone)}</Field>
+          <Field label="Recorded As">
+            {[trade.date.split('T')[0], trade.activationTime].filter(Boolean).join(' ')}
+            {recordedZone && <span className="block text-xs text-gray-500">{recordedZone}</span>}
+          </Field>
+          <Field label="Realized R">{formatR(r)}</Field>
+          <Field label="Entered R/R">{optional(trade.rr)}</Field>
+          <Field label="SL Size">{optional(trade.slSize, 'p')}</Field>
+          <Field label="TP Size">{optional(trade.tpSize, 'p')}</Field>
+          <Field label="Range Size">{optional(trade.rangeSize, 'p')}</Field>
+          <Field label="P&L">{trade.pnl != null ? formatMoney(trade.pnl, getAccountSettings(trade.account).currency) : null}</Field>
+          <Field label="Tags">{trade.tags && trade.tags.length > 0 ? trade.tags.join(', ') : null}</Field>
+          <Field label="Trade ID"><span className="font-mono text-xs break-all">{trade.id}</span></Field>
+        </dl>
+        <dl className="mt-6 space-y-4">
+          <Field label="Notes">{trade.notes ? <span className="whitespace-pre-wrap">{trade.notes}</span> : null}</Field>
+          <Field label="SL Sweep Notes">{trade.slSweepNotes ? <span className="whitespace-pre-wrap">{trade.slSweepNotes}</span> : null}</Field>
+        </dl>
+      </div>
+
+      {(trade.checklist?.length || trade.events?.length) ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          {trade.checklist && trade.checklist.length > 0 && (
+            <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+              <h3 className="text-lg font-semibold mb-4">Checklist</h3>
+              <ul className="space-y-1 text-sm">
+                {trade.checklist.map(check => (
+                  <li key={check.item} className={check.checked ? 'text-success' : 'text-danger'}>
+                    {check.checked ? '✓' : '✗'} <span className="text-gray-200">{check.item}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          {trade.events && trade.events.length > 0 && (
+            <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+              <h3 className="text-lg font-semibold mb-4">Trade Management</h3>
+              <ol className="space-y-1 text-sm text-gray-200 list-decimal list-inside">
+                {trade.events.map((event, index) => <li key={index}>{describeEvent(event)}</li>)}
+              </ol>
+            </div>
+          )}
+        </div>
+      ) : null}
+
+      {activeImage && (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+          <div className="flex flex-wrap justify-between items-center gap-3 mb-4">
+            <h3 className="text-lg font-semibold">Images</h3>
+            <div className="flex flex-wrap bg-gray-900 rounded-md p-1">
+              {images.map(image => (
+                <button
+                  key={image.id}
+                  onClick={() => setSelectedImageId(image.id)}
+                  className={`px-3 py-1 rounded text-sm font-medium transition-colors ${activeImage.id === image.id ? 'bg-primary text-white' : 'text-gray-300 hover:bg-gray-700'}`}
+                >
+                  {image.label}
+                  {trade.annotations?.[image.id]?.length ? <span className="ml-1 text-xs opacity-75">({trade.annotations[image.id].length})</span> : null}
+                </button>
+              ))}
+            </div>
+          </div>
+          <ImageAnnotator
+            src={activeImage.data}
+            alt={`Trade image ${activeImage.label}`}
+            annotations={trade.annotations?.[activeImage.id] ?? []}
+            onSave={annotations => handleSaveAnnotations(activeImage.id, annotations)}
+          />
+        </div>
+      )}
+
+      {trade.history && trade.history.length > 0 && (
+        <div className="bg-gray-800 p-6 rounded-lg shadow-md border border-gray-700">
+          <h3 className="text-lg font-semibold mb-4">Edit History</h3>
+          <ol className="space-y-4">
+            {[...trade.history].reverse().map((edit, index) => (
+              <li key={`${edit.editedAt}-${index}`} className="bg-gray-900 rounded-md p-3">
+                <p className="text-xs text-gray-400 mb-2">{new Date(edit.editedAt).toLocaleString()}</p>
+                <ul className="space-y-1 text-sm">
+                  {edit.changes.map(change => (
+                    <li key={change.field}>
+                      <span className="font-semibold text-gray-300">{change.field}</span>:{' '}
+                      <span className="text-danger line-through">{change.from || 'N/A'}</span>{' → '}
+                      <span className="text-success">{change.to || 'N/A'}</span>
+                    </li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+};
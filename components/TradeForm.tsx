@@ -1,67 +1,260 @@
 
-import React, { useState, FormEvent, useEffect, ChangeEvent, useMemo } from 'react';
-import { Trade, TradeType, Outcome } from '../types';
+import React, { useState, FormEvent, useEffect, useMemo } from 'react';
+import { Trade, TradeType, Outcome, AccountSettings, TradeEvent, TradeEventType, JournalTimezone, Setup, ChecklistCheck, TagDefinition, TagCategory, TradeImage, Annotation } from '../types';
+import { positionSize, riskAmount, formatMoney } from '../services/equity';
+import { hasCloseEvents, eventsR, outcomeForR, formatR } from '../services/tradeMath';
+import { tradeSession, TIMEZONE_OPTIONS } from '../services/tradeTime';
+import { checklistForSetup } from '../services/playbook';
+import { compressImage, createImageId, defaultImageLabel, imageFiles, SUGGESTED_IMAGE_LABELS } from '../services/tradeImages';
+import { ALL, TradeScope } from '../hooks/useTradeScope';
 
 interface TradeFormProps {
   addTrade: (trade: Omit<Trade, 'id'>) => void;
-  onTradeAdded: () => void;
+  updateTrade: (id: string, trade: Omit<Trade, 'id'>) => void;
+  onTradeSaved: () => void;
+  onCancel?: () => void;
+  tradeToEdit?: Trade | null; // When set, the form pre-fills from this trade and saves back under its id
+  instruments: string[]; // Previously used values, offered as suggestions
+  accounts: string[];
+  scope: TradeScope;
+  getAccountSettings: (account?: string) => AccountSettings;
+  getAccountBalance: (account?: string) => number;
+  timezone: JournalTimezone; // Zone new trades are recorded in
+  setups: Setup[];
+  tags: TagDefinition[]; // Known tags, offered as suggestions
+  saveTag: (tag: TagDefinition) => void;
 }
 
-const ImageUploadSlot: React.FC<{
-    label: string;
-    preview: string | null;
-    onChange: (e: ChangeEvent<HTMLInputElement>) => void;
-    onClear: () => void;
+const LAST_CONTEXT_KEY = 'lastTradeContext';
+
+// New trades default to the account/instrument selected in the header, falling back to the last ones used.
+const defaultContext = (scope: TradeScope): { instrument: string; account: string } => {
+  let last = { instrument: '', account: '' };
+  try {
+    last = { ...last, ...JSON.parse(localStorage.getItem(LAST_CONTEXT_KEY) ?? '{}') };
+  } catch (error) {
+    console.error("Error reading last trade context from localStorage", error);
+  }
+  return {
+    instrument: scope.instrument !== ALL ? scope.instrument : last.instrument,
+    account: scope.account !== ALL ? scope.account : last.account,
+  };
+};
+
+// Screenshots can be picked, dropped onto the box or pasted anywhere in the form. Each one gets a
+// label that can be edited here.
+const ImageAttachments: React.FC<{
+    images: TradeImage[];
+    onAdd: (files: File[]) => void;
+    onLabelChange: (id: string, label: string) => void;
+    onRemove: (id: string) => void;
+    isProcessing: boolean;
     disabled: boolean;
-    id: string;
-}> = ({ label, preview, onChange, onClear, disabled, id }) => (
-    <div className={`relative border-2 border-dashed border-gray-600 rounded-lg p-4 flex flex-col items-center justify-center h-40 text-center transition-opacity ${disabled ? 'opacity-50 cursor-not-allowed' : ''}`}>
-        {preview ? (
-            <>
-                <img src={preview} alt={`Preview for ${label}`} className="max-h-full max-w-full rounded" />
-                <button
-                    type="button"
-                    onClick={onClear}
+}> = ({ images, onAdd, onLabelChange, onRemove, isProcessing, disabled }) => {
+    const [isDragging, setIsDragging] = useState(false);
+
+    const handleDrop = (e: React.DragEvent) => {
+        e.preventDefault();
+        setIsDragging(false);
+        if (!disabled) onAdd(imageFiles(e.dataTransfer.files));
+    };
+
+    return (
+        <div className={`space-y-3 transition-opacity ${disabled ? 'opacity-50' : ''}`}>
+            {images.length > 0 && (
+                <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+                    {images.map(image => (
+                        <div key={image.id} className="relative bg-gray-900/50 rounded-lg p-2 space-y-2">
+                            <img src={image.data} alt={image.label} className="h-28 w-full object-contain rounded" />
+                            <input
+                                type="text"
+                                list="image-label-options"
+                                value={image.label}
+                                onChange={e => onLabelChange(image.id, e.target.value)}
+                                disabled={disabled}
+                                aria-label="Image label"
+                                className="w-full bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-xs text-white focus:outline-none focus:ring-primary focus:border-primary"
+                            />
+                            <button
+                                type="button"
+                                onClick={() => onRemove(image.id)}
+                                disabled={disabled}
+                                className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full h-6 w-6 flex items-center justify-center text-xs font-bold disabled:cursor-not-allowed"
+                            >
+                                &times;
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+            <datalist id="image-label-options">
+                {SUGGESTED_IMAGE_LABELS.map(label => <option key={label} value={label} />)}
+            </datalist>
+            <label
+                onDragOver={e => { e.preventDefault(); if (!disabled) setIsDragging(true); }}
+                onDragLeave={() => setIsDragging(false)}
+                onDrop={handleDrop}
+                className={`border-2 border-dashed rounded-lg p-4 flex flex-col items-center justify-center h-28 text-center text-sm transition-colors ${isDragging ? 'border-primary text-primary' : 'border-gray-600 text-gray-400'} ${disabled ? 'cursor-not-allowed' : 'cursor-pointer hover:text-primary'}`}
+            >
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-gray-500 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
+                <span>{isProcessing ? 'Compressing...' : 'Choose, drop or paste screenshots'}</span>
+                <input
+                    type="file"
+                    accept="image/*"
+                    multiple
+                    onChange={e => { onAdd(imageFiles(e.target.files)); e.target.value = ''; }}
+                    className="sr-only"
                     disabled={disabled}
-                    className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full h-6 w-6 flex items-center justify-center text-xs font-bold disabled:cursor-not-allowed"
-                >
-                    &times;
+                />
+            </label>
+        </div>
+    );
+};
+
+
+const toInputValue = (value?: number) => (value !== undefined && value !== null ? value.toString() : '');
+
+// Tags are entered one at a time with suggestions from the tags already in use. A tag that doesn't
+// exist yet is created with the category picked next to the input.
+const TagInput: React.FC<{
+    tags: string[];
+    knownTags: TagDefinition[];
+    onChange: (tags: string[]) => void;
+    onCreateTag: (tag: TagDefinition) => void;
+}> = ({ tags, knownTags, onChange, onCreateTag }) => {
+    const [text, setText] = useState('');
+    const [category, setCategory] = useState<TagCategory>(TagCategory.MISTAKE);
+    const existing = knownTags.find(t => t.name.toLowerCase() === text.trim().toLowerCase());
+
+    const addTag = () => {
+        const name = existing?.name ?? text.trim();
+        if (!name) return;
+        if (!existing) onCreateTag({ name, category });
+        if (!tags.includes(name)) onChange([...tags, name]);
+        setText('');
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        if (e.key === 'Enter' || e.key === ',') {
+            e.preventDefault();
+            addTag();
+        } else if (e.key === 'Backspace' && !text && tags.length > 0) {
+            onChange(tags.slice(0, -1));
+        }
+    };
+
+    const categoryOf = (name: string) => knownTags.find(t => t.name === name)?.category ?? TagCategory.OTHER;
+
+    return (
+        <div className="space-y-2">
+            {tags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                    {tags.map(tag => (
+                        <span key={tag} className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${categoryOf(tag) === TagCategory.MISTAKE ? 'bg-red-900 text-red-300' : 'bg-gray-700 text-gray-200'}`}>
+                            {tag}
+                            <span className="ml-1 text-gray-400">· {categoryOf(tag)}</span>
+                            <button type="button" onClick={() => onChange(tags.filter(t => t !== tag))} className="ml-2 text-gray-400 hover:text-white">&times;</button>
+                        </span>
+                    ))}
+                </div>
+            )}
+            <div className="flex items-center gap-2">
+                <input type="text" list="tag-options" value={text} onChange={e => setText(e.target.value)} onKeyDown={handleKeyDown}
+                       placeholder="e.g., FOMO, moved SL, news"
+                       className="flex-grow bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary" />
+                <select value={existing?.category ?? category} onChange={e => setCategory(e.target.value as TagCategory)} disabled={!!existing || !text.trim()}
+                        title={existing ? 'Existing tag' : 'Category for a new tag'}
+                        className="bg-gray-700 border border-gray-600 rounded-md py-2 px-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary disabled:opacity-50">
+                    {Object.values(TagCategory).map(c => <option key={c} value={c}>{c}</option>)}
+                </select>
+                <button type="button" onClick={addTag} disabled={!text.trim()}
+                        className="py-2 px-3 rounded-md text-sm bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50 disabled:cursor-not-allowed">
+                    Add
                 </button>
-            </>
-        ) : (
-            <>
-                <label htmlFor={id} className={`flex flex-col items-center ${disabled ? '' : 'cursor-pointer text-sm text-gray-400 hover:text-primary'}`}>
-                    <svg xmlns="http://www.w3.org/2000/svg" className="h-8 w-8 text-gray-500 mb-1" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" /></svg>
-                    <span>{label}</span>
-                    <input
-                        id={id}
-                        type="file"
-                        accept="image/*"
-                        onChange={onChange}
-                        className="sr-only"
-                        disabled={disabled}
-                    />
-                </label>
-            </>
-        )}
-    </div>
-);
-
-
-export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded }) => {
-  const [date, setDate] = useState(new Date().toISOString().split('T')[0]);
-  const [outcome, setOutcome] = useState<Outcome>(Outcome.TP);
-  const [type, setType] = useState<TradeType | undefined>(TradeType.BUY);
-  const [slSize, setSlSize] = useState('');
-  const [tpSize, setTpSize] = useState('');
-  const [rangeSize, setRangeSize] = useState('');
-  const [rr, setRr] = useState('');
-  const [activationTime, setActivationTime] = useState('');
-  const [slSweepNotes, setSlSweepNotes] = useState('');
-  const [images, setImages] = useState<{ [key: string]: string | null }>({ before: null, after: null, metatrader: null });
-  const [imagePreviews, setImagePreviews] = useState<{ [key: string]: string | null }>({ before: null, after: null, metatrader: null });
-  const [isUploading, setIsUploading] = useState(false);
-  const [notes, setNotes] = useState('');
+            </div>
+            <datalist id="tag-options">
+                {knownTags.filter(t => !tags.includes(t.name)).map(t => <option key={t.name} value={t.name}>{t.category}</option>)}
+            </datalist>
+        </div>
+    );
+};
+
+const EVENT_LABELS: { [key in TradeEventType]: string } = {
+  [TradeEventType.ENTRY]: 'Entry',
+  [TradeEventType.PARTIAL_CLOSE]: 'Partial close',
+  [TradeEventType.MOVE_SL_TO_BE]: 'Stop moved to BE',
+  [TradeEventType.EXIT]: 'Final exit',
+};
+
+const TradeEventsEditor: React.FC<{
+    events: TradeEvent[];
+    onChange: (events: TradeEvent[]) => void;
+    disabled: boolean;
+}> = ({ events, onChange, disabled }) => {
+    const updateEvent = (index: number, changes: Partial<TradeEvent>) => {
+        onChange(events.map((event, i) => (i === index ? { ...event, ...changes } : event)));
+    };
+    const removeEvent = (index: number) => onChange(events.filter((_, i) => i !== index));
+    const addEvent = () => {
+        const type = events.length === 0 ? TradeEventType.ENTRY : TradeEventType.PARTIAL_CLOSE;
+        onChange([...events, { type }]);
+    };
+    const parseOptional = (value: string) => (value === '' ? undefined : parseFloat(value));
+    const cellClasses = "bg-gray-700 border border-gray-600 rounded-md py-1 px-2 text-sm text-white focus:outline-none focus:ring-primary focus:border-primary disabled:opacity-50";
+
+    return (
+        <div className="space-y-2">
+            {events.map((event, index) => {
+                const isClose = event.type === TradeEventType.PARTIAL_CLOSE || event.type === TradeEventType.EXIT;
+                return (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                        <select value={event.type} onChange={e => updateEvent(index, { type: e.target.value as TradeEventType })} disabled={disabled} className={cellClasses}>
+                            {Object.values(TradeEventType).map(t => <option key={t} value={t}>{EVENT_LABELS[t]}</option>)}
+                        </select>
+                        <input type="time" value={event.time ?? ''} onChange={e => updateEvent(index, { time: e.target.value || undefined })} disabled={disabled} className={cellClasses} />
+                        {isClose && (
+                            <>
+                                <input type="number" step="any" min="0" max="100" value={event.size ?? ''} onChange={e => updateEvent(index, { size: parseOptional(e.target.value) })}
+                                       placeholder={event.type === TradeEventType.EXIT ? 'Size % (rest)' : 'Size %'} disabled={disabled} className={`${cellClasses} w-28`} />
+                                <input type="number" step="any" value={event.r ?? ''} onChange={e => updateEvent(index, { r: parseOptional(e.target.value) })}
+                                       placeholder="R" disabled={disabled} className={`${cellClasses} w-20`} />
+                            </>
+                        )}
+                        <input type="text" value={event.note ?? ''} onChange={e => updateEvent(index, { note: e.target.value || undefined })}
+                               placeholder="Note" disabled={disabled} className={`${cellClasses} flex-grow min-w-[8rem]`} />
+                        <button type="button" onClick={() => removeEvent(index)} disabled={disabled} className="text-danger hover:text-red-400 text-lg font-bold px-1 disabled:cursor-not-allowed">&times;</button>
+                    </div>
+                );
+            })}
+            <button type="button" onClick={addEvent} disabled={disabled} className="text-sm text-primary hover:underline disabled:opacity-50 disabled:cursor-not-allowed">
+                + Add event
+            </button>
+        </div>
+    );
+};
+
+export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, updateTrade, onTradeSaved, onCancel, tradeToEdit, instruments, accounts, scope, getAccountSettings, getAccountBalance, timezone, setups, tags: knownTags, saveTag }) => {
+  const isEditing = !!tradeToEdit;
+  const [date, setDate] = useState(tradeToEdit ? tradeToEdit.date.split('T')[0] : new Date().toISOString().split('T')[0]);
+  const [instrument, setInstrument] = useState(() => (tradeToEdit ? tradeToEdit.instrument ?? '' : defaultContext(scope).instrument));
+  const [account, setAccount] = useState(() => (tradeToEdit ? tradeToEdit.account ?? '' : defaultContext(scope).account));
+  const [outcome, setOutcome] = useState<Outcome>(tradeToEdit?.outcome ?? Outcome.TP);
+  const [type, setType] = useState<TradeType | undefined>(tradeToEdit ? tradeToEdit.type : TradeType.BUY);
+  const [slSize, setSlSize] = useState(toInputValue(tradeToEdit?.slSize));
+  const [tpSize, setTpSize] = useState(toInputValue(tradeToEdit?.tpSize));
+  const [rangeSize, setRangeSize] = useState(toInputValue(tradeToEdit?.rangeSize));
+  const [rr, setRr] = useState(toInputValue(tradeToEdit?.rr));
+  const [pnl, setPnl] = useState(toInputValue(tradeToEdit?.pnl));
+  const [activationTime, setActivationTime] = useState(tradeToEdit?.activationTime ?? '');
+  const [slSweepNotes, setSlSweepNotes] = useState(tradeToEdit?.slSweepNotes ?? '');
+  const [events, setEvents] = useState<TradeEvent[]>(tradeToEdit?.events ?? []);
+  const [setup, setSetup] = useState(tradeToEdit?.setup ?? '');
+  const [checklist, setChecklist] = useState<ChecklistCheck[]>(tradeToEdit?.checklist ?? []);
+  const [tags, setTags] = useState<string[]>(tradeToEdit?.tags ?? []);
+  const [images, setImages] = useState<TradeImage[]>(tradeToEdit?.images ?? []);
+  const [processingCount, setProcessingCount] = useState(0);
+  const isUploading = processingCount > 0;
+  const [notes, setNotes] = useState(tradeToEdit?.notes ?? '');
 
   const dayOfWeek = useMemo(() => {
     if (!date) return '';
@@ -72,52 +265,86 @@ export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded })
 
   const isNoTradeDay = outcome === Outcome.NO_TRADE;
 
+  // Edited trades keep the zone they were recorded in, even if the journal's zone has changed since.
+  const recordedZone = tradeToEdit?.timezone ?? timezone;
+  const session = useMemo(() => tradeSession({ date, activationTime, timezone: recordedZone, outcome, notes: '' }, timezone),
+    [date, activationTime, recordedZone, outcome, timezone]);
+
+  // Once the events record how the position was closed, they decide the result.
+  const eventsResultR = useMemo(() => (hasCloseEvents(events) ? eventsR(events) : null), [events]);
+  const derivedOutcome = eventsResultR !== null ? outcomeForR(eventsResultR) : null;
+
+  const sizing = useMemo(() => {
+    const settings = getAccountSettings(account.trim() || undefined);
+    const balance = getAccountBalance(account.trim() || undefined);
+    return {
+      settings,
+      balance,
+      risk: riskAmount(settings, balance),
+      lots: positionSize(settings, balance, parseFloat(slSize)),
+    };
+  }, [account, slSize, getAccountSettings, getAccountBalance]);
+
   useEffect(() => {
     if (isNoTradeDay) {
       setType(undefined);
       setSlSize('');
       setTpSize('');
       setRr('');
+      setPnl('');
       setActivationTime('');
       setSlSweepNotes('');
-      setImages({ before: null, after: null, metatrader: null });
-      setImagePreviews({ before: null, after: null, metatrader: null });
+      setEvents([]);
+      setImages([]);
     } else if (type === undefined) {
       setType(TradeType.BUY);
     }
   }, [outcome, isNoTradeDay, type]);
 
-  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>, key: string) => {
-    const file = e.target.files?.[0];
-    if (!file) return;
+  // Picking a setup starts a fresh copy of its checklist and fills in its default SL/TP where empty.
+  const handleSetupChange = (name: string) => {
+    setSetup(name);
+    const selected = setups.find(s => s.name === name);
+    setChecklist(selected ? checklistForSetup(selected) : []);
+    if (!selected || isNoTradeDay) return;
+    if (!slSize && selected.defaultSlSize !== undefined) setSlSize(selected.defaultSlSize.toString());
+    if (!tpSize && selected.defaultTpSize !== undefined) setTpSize(selected.defaultTpSize.toString());
+  };
 
-    setIsUploading(true);
+  const toggleCheck = (index: number) => {
+    setChecklist(prev => prev.map((check, i) => (i === index ? { ...check, checked: !check.checked } : check)));
+  };
 
-    const previewUrl = URL.createObjectURL(file);
-    setImagePreviews(prev => ({ ...prev, [key]: previewUrl }));
+  // Each file is compressed before it's added; the form can't be saved until they're all done.
+  const addImages = (files: File[]) => {
+    files.forEach(async file => {
+      setProcessingCount(count => count + 1);
+      try {
+        const data = await compressImage(file);
+        setImages(prev => [...prev, { id: createImageId(), label: defaultImageLabel(file, prev), data }]);
+      } catch (error) {
+        console.error("Error processing image", error);
+        alert(`Could not read the image "${file.name}".`);
+      } finally {
+        setProcessingCount(count => count - 1);
+      }
+    });
+  };
 
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-        const base64String = reader.result as string;
-        setImages(prev => ({ ...prev, [key]: base64String }));
-        setIsUploading(false);
-    };
-    reader.onerror = (error) => {
-        console.error("Error converting file to base64", error);
-        setIsUploading(false);
-    };
-    e.target.value = ''; // Allow re-uploading the same file
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = imageFiles(e.clipboardData.files);
+    if (files.length === 0 || isNoTradeDay) return;
+    e.preventDefault();
+    addImages(files);
   };
 
-  const clearImage = (key: string) => {
-    setImages(prev => ({ ...prev, [key]: null }));
-    
-    if (imagePreviews[key]) {
-        URL.revokeObjectURL(imagePreviews[key]!);
-    }
-    setImagePreviews(prev => ({ ...prev, [key]: null }));
-  }
+  const updateImageLabel = (id: string, label: string) => {
+    setImages(prev => prev.map(image => (image.id === id ? { ...image, label } : image)));
+  };
+
+  const removeImage = (id: string) => {
+    setImages(prev => prev.filter(image => image.id !== id));
+  };
 
   const handleSubmit = (e: FormEvent) => {
     e.preventDefault();
@@ -126,50 +353,64 @@ export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded })
         return;
     }
     
-    const finalImages = Object.fromEntries(
-        Object.entries(images).filter(([_, value]) => value !== null)
+    const finalImages = images.map(image => ({ ...image, label: image.label.trim() || 'Screenshot' }));
+    // Annotations are drawn on the trade page; drop those of screenshots that were removed.
+    const keptAnnotations = Object.fromEntries(
+        Object.entries<Annotation[]>(tradeToEdit?.annotations ?? {}).filter(([imageId]) => images.some(image => image.id === imageId))
     );
 
     const tradeData: Omit<Trade, 'id'> = {
       date,
-      outcome,
+      timezone: recordedZone,
+      outcome: !isNoTradeDay && derivedOutcome ? derivedOutcome : outcome,
+      instrument: instrument.trim() || undefined,
+      account: account.trim() || undefined,
+      setup: setup || undefined,
+      checklist: setup && checklist.length > 0 ? checklist : undefined,
       notes,
+      tags: tags.length > 0 ? tags : undefined,
       rangeSize: rangeSize ? parseFloat(rangeSize) : undefined,
       images: finalImages,
+      annotations: Object.keys(keptAnnotations).length > 0 ? keptAnnotations : undefined,
+      ticket: tradeToEdit?.ticket, // Not editable; kept so re-importing the statement still skips the trade
       ...( !isNoTradeDay ? {
           type: type!,
           slSize: slSize ? parseFloat(slSize) : undefined,
           tpSize: tpSize ? parseFloat(tpSize) : undefined,
           rr: rr ? parseFloat(rr) : undefined,
+          pnl: pnl ? parseFloat(pnl) : undefined,
           activationTime: activationTime || undefined,
           slSweepNotes: slSweepNotes || undefined,
+          events: events.length > 0 ? events : undefined,
       } : {
           type: undefined,
           slSize: undefined,
           tpSize: undefined,
           rr: undefined,
+          pnl: undefined,
           activationTime: undefined,
           slSweepNotes: undefined,
+          events: undefined,
       })
     };
 
-    addTrade(tradeData);
-    onTradeAdded();
+    localStorage.setItem(LAST_CONTEXT_KEY, JSON.stringify({ instrument: instrument.trim(), account: account.trim() }));
+
+    if (tradeToEdit) {
+      updateTrade(tradeToEdit.id, tradeData);
+    } else {
+      addTrade(tradeData);
+    }
+    onTradeSaved();
   };
   
   const disabledClasses = "disabled:bg-gray-700/50 disabled:cursor-not-allowed disabled:opacity-70";
   const inputClasses = `w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary ${disabledClasses}`;
 
-  const imageSlots = [
-    { key: 'before', label: 'Before Trade' },
-    { key: 'after', label: 'After Trade' },
-    { key: 'metatrader', label: 'MetaTrader Screen' },
-  ];
-
   return (
     <div className="max-w-2xl mx-auto bg-gray-800 p-8 rounded-lg shadow-lg border border-gray-700">
-      <h2 className="text-2xl font-bold text-primary mb-6">Log a New Trade</h2>
-      <form onSubmit={handleSubmit} className="space-y-6">
+      <h2 className="text-2xl font-bold text-primary mb-6">{isEditing ? 'Edit Trade' : 'Log a New Trade'}</h2>
+      <form onSubmit={handleSubmit} onPaste={handlePaste} className="space-y-6">
         <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
           <div>
             <label htmlFor="date" className="block text-sm font-medium text-gray-300 mb-1">Date</label>
@@ -181,13 +422,63 @@ export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded })
           </div>
           <div>
             <label htmlFor="outcome" className="block text-sm font-medium text-gray-300 mb-1">Outcome</label>
-            <select id="outcome" value={outcome} onChange={e => setOutcome(e.target.value as Outcome)} required
-                    className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary">
+            <select id="outcome" value={derivedOutcome ?? outcome} onChange={e => setOutcome(e.target.value as Outcome)} required
+                    disabled={derivedOutcome !== null}
+                    className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary disabled:opacity-70 disabled:cursor-not-allowed">
               {Object.values(Outcome).map(o => <option key={o} value={o}>{o}</option>)}
             </select>
+            {derivedOutcome !== null && (
+              <p className="text-xs text-gray-400 mt-1">
+                Derived from trade management: {formatR(eventsResultR)}
+                {!events.some(event => event.type === TradeEventType.EXIT) && ' (any part not closed yet counts at the stop until an exit is added)'}
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+          <div>
+            <label htmlFor="instrument" className="block text-sm font-medium text-gray-300 mb-1">Instrument</label>
+            <input type="text" id="instrument" list="instrument-options" value={instrument} onChange={e => setInstrument(e.target.value.toUpperCase())}
+                   placeholder="e.g., EURUSD"
+                   className={inputClasses} />
+            <datalist id="instrument-options">
+              {instruments.map(i => <option key={i} value={i} />)}
+            </datalist>
+          </div>
+          <div>
+            <label htmlFor="account" className="block text-sm font-medium text-gray-300 mb-1">Account</label>
+            <input type="text" id="account" list="account-options" value={account} onChange={e => setAccount(e.target.value)}
+                   placeholder="e.g., Live, Demo, Prop Firm"
+                   className={inputClasses} />
+            <datalist id="account-options">
+              {accounts.map(a => <option key={a} value={a} />)}
+            </datalist>
           </div>
         </div>
 
+        <div>
+          <label htmlFor="setup" className="block text-sm font-medium text-gray-300 mb-1">Setup</label>
+          <select id="setup" value={setup} onChange={e => handleSetupChange(e.target.value)} className={inputClasses}>
+            <option value="">No setup</option>
+            {/* Keep a setup that has since been renamed or deleted selectable on the trades that used it. */}
+            {setup && !setups.some(s => s.name === setup) && <option value={setup}>{setup}</option>}
+            {setups.map(s => <option key={s.id} value={s.name}>{s.name}</option>)}
+          </select>
+          {setups.length === 0 && <p className="text-xs text-gray-500 mt-1">Add setups and their checklists under Playbooks.</p>}
+          {checklist.length > 0 && (
+            <div className="mt-3 bg-gray-900/50 rounded-md p-4 space-y-2">
+              <p className="text-sm font-medium text-gray-200">Entry Checklist</p>
+              {checklist.map((check, index) => (
+                <label key={index} className="flex items-center space-x-2 text-sm text-gray-300 cursor-pointer">
+                  <input type="checkbox" checked={check.checked} onChange={() => toggleCheck(index)}
+                         className="h-4 w-4 text-primary bg-gray-700 border-gray-600 rounded focus:ring-primary" />
+                  <span>{check.item}</span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
         
           <>
             <div className={isNoTradeDay ? 'opacity-50' : ''}>
@@ -217,6 +508,24 @@ export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded })
                 <input type="number" step="any" id="slSize" value={slSize} onChange={e => setSlSize(e.target.value)} disabled={isNoTradeDay}
                        className={inputClasses} />
               </div>
+            </div>
+            {!isNoTradeDay && (
+              <div className="bg-gray-900/50 rounded-md p-4 text-sm text-gray-300">
+                <p className="font-medium text-gray-200 mb-1">Position Size</p>
+                <p>
+                  Risk {formatMoney(sizing.risk, sizing.settings.currency)}
+                  {sizing.settings.riskMode === 'percent' && ` (${sizing.settings.riskValue}% of ${formatMoney(sizing.balance, sizing.settings.currency)})`}
+                  {sizing.lots !== null
+                    ? <> &rarr; <span className="font-bold text-primary">{sizing.lots.toFixed(2)} lots</span> for a {slSize}-pip stop</>
+                    : ' — enter an SL size to calculate lots.'}
+                </p>
+              </div>
+            )}
+             <div>
+                <label htmlFor="pnl" className="block text-sm font-medium text-gray-300 mb-1">Actual P&L ({sizing.settings.currency})</label>
+                <input type="number" step="any" id="pnl" value={pnl} onChange={e => setPnl(e.target.value)} disabled={isNoTradeDay}
+                       placeholder="Net of commissions; leave blank to estimate from R"
+                       className={inputClasses} />
             </div>
              <div>
                 <label htmlFor="rangeSize" className="block text-sm font-medium text-gray-300 mb-1">Range Size (pips/points)</label>
@@ -227,13 +536,23 @@ export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded })
              <div>
                 <label htmlFor="rr" className="block text-sm font-medium text-gray-300 mb-1">R/R Taken</label>
                 <input type="number" step="any" id="rr" value={rr} onChange={e => setRr(e.target.value)} disabled={isNoTradeDay}
-                       placeholder="e.g., 2.5 (Overrides TP/SL calculation)"
+                       placeholder="e.g., 2.5 (Overrides TP/SL calculation), or -1.3 for a loss bigger than planned"
                        className={inputClasses} />
+            </div>
+            <div className={isNoTradeDay ? 'opacity-50' : ''}>
+                <label className="block text-sm font-medium text-gray-300 mb-1">Trade Management</label>
+                <p className="text-xs text-gray-500 mb-2">
+                  Record scaling out, moving the stop to break-even and the final exit. When closes are recorded, the outcome and R come from them.
+                </p>
+                <TradeEventsEditor events={events} onChange={setEvents} disabled={isNoTradeDay} />
             </div>
              <div>
                 <label htmlFor="activationTime" className="block text-sm font-medium text-gray-300 mb-1">Candle Activation Time</label>
                 <input type="time" id="activationTime" value={activationTime} onChange={e => setActivationTime(e.target.value)} disabled={isNoTradeDay}
                        className={inputClasses} />
+                <p className="text-xs text-gray-500 mt-1">
+                  {TIMEZONE_OPTIONS.find(o => o.value === recordedZone)?.label}{session ? ` · Session: ${session}` : ''}
+                </p>
             </div>
              <div>
                 <label htmlFor="slSweepNotes" className="block text-sm font-medium text-gray-300 mb-1">Candle Sweep Notes</label>
@@ -243,19 +562,14 @@ export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded })
             </div>
             <div>
                 <label className="block text-sm font-medium text-gray-300 mb-2">Trade Images</label>
-                 <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
-                     {imageSlots.map(slot => (
-                        <ImageUploadSlot 
-                            key={slot.key}
-                            id={`image-${slot.key}`}
-                            label={slot.label}
-                            preview={imagePreviews[slot.key]}
-                            onChange={(e) => handleImageChange(e, slot.key)}
-                            onClear={() => clearImage(slot.key)}
-                            disabled={isNoTradeDay}
-                        />
-                     ))}
-                 </div>
+                 <ImageAttachments
+                     images={images}
+                     onAdd={addImages}
+                     onLabelChange={updateImageLabel}
+                     onRemove={removeImage}
+                     isProcessing={isUploading}
+                     disabled={isNoTradeDay}
+                 />
             </div>
           </>
         
@@ -267,11 +581,22 @@ export const TradeForm: React.FC<TradeFormProps> = ({ addTrade, onTradeAdded })
                     className="w-full bg-gray-700 border border-gray-600 rounded-md shadow-sm py-2 px-3 text-white focus:outline-none focus:ring-primary focus:border-primary"></textarea>
         </div>
 
-        <div className="flex justify-end">
+        <div>
+          <label className="block text-sm font-medium text-gray-300 mb-1">Tags</label>
+          <TagInput tags={tags} knownTags={knownTags} onChange={setTags} onCreateTag={saveTag} />
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          {onCancel && (
+            <button type="button" onClick={onCancel}
+                    className="inline-flex justify-center py-2 px-6 border border-gray-600 shadow-sm text-sm font-medium rounded-md text-gray-300 hover:bg-gray-700 transition-colors">
+              Cancel
+            </button>
+          )}
           <button type="submit"
                   disabled={isUploading}
                   className="inline-flex justify-center py-2 px-6 border border-transparent shadow-sm text-sm font-medium rounded-md text-white bg-primary hover:bg-green-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-primary transition-colors disabled:bg-gray-600 disabled:cursor-not-allowed">
-            {isUploading ? 'Processing...' : 'Add Trade'}
+            {isUploading ? 'Processing...' : isEditing ? 'Save Changes' : 'Add Trade'}
           </button>
         </div>
       </form>
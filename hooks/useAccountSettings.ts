@@ -0,0 +1,45 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AccountSettings } from '../types';
+
+// Settings stored under this key apply to trades without an account and to accounts not configured separately.
+export const DEFAULT_ACCOUNT_KEY = '';
+
+export const DEFAULT_ACCOUNT_SETTINGS: AccountSettings = {
+  startingBalance: 10000,
+  currency: 'USD',
+  riskMode: 'percent',
+  riskValue: 1,
+  commissionPerTrade: 0,
+  pipValuePerLot: 10,
+};
+
+const STORAGE_KEY = 'accountSettings';
+
+export const useAccountSettings = () => {
+  const [settingsByAccount, setSettingsByAccount] = useState<{ [account: string]: AccountSettings }>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error("Error reading account settings from localStorage", error);
+      return {};
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settingsByAccount));
+  }, [settingsByAccount]);
+
+  // Memoised so components can use it as a dependency of their own memos.
+  const getAccountSettings = useCallback((account?: string): AccountSettings =>
+    (account && settingsByAccount[account]) || settingsByAccount[DEFAULT_ACCOUNT_KEY] || DEFAULT_ACCOUNT_SETTINGS,
+  [settingsByAccount]);
+
+  const saveAccountSettings = (account: string, settings: AccountSettings) => {
+    setSettingsByAccount(prev => ({ ...prev, [account]: settings }));
+  };
+
+  const hasOwnSettings = (account: string) => !!settingsByAccount[account];
+
+  return { getAccountSettings, saveAccountSettings, hasOwnSettings };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { AiSettings, AiProviderKind } from '../types';
+
+const AI_SETTINGS_KEY = 'aiSettings';
+
+// Gemini with the key the app was built with, as before providers could be chosen.
+export const DEFAULT_AI_SETTINGS: AiSettings = { provider: AiProviderKind.GEMINI, model: 'gemini-2.5-pro' };
+
+// Which AI service answers the analyzer and writes report reviews. The API key is stored in this
+// browser's localStorage, never in the journal exports.
+export const useAiSettings = () => {
+  const [aiSettings, setAiSettings] = useState<AiSettings>(() => {
+    try {
+      const saved = localStorage.getItem(AI_SETTINGS_KEY);
+      return saved ? { ...DEFAULT_AI_SETTINGS, ...JSON.parse(saved) } : DEFAULT_AI_SETTINGS;
+    } catch (error) {
+      console.error("Error reading AI settings from localStorage", error);
+      return DEFAULT_AI_SETTINGS;
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(aiSettings));
+  }, [aiSettings]);
+
+  return { aiSettings, saveAiSettings: setAiSettings };
+};
@@ -0,0 +1,46 @@
+import { useState, useEffect } from 'react';
+import { ChatConversation } from '../types';
+
+const CONVERSATIONS_KEY = 'aiConversations';
+
+// Only the most recently used conversations are kept, so localStorage doesn't fill up.
+const MAX_CONVERSATIONS = 50;
+
+const readConversations = (): ChatConversation[] => {
+  try {
+    const saved = localStorage.getItem(CONVERSATIONS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error("Error reading AI conversations from localStorage", error);
+    return [];
+  }
+};
+
+const withConversation = (conversations: ChatConversation[], conversation: ChatConversation) =>
+  [conversation, ...conversations.filter(c => c.id !== conversation.id)].slice(0, MAX_CONVERSATIONS);
+
+// Saves a conversation straight to localStorage, for when the chat was closed while a reply was
+// streaming and the hook's state is gone by the time it has to be saved.
+export const storeConversation = (conversation: ChatConversation) => {
+  localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(withConversation(readConversations(), conversation)));
+};
+
+// AI chat conversations, most recently updated first.
+export const useConversations = () => {
+  const [conversations, setConversations] = useState<ChatConversation[]>(readConversations);
+
+  useEffect(() => {
+    localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations));
+  }, [conversations]);
+
+  // Adds the conversation, or replaces the saved one with the same id.
+  const saveConversation = (conversation: ChatConversation) => {
+    setConversations(prev => withConversation(prev, conversation));
+  };
+
+  const deleteConversation = (id: string) => {
+    setConversations(prev => prev.filter(c => c.id !== id));
+  };
+
+  return { conversations, saveConversation, deleteConversation };
+};
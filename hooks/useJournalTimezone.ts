@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { JournalTimezone } from '../types';
+import { savedJournalTimezone, JOURNAL_TIMEZONE_KEY } from '../services/tradeTime';
+
+// The zone new trades are recorded in and every chart groups days, hours and sessions by.
+export const useJournalTimezone = () => {
+  const [timezone, setTimezone] = useState<JournalTimezone>(savedJournalTimezone);
+
+  useEffect(() => {
+    localStorage.setItem(JOURNAL_TIMEZONE_KEY, timezone);
+  }, [timezone]);
+
+  return { timezone, setTimezone };
+};
@@ -0,0 +1,41 @@
+import { useState, useEffect } from 'react';
+import { Setup } from '../types';
+import { ImportMode, mergeNamed } from '../services/journalTransfer';
+
+const STORAGE_KEY = 'playbooks';
+
+// Named trade setups with their entry checklists and default SL/TP sizes.
+export const usePlaybooks = () => {
+  const [setups, setSetups] = useState<Setup[]>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error reading playbooks from localStorage", error);
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(setups));
+  }, [setups]);
+
+  // Adds the setup, or replaces the one with the same id.
+  const saveSetup = (setup: Setup) => {
+    setSetups(prev => {
+      const exists = prev.some(s => s.id === setup.id);
+      const next = exists ? prev.map(s => (s.id === setup.id ? setup : s)) : [...prev, setup];
+      return next.sort((a, b) => a.name.localeCompare(b.name));
+    });
+  };
+
+  const deleteSetup = (id: string) => {
+    setSetups(prev => prev.filter(s => s.id !== id));
+  };
+
+  const importSetups = (imported: Setup[], mode: ImportMode) => {
+    setSetups(prev => mergeNamed(prev, imported, mode).sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  return { setups, saveSetup, deleteSetup, importSetups };
+};
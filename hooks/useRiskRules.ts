@@ -0,0 +1,59 @@
+import { useState, useEffect } from 'react';
+import { RiskRules, RuleBreach } from '../types';
+import { ImportMode, mergeRiskRules } from '../services/journalTransfer';
+
+const RULES_KEY = 'riskRules';
+const BREACHES_KEY = 'ruleBreaches';
+
+const breachKey = (breach: Pick<RuleBreach, 'rule' | 'tradeId'>) => `${breach.rule}:${breach.tradeId}`;
+
+// The rules, and a log of breaches as they were caught. The log is kept separately from the
+// trades so it still shows what happened after the rules are changed.
+export const useRiskRules = () => {
+  const [rules, setRules] = useState<RiskRules>(() => {
+    try {
+      const saved = localStorage.getItem(RULES_KEY);
+      return saved ? JSON.parse(saved) : {};
+    } catch (error) {
+      console.error("Error reading risk rules from localStorage", error);
+      return {};
+    }
+  });
+
+  const [breaches, setBreaches] = useState<RuleBreach[]>(() => {
+    try {
+      const saved = localStorage.getItem(BREACHES_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error reading rule breaches from localStorage", error);
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(RULES_KEY, JSON.stringify(rules));
+  }, [rules]);
+
+  useEffect(() => {
+    localStorage.setItem(BREACHES_KEY, JSON.stringify(breaches));
+  }, [breaches]);
+
+  // Breaches already in the log are skipped, so the same trade can be checked again safely.
+  const recordBreaches = (found: Omit<RuleBreach, 'recordedAt'>[]) => {
+    if (found.length === 0) return;
+    const recordedAt = new Date().toISOString();
+    setBreaches(prev => {
+      const known = new Set(prev.map(breachKey));
+      const added = found.filter(b => !known.has(breachKey(b))).map(b => ({ ...b, recordedAt }));
+      return added.length > 0 ? [...prev, ...added] : prev;
+    });
+  };
+
+  const clearBreaches = () => setBreaches([]);
+
+  const importRules = (imported: RiskRules, mode: ImportMode) => {
+    setRules(prev => mergeRiskRules(prev, imported, mode));
+  };
+
+  return { rules, saveRules: setRules, importRules, breaches, recordBreaches, clearBreaches };
+};
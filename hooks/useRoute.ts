@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Route, parseRoute, routeToHash } from '../services/routes';
+
+// The current route, kept in step with the URL hash so back/forward, refresh and links all work.
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => setRoute(parseRoute(window.location.hash));
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Replacing skips the history entry, e.g. when leaving a form after saving so Back doesn't reopen it.
+  const navigate = useCallback((next: Route, options: { replace?: boolean } = {}) => {
+    const hash = routeToHash(next);
+    if (options.replace) {
+      window.history.replaceState(null, '', hash);
+      setRoute(parseRoute(hash));
+    } else if (window.location.hash !== hash) {
+      window.location.hash = hash;
+    }
+    window.scrollTo(0, 0);
+  }, []);
+
+  return { route, navigate };
+};
@@ -0,0 +1,49 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Trade, TagDefinition, TagCategory } from '../types';
+import { ImportMode, mergeNamed } from '../services/journalTransfer';
+
+const STORAGE_KEY = 'tagDefinitions';
+
+// Tags found on trades without a definition, e.g. from an import, are listed under Other.
+export const useTags = (trades: Trade[]) => {
+  const [definitions, setDefinitions] = useState<TagDefinition[]>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : [];
+    } catch (error) {
+      console.error("Error reading tag definitions from localStorage", error);
+      return [];
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(definitions));
+  }, [definitions]);
+
+  const tags = useMemo(() => {
+    const byName = new Map<string, TagDefinition>(definitions.map(d => [d.name, d]));
+    trades.forEach(trade => trade.tags?.forEach(name => {
+      if (!byName.has(name)) byName.set(name, { name, category: TagCategory.OTHER });
+    }));
+    return Array.from(byName.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [definitions, trades]);
+
+  const saveTag = (tag: TagDefinition) => {
+    setDefinitions(prev => [...prev.filter(d => d.name !== tag.name), tag]);
+  };
+
+  // The tag keeps its category, unless it is merged into a tag that already has one.
+  const renameTagDefinition = (from: string, to: string) => {
+    setDefinitions(prev => {
+      const definition = prev.find(d => d.name === from);
+      const rest = prev.filter(d => d.name !== from);
+      return definition && !rest.some(d => d.name === to) ? [...rest, { ...definition, name: to }] : rest;
+    });
+  };
+
+  const importTags = (imported: TagDefinition[], mode: ImportMode) => {
+    setDefinitions(prev => mergeNamed(prev, imported, mode));
+  };
+
+  return { tags, saveTag, renameTagDefinition, importTags };
+};
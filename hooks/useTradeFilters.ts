@@ -0,0 +1,58 @@
+import { useState, useEffect } from 'react';
+import { TradeQuery, FilterPreset, FilterField, EMPTY_QUERY, renameFilterValue } from '../services/tradeFilters';
+import { ImportMode, mergeNamed } from '../services/journalTransfer';
+
+const QUERY_KEY = 'tradeFilters';
+const PRESETS_KEY = 'filterPresets';
+
+const readJSON = <T>(key: string, fallback: T): T => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved ? JSON.parse(saved) : fallback;
+  } catch (error) {
+    console.error(`Error reading ${key} from localStorage`, error);
+    return fallback;
+  }
+};
+
+// The dashboard's filters live here rather than in the Dashboard, so they are kept when switching
+// views and across reloads, together with the named presets.
+export const useTradeFilters = () => {
+  const [query, setQuery] = useState<TradeQuery>(() => readJSON(QUERY_KEY, EMPTY_QUERY));
+  const [presets, setPresets] = useState<FilterPreset[]>(() => readJSON(PRESETS_KEY, []));
+
+  useEffect(() => {
+    localStorage.setItem(QUERY_KEY, JSON.stringify(query));
+  }, [query]);
+
+  useEffect(() => {
+    localStorage.setItem(PRESETS_KEY, JSON.stringify(presets));
+  }, [presets]);
+
+  // Saving under an existing name replaces that preset.
+  const savePreset = (name: string) => {
+    setPresets(prev => {
+      const existing = prev.find(p => p.name === name);
+      const preset: FilterPreset = { id: existing?.id ?? new Date().toISOString() + Math.random(), name, query };
+      return [...prev.filter(p => p.id !== preset.id), preset].sort((a, b) => a.name.localeCompare(b.name));
+    });
+  };
+
+  const deletePreset = (id: string) => {
+    setPresets(prev => prev.filter(p => p.id !== id));
+  };
+
+  const resetQuery = () => setQuery(EMPTY_QUERY);
+
+  // Keeps the filters and presets pointing at a setup or tag after it is renamed.
+  const renameFilterValues = (field: FilterField, from: string, to: string) => {
+    setQuery(prev => renameFilterValue(prev, field, from, to));
+    setPresets(prev => prev.map(preset => ({ ...preset, query: renameFilterValue(preset.query, field, from, to) })));
+  };
+
+  const importPresets = (imported: FilterPreset[], mode: ImportMode) => {
+    setPresets(prev => mergeNamed(prev, imported, mode).sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  return { query, setQuery, resetQuery, presets, savePreset, deletePreset, renameFilterValues, importPresets };
+};
@@ -0,0 +1,44 @@
+import { useState, useEffect, useMemo } from 'react';
+import { Trade } from '../types';
+
+export const ALL = 'all';
+
+export interface TradeScope {
+  account: string; // An account name, or ALL
+  instrument: string; // An instrument symbol, or ALL
+}
+
+const STORAGE_KEY = 'tradeScope';
+
+// Sorted distinct non-empty values of a string field across all trades.
+export const distinctValues = (trades: Trade[], key: 'instrument' | 'account'): string[] =>
+  Array.from(new Set(trades.map(t => t[key]).filter((v): v is string => !!v))).sort((a, b) => a.localeCompare(b));
+
+export const filterByScope = (trades: Trade[], scope: TradeScope): Trade[] =>
+  trades.filter(t =>
+    (scope.account === ALL || t.account === scope.account) &&
+    (scope.instrument === ALL || t.instrument === scope.instrument)
+  );
+
+// The account/instrument switcher shown in the header. The selection is remembered across reloads.
+export const useTradeScope = (trades: Trade[]) => {
+  const [scope, setScope] = useState<TradeScope>(() => {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      return saved ? JSON.parse(saved) : { account: ALL, instrument: ALL };
+    } catch (error) {
+      console.error("Error reading trade scope from localStorage", error);
+      return { account: ALL, instrument: ALL };
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(scope));
+  }, [scope]);
+
+  const accounts = useMemo(() => distinctValues(trades, 'account'), [trades]);
+  const instruments = useMemo(() => distinctValues(trades, 'instrument'), [trades]);
+  const scopedTrades = useMemo(() => filterByScope(trades, scope), [trades, scope]);
+
+  return { scope, setScope, accounts, instruments, scopedTrades };
+};
@@ -1,37 +1,168 @@
-
 import { useState, useEffect } from 'react';
-import { Trade } from '../types';
+import { Trade, TradeEvent, TradeFieldChange, ChecklistCheck, TradeImage } from '../types';
+import { describeEvent } from '../services/tradeMath';
+import { describeChecklist } from '../services/playbook';
+import { loadTrades, saveTrade, saveTrades, removeTrade } from '../services/tradeStorage';
+import { ImportMode } from '../services/journalTransfer';
 
-export const useTrades = () => {
-  const [trades, setTrades] = useState<Trade[]>(() => {
-    try {
-      const savedTrades = localStorage.getItem('trades');
-      return savedTrades ? JSON.parse(savedTrades) : [];
-    } catch (error) {
-      console.error("Error reading trades from localStorage", error);
-      return [];
+// Turns a field value into a short, human-readable string for the edit history.
+// Images are summarised by label so the history doesn't duplicate base64 data, and annotations by count.
+const describeValue = (key: string, value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '';
+  if (key === 'images' && Array.isArray(value)) {
+    return (value as TradeImage[]).map(image => image.label).join(', ');
+  }
+  if (key === 'annotations' && typeof value === 'object') {
+    const count = Object.values(value as Record<string, unknown[] | undefined>).reduce((sum, list) => sum + (list?.length ?? 0), 0);
+    return count > 0 ? `${count} annotation${count === 1 ? '' : 's'}` : '';
+  }
+  if (key === 'events' && Array.isArray(value)) {
+    return (value as TradeEvent[]).map(describeEvent).join('; ');
+  }
+  if (key === 'tags' && Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (key === 'checklist' && Array.isArray(value)) {
+    return describeChecklist(value as ChecklistCheck[]);
+  }
+  return String(value);
+};
+
+const diffTrades = (previous: Trade, next: Omit<Trade, 'id'>): TradeFieldChange[] => {
+  const keys = new Set([...Object.keys(previous), ...Object.keys(next)] as (keyof Trade)[]);
+  keys.delete('id');
+  keys.delete('history');
+
+  const changes: TradeFieldChange[] = [];
+  keys.forEach(key => {
+    const before = previous[key];
+    const after = next[key as keyof typeof next];
+    if (key === 'images' || key === 'annotations') {
+      // Compare the actual data, but only record the summary.
+      if (JSON.stringify(before ?? {}) === JSON.stringify(after ?? {})) return;
+      changes.push({ field: key, from: describeValue(key, before), to: describeValue(key, after) });
+      return;
+    }
+    const from = describeValue(key, before);
+    const to = describeValue(key, after);
+    if (from !== to) {
+      changes.push({ field: key, from, to });
     }
   });
+  return changes;
+};
+
+const sortByDateDesc = (trades: Trade[]) =>
+  trades.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+
+export const useTrades = () => {
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [storageError, setStorageError] = useState<string | null>(null);
 
   useEffect(() => {
-    try {
-      localStorage.setItem('trades', JSON.stringify(trades));
-    } catch (error) {
-      console.error("Error saving trades to localStorage", error);
-    }
-  }, [trades]);
+    let cancelled = false;
+    loadTrades()
+      .then(loaded => {
+        if (!cancelled) setTrades(loaded);
+      })
+      .catch(error => {
+        console.error("Error loading trades from IndexedDB", error);
+        if (!cancelled) setStorageError(`Your trades could not be loaded: ${error?.message ?? error}`);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => { cancelled = true; };
+  }, []);
+
+  // Writes happen after the in-memory update, so a failure leaves the change visible but unsaved.
+  const persist = (write: Promise<void>, action: string) => {
+    write.catch(error => {
+      console.error(`Error ${action} in IndexedDB`, error);
+      setStorageError(`Your last change could not be saved (${action}): ${error?.message ?? error}. It will be lost when you reload the page.`);
+    });
+  };
+
+  const newTradeId = () => new Date().toISOString() + Math.random(); // more unique id
 
   const addTrade = (tradeData: Omit<Trade, 'id'>) => {
-    const newTrade: Trade = {
+    const newTrade: Trade = { ...tradeData, id: newTradeId() };
+    setTrades(prevTrades => sortByDateDesc([...prevTrades, newTrade]));
+    persist(saveTrade(newTrade), 'adding trade');
+    return newTrade;
+  };
+
+  // Adds several trades in one update and one transaction, e.g. from a broker statement.
+  const addTrades = (tradesData: Omit<Trade, 'id'>[]) => {
+    const newTrades: Trade[] = tradesData.map(tradeData => ({ ...tradeData, id: newTradeId() }));
+    if (newTrades.length === 0) return newTrades;
+    setTrades(prevTrades => sortByDateDesc([...prevTrades, ...newTrades]));
+    persist(saveTrades(newTrades), 'adding trades');
+    return newTrades;
+  };
+
+  // Returns the updated trade, or undefined when nothing changed.
+  const updateTrade = (id: string, tradeData: Omit<Trade, 'id'>): Trade | undefined => {
+    const trade = trades.find(t => t.id === id);
+    if (!trade) return undefined;
+
+    const changes = diffTrades(trade, tradeData);
+    if (changes.length === 0) return undefined;
+
+    const updatedTrade: Trade = {
       ...tradeData,
-      id: new Date().toISOString() + Math.random(), // more unique id
+      id,
+      history: [...(trade.history ?? []), { editedAt: new Date().toISOString(), changes }],
     };
-    setTrades(prevTrades => [...prevTrades, newTrade].sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()));
+    setTrades(prevTrades => sortByDateDesc(prevTrades.map(t => (t.id === id ? updatedTrade : t))));
+    persist(saveTrade(updatedTrade), 'updating trade');
+    return updatedTrade;
   };
   
+  // Trades refer to setups and tags by name, so renaming one renames it on every trade that uses
+  // it. This isn't an edit of the trades and is left out of their history.
+  const saveRenamed = (renamed: Trade[], action: string) => {
+    if (renamed.length === 0) return;
+    const byId = new Map(renamed.map(t => [t.id, t]));
+    setTrades(prevTrades => prevTrades.map(t => byId.get(t.id) ?? t));
+    persist(saveTrades(renamed), action);
+  };
+
+  const renameSetup = (from: string, to: string) => {
+    saveRenamed(trades.filter(t => t.setup === from).map(t => ({ ...t, setup: to })), 'renaming setup');
+  };
+
+  // Renaming onto a tag the trade already has merges the two.
+  const renameTag = (from: string, to: string) => {
+    saveRenamed(
+      trades.filter(t => t.tags?.includes(from)).map(t => ({ ...t, tags: [...new Set(t.tags!.map(tag => (tag === from ? to : tag)))] })),
+      'renaming tag');
+  };
+
   const deleteTrade = (id: string) => {
     setTrades(prevTrades => prevTrades.filter(trade => trade.id !== id));
+    persist(removeTrade(id), 'deleting trade');
   };
 
-  return { trades, addTrade, deleteTrade };
+  // Merge keeps existing trades and skips imported ones whose id is already in the journal;
+  // replace discards the current journal entirely.
+  const importTrades = (imported: Trade[], mode: ImportMode) => {
+    if (mode === 'replace') {
+      setTrades(sortByDateDesc([...imported]));
+      persist(saveTrades(imported, true), 'replacing journal');
+      return { added: imported.length, duplicates: [] as Trade[] };
+    }
+
+    const existingIds = new Set(trades.map(t => t.id));
+    const duplicates = imported.filter(t => existingIds.has(t.id));
+    const added = imported.filter(t => !existingIds.has(t.id));
+    setTrades(prevTrades => sortByDateDesc([...prevTrades, ...added]));
+    persist(saveTrades(added), 'importing trades');
+    return { added: added.length, duplicates };
+  };
+
+  const dismissStorageError = () => setStorageError(null);
+
+  return { trades, isLoading, storageError, dismissStorageError, addTrade, addTrades, updateTrade, deleteTrade, importTrades, renameSetup, renameTag };
 };
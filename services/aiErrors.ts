@@ -0,0 +1,110 @@
+import { ApiError } from "@google/genai";
+
+// Why a request to the AI service failed, and what the user can do about it. Retryable failures
+// are retried automatically (see aiProviders) before they reach the UI.
+export class AiError extends Error {
+  readonly retryable: boolean;
+  readonly nextStep: string;
+
+  constructor(message: string, nextStep: string, options: { retryable?: boolean; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'AiError';
+    this.retryable = options.retryable ?? false;
+    this.nextStep = nextStep;
+  }
+}
+
+// Missing key, unknown model or a request the service rejects as malformed.
+export class AiConfigError extends AiError {
+  constructor(message: string, nextStep = "Check the AI provider, model and base URL in Settings.", cause?: unknown) {
+    super(message, nextStep, { cause });
+    this.name = 'AiConfigError';
+  }
+}
+
+export class AiAuthError extends AiError {
+  constructor(cause?: unknown) {
+    super("The AI service rejected the API key.", "Check the key in Settings, or create a new one with the provider.", { cause });
+    this.name = 'AiAuthError';
+  }
+}
+
+export class AiQuotaError extends AiError {
+  constructor(cause?: unknown) {
+    super("The AI service's rate limit or quota was reached.",
+      "Wait a minute and try again. If it keeps happening, check your plan and billing with the provider, or switch to a smaller model in Settings.",
+      { retryable: true, cause });
+    this.name = 'AiQuotaError';
+  }
+}
+
+export class AiSafetyError extends AiError {
+  constructor(reason?: string, cause?: unknown) {
+    super(`The AI service blocked the ${reason ? `answer (${reason})` : 'answer'} under its safety policy.`,
+      "Try rephrasing the question, or leave out images and notes that could be mistaken for sensitive content.", { cause });
+    this.name = 'AiSafetyError';
+  }
+}
+
+export class AiNetworkError extends AiError {
+  constructor(cause?: unknown) {
+    super("Could not reach the AI service.",
+      "Check your internet connection. For a local server, check that it is running and allows requests from this page (CORS).",
+      { retryable: true, cause });
+    this.name = 'AiNetworkError';
+  }
+}
+
+export class AiServerError extends AiError {
+  constructor(status: number, cause?: unknown) {
+    super(`The AI service had an internal problem (HTTP ${status}).`, "This is usually temporary; try again in a few minutes.", { retryable: true, cause });
+    this.name = 'AiServerError';
+  }
+}
+
+export class AiTimeoutError extends AiError {
+  constructor(seconds: number, cause?: unknown) {
+    super(`The AI service didn't respond for ${seconds} seconds.`,
+      "Try again, ask about fewer trades, or leave out images. A slow local model may need a smaller variant.", { cause });
+    this.name = 'AiTimeoutError';
+  }
+}
+
+export class AiCancelledError extends AiError {
+  constructor(cause?: unknown) {
+    super("The request was cancelled.", "Run it again when you're ready.", { cause });
+    this.name = 'AiCancelledError';
+  }
+}
+
+const SAFETY_BLOCK_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Whether a Gemini block or finish reason means the answer was withheld for safety.
+export const isSafetyBlock = (reason: string | undefined) => reason !== undefined && SAFETY_BLOCK_REASONS.includes(reason);
+
+// The error for a failed HTTP response, from either the Gemini SDK or an OpenAI-compatible server.
+export const errorFromStatus = (status: number, detail: string, cause?: unknown): AiError => {
+  if (status === 401 || status === 403 || /API[_ ]KEY[_ ]INVALID|API key not valid/i.test(detail)) return new AiAuthError(cause);
+  if (status === 429) return new AiQuotaError(cause);
+  if (status === 404) return new AiConfigError("The AI service doesn't know this model or endpoint.", "Check the model name and base URL in Settings.", cause);
+  if (status === 408 || status >= 500) return new AiServerError(status, cause);
+  const reason = detail.trim().slice(0, 200);
+  return new AiConfigError(`The AI service rejected the request (HTTP ${status})${reason ? `: ${reason}` : '.'}`, undefined, cause);
+};
+
+// Sorts any error thrown while talking to a provider into one of the classes above.
+export const toAiError = (error: unknown): AiError => {
+  if (error instanceof AiError) return error;
+  if (error instanceof ApiError) return errorFromStatus(error.status, error.message, error);
+  if (error instanceof DOMException && error.name === 'AbortError') return new AiCancelledError(error);
+  // fetch rejects with a TypeError when the server can't be reached at all.
+  if (error instanceof TypeError && /fetch|network|load failed/i.test(error.message)) return new AiNetworkError(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return new AiError(`Something went wrong talking to the AI service: ${message}`, "Try again; if it keeps happening, check the browser console for details.", { cause: error });
+};
+
+// A message for the UI that says what went wrong and what to do next.
+export const describeAiError = (error: unknown): string => {
+  const aiError = toAiError(error);
+  return `${aiError.message} ${aiError.nextStep}`;
+};
@@ -0,0 +1,99 @@
+import { AiAnalysis, AiInsight, InsightSeverity } from '../types';
+import { JsonSchema } from './aiProviders';
+
+// The JSON schema analyses are requested in. Gemini and most OpenAI-compatible servers enforce it;
+// others only see the description in INSIGHTS_INSTRUCTIONS, so replies are validated either way.
+export const INSIGHTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'The direct answer, in a few short paragraphs.' },
+    insights: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          severity: { type: 'string', enum: Object.values(InsightSeverity) },
+          finding: { type: 'string' },
+          tradeIds: { type: 'array', items: { type: 'string' } },
+          suggestedRule: { type: 'string' },
+          statistic: { type: 'string' },
+        },
+        required: ['title', 'severity', 'finding', 'tradeIds'],
+      },
+    },
+  },
+  required: ['summary', 'insights'],
+};
+
+export const INSIGHTS_INSTRUCTIONS = `
+Reply with a single JSON object, without any text around it, in this shape:
+{
+  "summary": string,
+  "insights": [{ "title": string, "severity": "HIGH" | "MEDIUM" | "LOW", "finding": string, "tradeIds": string[], "suggestedRule": string, "statistic": string }]
+}
+- 'summary' answers the request directly, in a few short paragraphs of plain prose.
+- 'insights' lists the separate findings behind it, most important first. It may be empty when there is nothing beyond the summary to point out.
+- 'severity' is HIGH for patterns costing the trader the most, MEDIUM for ones worth watching, LOW for minor points and things going well.
+- 'tradeIds' holds the exact 'id' values of the trades the finding is based on, copied from the data. Use an empty list when it isn't about particular trades.
+- 'suggestedRule' is a concrete rule the trader could adopt, e.g. "No entries in the first 15 minutes of the London open". Leave it out when there is none.
+- 'statistic' is the figure supporting the finding, e.g. "5 of 7 Monday trades hit SL". Leave it out when there is none.
+`;
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+// Models sometimes wrap JSON in a Markdown code block even when asked not to.
+const stripCodeFence = (text: string) => {
+  const match = text.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return match ? match[1] : text.trim();
+};
+
+const toInsight = (value: unknown): AiInsight | null => {
+  if (!value || typeof value !== 'object') return null;
+  const { title, severity, finding, tradeIds, suggestedRule, statistic } = value as Record<string, unknown>;
+  const level = isString(severity) ? severity.toUpperCase() : '';
+  if (!isString(title) || !title.trim() || !isString(finding) || !Object.values(InsightSeverity).includes(level as InsightSeverity)) {
+    return null;
+  }
+  return {
+    title: title.trim(),
+    severity: level as InsightSeverity,
+    finding: finding.trim(),
+    tradeIds: Array.isArray(tradeIds) ? [...new Set(tradeIds.filter(isString))] : [],
+    suggestedRule: isString(suggestedRule) && suggestedRule.trim() ? suggestedRule.trim() : undefined,
+    statistic: isString(statistic) && statistic.trim() ? statistic.trim() : undefined,
+  };
+};
+
+// Reads a structured answer. Returns null when the reply isn't valid JSON in the expected shape,
+// so it can be shown as plain text instead. Malformed insights are dropped rather than failing
+// the whole answer.
+export const parseAnalysis = (text: string): AiAnalysis | null => {
+  let value: unknown;
+  try {
+    value = JSON.parse(stripCodeFence(text));
+  } catch {
+    return null;
+  }
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const { summary, insights } = value as Record<string, unknown>;
+  if (!isString(summary) && !Array.isArray(insights)) return null;
+  const analysis: AiAnalysis = {
+    summary: isString(summary) ? summary.trim() : '',
+    insights: Array.isArray(insights) ? insights.map(toInsight).filter((insight): insight is AiInsight => insight !== null) : [],
+  };
+  return analysis.summary || analysis.insights.length > 0 ? analysis : null;
+};
+
+// The summary of an answer that is still streaming in, or was stopped before the JSON was complete.
+export const partialSummary = (text: string): string | null => {
+  const match = text.match(/"summary"\s*:\s*"((?:[^"\\]|\\.)*)/);
+  if (!match) return null;
+  // A chunk can end halfway through an escape sequence.
+  const body = match[1].replace(/\\u[0-9a-fA-F]{0,3}$|\\$/, '');
+  try {
+    return JSON.parse(`"${body}"`);
+  } catch {
+    return null;
+  }
+};
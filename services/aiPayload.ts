@@ -0,0 +1,262 @@
+import { Trade, Outcome, JournalTimezone } from '../types';
+import { realizedR, tradeR, isTakenTrade } from './tradeMath';
+import { tradeDay, tradeSession, tradeSortTime, dayOfWeek, formatDay } from './tradeTime';
+import { DateRange, weekRange, monthRange, shiftDays } from './periods';
+import { calculatePerformanceMetrics } from './performanceMetrics';
+
+// Estimates are rough: about four characters per text token, and a fixed cost per image. Gemini
+// bills images in 768px tiles of 258 tokens, and a screenshot compressed to 1920px is up to six.
+const CHARS_PER_TOKEN = 4;
+export const IMAGE_TOKENS = 6 * 258;
+
+// How much of the request the trade list and the screenshots may take up.
+const TRADE_TOKEN_BUDGET = 60_000;
+const MAX_IMAGES = 10;
+
+export const WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const MONTHS = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+// What the questions narrow the journal down to. Trades mentioned by id are always sent.
+export interface PayloadFocus {
+  range?: DateRange & { label: string };
+  outcome?: Outcome;
+  weekday?: number; // 0 = Sunday, as for dayOfWeek
+  tradeIds: string[];
+}
+
+export interface PayloadImage {
+  tradeId: string;
+  date: string;
+  label: string;
+  data: string; // Data URI
+}
+
+export interface AiPayload {
+  contextText: string; // Summary statistics and the selected trades, sent ahead of the first question
+  images: PayloadImage[];
+  focus: PayloadFocus;
+  totalCount: number;
+  matchingCount: number; // Trades that fit the focus
+  sentCount: number; // Of those, the ones that fit in the budget
+  skippedImageCount: number; // Screenshots on the sent trades that were left out
+  estimatedTokens: { text: number; images: number; total: number };
+}
+
+export interface PayloadOptions {
+  includeImages: boolean;
+}
+
+export const estimateTokens = (text: string): number => Math.ceil(text.length / CHARS_PER_TOKEN);
+
+const lastNamedMonth = (monthIndex: number, year: number | undefined, today: string): DateRange => {
+  const [thisYear, thisMonth] = today.split('-').map(Number);
+  const resolvedYear = year ?? (monthIndex + 1 > thisMonth ? thisYear - 1 : thisYear);
+  return monthRange(`${resolvedYear}-${String(monthIndex + 1).padStart(2, '0')}-01`);
+};
+
+// Dates in the questions, from the most specific form to the least. Only the first match counts.
+const detectRange = (text: string, today: string): PayloadFocus['range'] => {
+  const isoDates = text.match(/\b\d{4}-\d{2}-\d{2}\b/g);
+  if (isoDates && isoDates.length >= 2) {
+    const [from, to] = [isoDates[0], isoDates[1]].sort();
+    return { from, to, label: `${formatDay(from)} – ${formatDay(to)}` };
+  }
+  if (isoDates) return { from: isoDates[0], to: isoDates[0], label: formatDay(isoDates[0]) };
+
+  const lastDays = text.match(/\b(?:last|past)\s+(\d{1,3})\s+days?\b/i);
+  if (lastDays) return { from: shiftDays(today, -(Number(lastDays[1]) - 1)), to: today, label: `Last ${lastDays[1]} days` };
+  if (/\btoday\b/i.test(text)) return { from: today, to: today, label: 'Today' };
+  if (/\byesterday\b/i.test(text)) return { from: shiftDays(today, -1), to: shiftDays(today, -1), label: 'Yesterday' };
+  if (/\bthis week\b/i.test(text)) return { ...weekRange(today), label: 'This week' };
+  if (/\blast week\b/i.test(text)) return { ...weekRange(shiftDays(weekRange(today).from, -1)), label: 'Last week' };
+  if (/\bthis month\b/i.test(text)) return { ...monthRange(today), label: 'This month' };
+  if (/\blast month\b/i.test(text)) return { ...monthRange(shiftDays(monthRange(today).from, -1)), label: 'Last month' };
+
+  // A month needs a year or a preposition before it, so "may" as in "what may I improve" doesn't count.
+  const months = MONTHS.join('|');
+  const namedMonth = text.match(new RegExp(`\\b(${months})\\s+(\\d{4})\\b`, 'i'))
+    ?? text.match(new RegExp(`\\b(?:in|during|for|from|since|of)\\s+(${months})\\b`, 'i'));
+  if (namedMonth) {
+    const monthIndex = MONTHS.indexOf(namedMonth[1].toLowerCase());
+    const range = lastNamedMonth(monthIndex, namedMonth[2] ? Number(namedMonth[2]) : undefined, today);
+    return { ...range, label: `${namedMonth[1][0].toUpperCase()}${namedMonth[1].slice(1).toLowerCase()} ${range.from.slice(0, 4)}` };
+  }
+  return undefined;
+};
+
+// Mentions of wins or losses narrow to that outcome, unless the questions mention both.
+// "Win rate" is about every trade, so it doesn't count.
+const detectOutcome = (text: string): Outcome | undefined => {
+  const losses = /\b(losing|losers?|losses|stopped out)\b/i.test(text);
+  const wins = /\b(winning|winners?|wins)\b/i.test(text);
+  const breakEvens = /\bbreak[- ]?evens?\b/i.test(text);
+  if ([losses, wins, breakEvens].filter(Boolean).length !== 1) return undefined;
+  return losses ? Outcome.SL : wins ? Outcome.TP : Outcome.BE;
+};
+
+// An id only counts as mentioned on its own, not as part of a longer id or number.
+const mentionsId = (text: string, id: string): boolean => {
+  for (let index = text.indexOf(id); index !== -1; index = text.indexOf(id, index + 1)) {
+    const before = text[index - 1] ?? ' ';
+    const rest = text.slice(index + id.length);
+    // A full stop or colon right after is punctuation, unless the id carries on past it.
+    if (!/[\w.:-]/.test(before) && !/^[\w-]/.test(rest) && !/^[.:]\w/.test(rest)) return true;
+  }
+  return false;
+};
+
+// Reads what the questions are about. Plain keyword matching: good enough to pick which trades
+// to send, and the user sees the result before sending.
+export const detectFocus = (questions: string, trades: Trade[], today: string): PayloadFocus => {
+  const tradeIds = trades.filter(trade => mentionsId(questions, trade.id)).map(trade => trade.id);
+  // Ids contain the date they were created, which mustn't be read as a date range.
+  const text = tradeIds.reduce((remaining, id) => remaining.split(id).join(' '), questions);
+  const weekday = WEEKDAYS.findIndex(day => new RegExp(`\\b${day}s?\\b`, 'i').test(text));
+  return {
+    range: detectRange(text, today),
+    outcome: detectOutcome(text),
+    weekday: weekday === -1 ? undefined : weekday,
+    tradeIds,
+  };
+};
+
+export const describeFocus = (focus: PayloadFocus): string[] => [
+  ...(focus.range ? [focus.range.label] : []),
+  ...(focus.outcome ? [`${focus.outcome} trades`] : []),
+  ...(focus.weekday !== undefined ? [`${WEEKDAYS[focus.weekday]}s`] : []),
+  ...(focus.tradeIds.length > 0 ? [`${focus.tradeIds.length} mentioned trade${focus.tradeIds.length === 1 ? '' : 's'}`] : []),
+];
+
+const matchesFocus = (trade: Trade, focus: PayloadFocus, timezone: JournalTimezone): boolean => {
+  const day = tradeDay(trade, timezone);
+  if (focus.range && (day < focus.range.from || day > focus.range.to)) return false;
+  if (focus.outcome && trade.outcome !== focus.outcome) return false;
+  if (focus.weekday !== undefined && dayOfWeek(day) !== focus.weekday) return false;
+  return true;
+};
+
+const round = (value: number) => Math.round(value * 100) / 100;
+const roundOrNull = (value: number | null) => (value === null || !Number.isFinite(value) ? value : round(value));
+
+const groupStats = (trades: Trade[], keyOf: (trade: Trade) => string | null | undefined) => {
+  const groups = new Map<string, Trade[]>();
+  trades.forEach(trade => {
+    const key = keyOf(trade) || 'N/A';
+    const group = groups.get(key) ?? [];
+    group.push(trade);
+    groups.set(key, group);
+  });
+  return Object.fromEntries(Array.from(groups.entries()).map(([key, group]) => {
+    const wins = group.filter(t => t.outcome === Outcome.TP).length;
+    const losses = group.filter(t => t.outcome === Outcome.SL).length;
+    return [key, {
+      trades: group.length,
+      winRate: wins + losses > 0 ? round((wins / (wins + losses)) * 100) : null,
+      netR: round(group.reduce((sum, t) => sum + tradeR(t), 0)),
+    }];
+  }));
+};
+
+// Computed here rather than left to the model, so the figures are exact and cover every trade.
+const summarize = (trades: Trade[], timezone: JournalTimezone) => {
+  const taken = trades.filter(isTakenTrade);
+  const metrics = calculatePerformanceMetrics(taken, timezone);
+  const wins = taken.filter(t => t.outcome === Outcome.TP).length;
+  const losses = taken.filter(t => t.outcome === Outcome.SL).length;
+  const days = taken.map(t => tradeDay(t, timezone)).sort();
+  return {
+    trades: taken.length,
+    noTradeDays: trades.length - taken.length,
+    firstDay: days[0] ?? null,
+    lastDay: days[days.length - 1] ?? null,
+    wins,
+    losses,
+    breakEvens: taken.filter(t => t.outcome === Outcome.BE).length,
+    winRate: wins + losses > 0 ? round((wins / (wins + losses)) * 100) : null,
+    netR: round(taken.reduce((sum, t) => sum + tradeR(t), 0)),
+    expectancyR: round(metrics.expectancy),
+    profitFactor: roundOrNull(metrics.profitFactor),
+    maxDrawdownR: round(metrics.maxDrawdownR),
+    longestLossStreak: metrics.longestLossStreak,
+    bySession: groupStats(taken, t => tradeSession(t, timezone)),
+    byWeekday: groupStats(taken, t => WEEKDAYS[dayOfWeek(tradeDay(t, timezone))]),
+    bySetup: groupStats(taken, t => t.setup),
+    byInstrument: groupStats(taken, t => t.instrument),
+  };
+};
+
+// One trade as the model sees it. Edit history is left out, and annotations only go with
+// screenshots that are attached.
+const tradeForPayload = (trade: Trade, timezone: JournalTimezone, attached: PayloadImage[]) => {
+  const { images, history, annotations, ...tradeData } = trade;
+  const sentImages = attached.filter(image => image.tradeId === trade.id);
+  let image_references: string | undefined;
+  if (sentImages.length > 0) {
+    image_references = `See accompanying images for trade ID ${trade.id} (${sentImages.map(image => image.label).join(', ')})`;
+  } else if (images && images.length > 0) {
+    image_references = `${images.length} screenshot(s), not included in this request`;
+  }
+  return {
+    ...tradeData,
+    timezone: trade.timezone ?? timezone,
+    session: tradeSession(trade, timezone),
+    realizedR: realizedR(trade),
+    ...(sentImages.length > 0 && annotations ? { annotations } : {}),
+    image_references,
+  };
+};
+
+// Picks what to send for the questions asked so far: summary statistics over the whole journal,
+// and as many of the trades they are about as fit the budget, mentioned ones first, then newest.
+export const buildChatPayload = (
+  questions: string,
+  trades: Trade[],
+  timezone: JournalTimezone,
+  today: string,
+  options: PayloadOptions,
+): AiPayload => {
+  const focus = detectFocus(questions, trades, today);
+  const mentioned = new Set(focus.tradeIds);
+  const matching = trades
+    .filter(trade => mentioned.has(trade.id) || matchesFocus(trade, focus, timezone))
+    .sort((a, b) => Number(mentioned.has(b.id)) - Number(mentioned.has(a.id)) || tradeSortTime(b, timezone) - tradeSortTime(a, timezone));
+
+  const images: PayloadImage[] = [];
+  let skippedImageCount = 0;
+  const selected: Trade[] = [];
+  let tradeTokens = 0;
+  for (const trade of matching) {
+    const tokens = estimateTokens(JSON.stringify(tradeForPayload(trade, timezone, [])));
+    if (tradeTokens + tokens > TRADE_TOKEN_BUDGET && !mentioned.has(trade.id)) break;
+    tradeTokens += tokens;
+    selected.push(trade);
+    (trade.images ?? []).forEach(image => {
+      if (options.includeImages && images.length < MAX_IMAGES) {
+        images.push({ tradeId: trade.id, date: trade.date, label: image.label, data: image.data });
+      } else {
+        skippedImageCount++;
+      }
+    });
+  }
+
+  const isNarrowed = describeFocus(focus).length > 0;
+  const sections = [
+    `Summary statistics for the whole journal, computed exactly. Use these for any overall figures:\n${JSON.stringify(summarize(trades, timezone))}`,
+    ...(isNarrowed ? [`Summary statistics for the trades the questions are about (${describeFocus(focus).join(', ')}):\n${JSON.stringify(summarize(matching, timezone))}`] : []),
+    `${isNarrowed ? 'Trades the questions are about' : 'Trades'}, newest first: ${selected.length} of ${matching.length}${selected.length < matching.length ? ' (older ones left out for length; rely on the statistics for them)' : ''}:\n${JSON.stringify(selected.map(trade => tradeForPayload(trade, timezone, images)))}`,
+  ];
+  const contextText = `Here is the trader's history.\n\n${sections.join('\n\n')}\n\nBased on this data and any accompanying images, please answer the questions that follow.`;
+
+  const text = estimateTokens(contextText) + estimateTokens(questions);
+  const imageTokens = images.length * IMAGE_TOKENS;
+  return {
+    contextText,
+    images,
+    focus,
+    totalCount: trades.length,
+    matchingCount: matching.length,
+    sentCount: selected.length,
+    skippedImageCount,
+    estimatedTokens: { text, images: imageTokens, total: text + imageTokens },
+  };
+};
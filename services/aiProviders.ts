@@ -0,0 +1,329 @@
+import { GoogleGenAI, GenerateContentResponse, Part } from "@google/genai";
+import { AiProviderKind, AiSettings } from '../types';
+import { AiConfigError, AiSafetyError, AiCancelledError, AiTimeoutError, errorFromStatus, isSafetyBlock, toAiError } from './aiErrors';
+
+// A piece of a message: text, or an image as a data URI.
+export type AiPart = { text: string } | { image: string };
+
+export interface AiTurn {
+  role: 'user' | 'model';
+  parts: AiPart[];
+}
+
+// The subset of JSON Schema used to ask for structured answers.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+  description?: string;
+}
+
+export interface AiRequest {
+  systemInstruction: string;
+  turns: AiTurn[];
+  // Asks for a JSON answer in this shape. Not every service enforces it, so answers still need checking.
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+// Every AI feature goes through this, whichever service answers. When onText is given the answer is
+// streamed and onText receives the whole answer so far with each chunk. Failures reject with one of
+// the AiError classes in aiErrors, and aborting the request's signal with an AiCancelledError.
+export interface AiProvider {
+  generate: (request: AiRequest, onText?: (text: string) => void) => Promise<string>;
+}
+
+export const AI_PROVIDER_OPTIONS: { value: AiProviderKind; label: string; defaultModel: string; models: string[] }[] = [
+  { value: AiProviderKind.GEMINI, label: 'Google Gemini', defaultModel: 'gemini-2.5-pro', models: ['gemini-2.5-pro', 'gemini-2.5-flash'] },
+  { value: AiProviderKind.OPENAI, label: 'OpenAI-compatible endpoint', defaultModel: 'gpt-4o', models: ['gpt-4o', 'gpt-4o-mini', 'llama3.1', 'qwen2.5'] },
+  { value: AiProviderKind.MOCK, label: 'Offline mock (no AI service)', defaultModel: 'mock', models: ['mock'] },
+];
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+const textOf = (parts: AiPart[]) =>
+  parts.map(part => ('text' in part ? part.text : '')).filter(Boolean).join('\n\n');
+
+const parseDataURI = (dataURI: string) => {
+  const match = dataURI.match(/^data:(.+);base64,(.+)$/);
+  if (!match) {
+    console.warn(`Invalid data URI format, skipping image.`);
+    return null;
+  }
+  return { mimeType: match[1], data: match[2] };
+};
+
+
+// Gemini reports blocked prompts and answers in the response rather than as an error.
+const checkBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason) throw new AiSafetyError(blockReason);
+  if (isSafetyBlock(finishReason)) throw new AiSafetyError(finishReason);
+};
+
+const createGeminiProvider = (settings: AiSettings): AiProvider => ({
+  generate: async (request, onText) => {
+    // A key entered in Settings wins over the one the app was built with.
+    const apiKey = settings.apiKey || process.env.API_KEY;
+    if (!apiKey) {
+      throw new AiConfigError("No Gemini API key is set.", "Add one in Settings, or choose another provider there.");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+
+    const contents = request.turns.map(turn => ({
+      role: turn.role,
+      parts: turn.parts.flatMap((part): Part[] => {
+        if ('text' in part) return [{ text: part.text }];
+        const inlineData = parseDataURI(part.image);
+        return inlineData ? [{ inlineData }] : [];
+      }),
+    }));
+    const params = {
+      model: settings.model,
+      contents,
+      config: {
+        systemInstruction: request.systemInstruction,
+        abortSignal: request.signal,
+        ...(request.responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema } : {}),
+      },
+    };
+
+    if (!onText) {
+      const response = await ai.models.generateContent(params);
+      checkBlocked(response);
+      return response.text ?? '';
+    }
+    const stream = await ai.models.generateContentStream(params);
+    let text = '';
+    for await (const chunk of stream) {
+      checkBlocked(chunk);
+      text += chunk.text ?? '';
+      onText(text);
+    }
+    return text;
+  },
+});
+
+// Messages in the OpenAI chat format. Images are sent as data URLs, which vision models accept;
+// text-only turns are sent as plain strings since some local servers accept nothing else.
+const toOpenAiMessages = (request: AiRequest) => [
+  { role: 'system', content: request.systemInstruction },
+  ...request.turns.map(turn => ({
+    role: turn.role === 'model' ? 'assistant' : 'user',
+    content: turn.parts.every(part => 'text' in part)
+      ? textOf(turn.parts)
+      : turn.parts.map(part => ('text' in part
+          ? { type: 'text', text: part.text }
+          : { type: 'image_url', image_url: { url: part.image } })),
+  })),
+];
+
+const createOpenAiProvider = (settings: AiSettings): AiProvider => ({
+  generate: async (request, onText) => {
+    const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+    const send = (responseSchema?: JsonSchema) => fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        // Local servers usually don't need a key.
+        ...(settings.apiKey ? { Authorization: `Bearer ${settings.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: settings.model,
+        messages: toOpenAiMessages(request),
+        stream: Boolean(onText),
+        ...(responseSchema
+          ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } }
+          : {}),
+      }),
+      signal: request.signal,
+    });
+    let response = await send(request.responseSchema);
+    // Some OpenAI-compatible servers reject structured output. The system instruction describes the
+    // JSON shape as well, so the request is sent once more without the schema.
+    if (response.status === 400 && request.responseSchema) {
+      await response.text().catch(() => '');
+      response = await send();
+    }
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw errorFromStatus(response.status, detail);
+    }
+
+    if (!onText || !response.body) {
+      const data = await response.json();
+      if (data.choices?.[0]?.finish_reason === 'content_filter') throw new AiSafetyError('content_filter');
+      const text: string = data.choices?.[0]?.message?.content ?? '';
+      onText?.(text);
+      return text;
+    }
+
+    // Server-sent events: one "data: {...}" line per chunk, ending with "data: [DONE]".
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.trim().startsWith('data:') || data === '[DONE]') continue;
+        const choice = JSON.parse(data).choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new AiSafetyError('content_filter');
+        const delta: string | undefined = choice?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(text);
+        }
+      }
+    }
+    return text;
+  },
+});
+
+// Describes the request rather than answering it, so the same request always gets the same reply.
+// Lets the AI features be tried out and tested without a key or a network connection.
+const mockAnswer = (request: AiRequest): string => {
+  const question = [...request.turns].reverse().find(turn => turn.role === 'user');
+  const lastText = question?.parts.filter((part): part is { text: string } => 'text' in part).pop()?.text.trim() ?? '';
+  const characters = request.turns.reduce((sum, turn) => sum + textOf(turn.parts).length, 0);
+  const images = request.turns.reduce((sum, turn) => sum + turn.parts.filter(part => 'image' in part).length, 0);
+  return [
+    'This is a mock reply: no AI service was contacted.',
+    '',
+    `Last message: "${lastText.length > 200 ? `${lastText.slice(0, 200)}…` : lastText}"`,
+    `The request had ${request.turns.length} turn${request.turns.length === 1 ? '' : 's'}, ${characters} characters of text and ${images} image${images === 1 ? '' : 's'}.`,
+    '',
+    'Choose another provider in Settings for a real analysis.',
+  ].join('\n');
+};
+
+// A JSON answer of the requested shape: the described reply goes in the first text field, lists of
+// text get the trade ids found in the request (so links to trades can be tried out) and choices
+// take their first option.
+const mockJson = (request: AiRequest, schema: JsonSchema): string => {
+  const requestText = request.turns.map(turn => textOf(turn.parts)).join('\n');
+  const ids = [...new Set([...requestText.matchAll(/"id"\s*:\s*"([^"]+)"/g)].map(match => match[1]))].slice(0, 3);
+  let answered = false;
+  const fill = (node: JsonSchema, name: string): unknown => {
+    switch (node.type) {
+      case 'object':
+        return Object.fromEntries(Object.entries(node.properties ?? {}).map(([key, child]) => [key, fill(child, key)]));
+      case 'array':
+        return node.items?.type === 'string' ? ids : node.items ? [fill(node.items, name)] : [];
+      case 'number':
+        return 0;
+      case 'boolean':
+        return false;
+      default:
+        if (node.enum) return node.enum[0];
+        if (answered) return `Mock ${name}`;
+        answered = true;
+        return mockAnswer(request);
+    }
+  };
+  return JSON.stringify(fill(schema, 'response'), null, 2);
+};
+
+const MOCK_CHUNK_DELAY_MS = 20;
+
+const createMockProvider = (): AiProvider => ({
+  generate: async (request, onText) => {
+    const answer = request.responseSchema ? mockJson(request, request.responseSchema) : mockAnswer(request);
+    if (!onText) return answer;
+    // Streamed word by word, so stopping a reply can be tried out too.
+    const words = answer.split(/(?<=\s)/);
+    let text = '';
+    for (const word of words) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      if (request.signal?.aborted) throw new AiCancelledError();
+      text += word;
+      onText(text);
+    }
+    return text;
+  },
+});
+
+// Requests fail with a timeout when the service sends nothing for this long. Streamed answers reset
+// the clock with every chunk, so long answers aren't cut off.
+const IDLE_TIMEOUT_MS = 120_000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 1000; // Doubled after each failed attempt
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(new AiCancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    }, ms);
+    if (signal?.aborted) cancel();
+    else signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+// Adds the timeout, retries transient failures (network, server and rate-limit errors) with backoff,
+// and turns whatever the provider threw into an AiError.
+const withRetries = (provider: AiProvider): AiProvider => ({
+  generate: async (request, onText) => {
+    for (let attempt = 1; ; attempt++) {
+      if (request.signal?.aborted) throw new AiCancelledError();
+      const controller = new AbortController();
+      const cancel = () => controller.abort();
+      request.signal?.addEventListener('abort', cancel, { once: true });
+      let timedOut = false;
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const restartTimer = () => {
+        clearTimeout(timer);
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+        }, IDLE_TIMEOUT_MS);
+      };
+      let received = false;
+
+      restartTimer();
+      try {
+        return await provider.generate({ ...request, signal: controller.signal }, onText && (text => {
+          received = true;
+          restartTimer();
+          onText(text);
+        }));
+      } catch (error) {
+        const aiError = request.signal?.aborted ? new AiCancelledError(error)
+          : timedOut ? new AiTimeoutError(IDLE_TIMEOUT_MS / 1000, error)
+          : toAiError(error);
+        // Once part of a streamed answer has been shown, starting over would repeat it.
+        if (!aiError.retryable || received || attempt >= MAX_ATTEMPTS) throw aiError;
+        console.warn(`AI request failed (attempt ${attempt} of ${MAX_ATTEMPTS}), retrying:`, aiError);
+        await wait(RETRY_DELAY_MS * 2 ** (attempt - 1), request.signal);
+      } finally {
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', cancel);
+      }
+    }
+  },
+});
+
+const createBaseProvider = (settings: AiSettings): AiProvider => {
+  switch (settings.provider) {
+    case AiProviderKind.OPENAI:
+      return createOpenAiProvider(settings);
+    case AiProviderKind.MOCK:
+      return createMockProvider();
+    case AiProviderKind.GEMINI:
+    default:
+      return createGeminiProvider(settings);
+  }
+};
+
+export const createAiProvider = (settings: AiSettings): AiProvider => withRetries(createBaseProvider(settings));
@@ -0,0 +1,190 @@
+import { Trade, JournalTimezone, ChatMessage, AiSettings } from '../types';
+import { realizedR } from './tradeMath';
+import { tradeDay, tradeSession } from './tradeTime';
+import { PerformanceReport } from './reports';
+import { AiPayload } from './aiPayload';
+import { createAiProvider, AiPart, AiTurn } from './aiProviders';
+import { INSIGHTS_SCHEMA, INSIGHTS_INSTRUCTIONS } from './aiInsights';
+
+// Earlier turns as the API expects them. Failed and empty replies are left out, and questions that
+// end up next to each other are sent as one turn, so the conversation alternates between user and model.
+const toChatContents = (messages: ChatMessage[]) =>
+  messages
+    .filter(message => message.status !== 'error' && message.text.trim() !== '')
+    .reduce<AiTurn[]>((contents, message) => {
+      const previous = contents[contents.length - 1];
+      if (previous?.role === message.role) previous.parts.push({ text: message.text });
+      else contents.push({ role: message.role, parts: [{ text: message.text }] });
+      return contents;
+    }, []);
+
+// Streams the model's answer to the last question in the conversation. The payload (see aiPayload)
+// goes with the opening question, rebuilt every time so follow-ups see any new trades and the
+// narrowed focus. onText receives the whole answer so far with each chunk. Aborting the signal
+// stops the stream with an AiCancelledError. Answers are asked for as JSON insights (see aiInsights), but
+// the text is returned as is, since a model may not keep to the format.
+export const chatAboutTrades = async (
+  settings: AiSettings,
+  messages: ChatMessage[],
+  payload: AiPayload,
+  onText: (text: string) => void,
+  signal?: AbortSignal,
+): Promise<string> => {
+  const systemInstruction = `
+You are a world-class trading performance analyst. Your role is to analyze a trader's performance based on their trade history and provide actionable, insightful, and clear feedback.
+
+The user will provide summary statistics computed from their whole journal, their trades in JSON format, a question, and potentially images for some trades. When the questions are about part of the journal (a period, an outcome, a weekday, specific trades) the trade list only holds those trades, and long histories are cut down to the most recent ones. The summary statistics are exact; use them for any overall figures rather than adding up the listed trades. Your analysis should be professional, data-driven, and encouraging.
+
+Here are the fields in the trade data:
+- 'id': A unique identifier for the trade.
+- 'date': The date of the trade.
+- 'type': 'BUY' or 'SELL'.
+- 'instrument': The symbol traded (e.g. "EURUSD").
+- 'account': The trading account the trade was placed on.
+- 'setup': The name of the playbook setup the trader was trading.
+- 'checklist': The setup's entry criteria, each with 'checked' true when the trader confirmed it was met before entering.
+- 'outcome': 'TP' (Take Profit), 'SL' (Stop Loss), 'BE' (Break Even), or 'NO_TRADE' (a day where no trade was taken).
+- 'rr': The R/R the trader entered for the trade (for losing trades this may be the planned target).
+- 'realizedR': The R multiple actually earned. This is the authoritative result; use it for any performance figures.
+- 'slSize': The size of the stop loss in pips or points.
+- 'tpSize': The size of the take profit in pips or points.
+- 'pnl': The actual profit or loss in account currency, when recorded.
+- 'events': Trade management in order: ENTRY, PARTIAL_CLOSE (with the percent of the position closed and the R it closed at), MOVE_SL_TO_BE, and EXIT. When present, 'realizedR' and 'outcome' are derived from these.
+- 'activationTime': The time the trade was activated (e.g., "10:30").
+- 'timezone': The zone 'date' and 'activationTime' are given in: 'broker' (MetaTrader server time, New York time + 7 hours), or an IANA zone such as 'Europe/London'.
+- 'session': The trading session the trade was activated in: 'Asia', 'London', 'London/NY Overlap', 'New York' or 'Off-hours'.
+- 'slSweepNotes': Specific notes about the candle that hit the stop loss before a potential move to TP.
+- 'tags': Labels the trader attached to the trade, such as mistakes made ("moved SL", "late entry"), emotions ("FOMO") or market context ("news").
+- 'notes': General trader's notes, which might include details about the entry candle or general market conditions.
+- 'image_references': A reference indicating that images are provided for this trade. The images will follow the JSON data, each under the label the trader gave it (e.g. 'Before', 'After', 'MetaTrader Screen').
+- 'annotations': Marks the trader drew over screenshots, keyed by image id: ENTRY, SL and TP lines at height 'y', ARROW from ('x', 'y') to ('x2', 'y2'), and TEXT at ('x', 'y'). Coordinates are fractions of the image size, measured from the top left. They are not drawn on the images you receive.
+
+When answering, look for patterns in:
+- Win/loss streaks.
+- Performance on different days, sessions or at different times (using 'session' and 'activationTime').
+- Common reasons for losses based on 'notes' and 'slSweepNotes'.
+- Differences between setups, and whether trades that skipped checklist items did worse.
+- The relationship between TP/SL sizes and outcomes.
+- Visual patterns from the trade images, such as entry points, market structure, and candlestick formations. Refer to images by their labels when available.
+- Any recurring themes in the 'slSweepNotes' that could indicate a recurring setup issue.
+
+This is a conversation: follow-up questions build on your earlier answers, so keep their context (e.g. "what about Tuesdays only?" narrows the previous question) rather than starting over.
+
+Answer the user's specific question in the summary, but also feel free to add insights they didn't ask for if you spot a clear pattern they might be missing. When discussing a specific trade, list its ID in 'tradeIds' rather than repeating it in the text.
+${INSIGHTS_INSTRUCTIONS}`;
+
+  const contentParts: AiPart[] = [{ text: payload.contextText }];
+  payload.images.forEach(image => {
+    contentParts.push({ text: `--- Trade ID ${image.tradeId} on ${image.date}: ${image.label} ---` });
+    contentParts.push({ image: image.data });
+  });
+
+  const [opening, ...followUps] = toChatContents(messages);
+  const contents: AiTurn[] = [{ role: 'user', parts: [...contentParts, ...opening.parts] }, ...followUps];
+
+  return createAiProvider(settings).generate({ systemInstruction, turns: contents, responseSchema: INSIGHTS_SCHEMA, signal }, onText);
+};
+
+// Like the other requests here, fails with an AiError (see aiErrors) saying why.
+export const analyzeSlSweepsWithAI = async (
+  settings: AiSettings,
+  trades: Trade[],
+  timezone: JournalTimezone,
+  signal?: AbortSignal,
+): Promise<string> => {
+  const systemInstruction = `
+You are an expert trading analyst specializing in price action and liquidity analysis. Your task is to analyze a collection of notes written by a trader describing the specific candles that triggered their stop losses.
+
+The user will provide these notes in JSON format, each with the trade's 'id', day, session and instrument. Your goal is to identify and synthesize recurring patterns, themes, or keywords from these notes.
+
+Look for patterns related to:
+- **Candle Types:** Doji, engulfing candles, pin bars, wicks, etc.
+- **Timing:** News events, session opens (New York, London), specific times of day.
+- **Market Structure:** Break of structure (BOS), sweeps of previous highs/lows, tests of order blocks or fair value gaps (FVG).
+- **Keywords:** "Sweep," "grab," "spike," "news," "manipulation," "high volume," etc.
+
+Report each recurring pattern as an insight, with the trades whose notes show it and how many of the notes it appears in. Use the summary for the most significant pattern and what the trader should watch out for to avoid similar stop-outs in the future. Your tone should be that of a helpful mentor.
+${INSIGHTS_INSTRUCTIONS}`;
+
+  const slSweepNotes = trades
+    .filter(trade => trade.slSweepNotes && trade.slSweepNotes.trim() !== '')
+    .map(trade => ({
+      id: trade.id,
+      day: tradeDay(trade, timezone),
+      session: tradeSession(trade, timezone),
+      instrument: trade.instrument,
+      notes: trade.slSweepNotes,
+    }));
+
+  if (slSweepNotes.length < 3) {
+      return "There aren't enough 'SL Sweep Notes' to perform a meaningful analysis. Please add more detailed notes to your losing trades to use this feature.";
+  }
+
+  const fullPrompt = `Here are the trader's notes on the candles that triggered their stop losses:\n\n${JSON.stringify(slSweepNotes, null, 2)}\n\nPlease analyze these for recurring patterns.`;
+
+  return createAiProvider(settings).generate({
+    systemInstruction,
+    turns: [{ role: 'user', parts: [{ text: fullPrompt }] }],
+    responseSchema: INSIGHTS_SCHEMA,
+    signal,
+  });
+};
+
+export const writeReportNarrative = async (
+  settings: AiSettings,
+  report: PerformanceReport,
+  trades: Trade[],
+  timezone: JournalTimezone,
+  signal?: AbortSignal,
+): Promise<string> => {
+  const systemInstruction = `
+You are a trading coach writing the review section of a trader's ${report.period === 'week' ? 'weekly' : 'monthly'} performance report.
+
+The user will provide the report's figures and the period's trades in JSON format. R multiples ('realizedR', 'netR') are the authoritative results. 'violations' lists trades where the trader skipped an item of their entry checklist or tagged a mistake.
+
+Write three to five short paragraphs in plain prose, without headings:
+- What went well and what didn't, referring to the figures.
+- The most important pattern in the losing trades, the notes and the rule violations.
+- One or two concrete things to focus on next ${report.period}.
+
+Keep it under 300 words. Be direct and specific; don't repeat the whole table of figures back.
+  `;
+
+  const summary = {
+    title: report.title,
+    from: report.range.from,
+    to: report.range.to,
+    tradeCount: report.tradeCount,
+    noTradeDays: report.noTradeDays,
+    wins: report.wins,
+    losses: report.losses,
+    breakEvens: report.breakEvens,
+    winRate: report.winRate,
+    netR: report.netR,
+    averageR: report.averageR,
+    violations: report.violations.map(v => ({ id: v.trade.id, day: v.day, reasons: v.reasons })),
+    topTags: report.topTags,
+  };
+
+  const periodTrades = trades.map(trade => ({
+    id: trade.id,
+    day: tradeDay(trade, timezone),
+    session: tradeSession(trade, timezone),
+    instrument: trade.instrument,
+    type: trade.type,
+    setup: trade.setup,
+    outcome: trade.outcome,
+    realizedR: realizedR(trade),
+    tags: trade.tags,
+    notes: trade.notes,
+    slSweepNotes: trade.slSweepNotes,
+  }));
+
+  const fullPrompt = `Report figures:\n${JSON.stringify(summary, null, 2)}\n\nTrades in the period:\n${JSON.stringify(periodTrades, null, 2)}\n\nPlease write the review.`;
+
+  return createAiProvider(settings).generate({
+    systemInstruction,
+    turns: [{ role: 'user', parts: [{ text: fullPrompt }] }],
+    signal,
+  });
+};
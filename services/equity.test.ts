@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { buildRCurve } from './equity';
+import { filterTrades } from './tradeFilters';
+import { Trade, Outcome, TradeType } from '../types';
+
+const trade = (id: string, date: string, instrument: string, rr: number, outcome: Outcome): Trade =>
+  ({ id, date, instrument, rr, outcome, type: TradeType.BUY, notes: '', timezone: 'UTC' });
+
+describe('buildRCurve', () => {
+  it('plots only the trades that pass the dashboard filters', () => {
+    const trades = [
+      trade('a', '2024-01-01', 'EURUSD', 2, Outcome.TP),
+      trade('b', '2024-01-01', 'GBPUSD', -1, Outcome.SL),
+      trade('c', '2024-01-02', 'GBPUSD', -1, Outcome.SL),
+      trade('d', '2024-01-03', 'EURUSD', 1, Outcome.TP),
+    ];
+    const filtered = filterTrades(trades, {
+      match: 'all',
+      groups: [{ match: 'all', conditions: [{ field: 'instrument', values: ['EURUSD'] }] }],
+    }, { timezone: 'UTC', tags: [] });
+
+    expect(buildRCurve(filtered, 'UTC')).toEqual([
+      { name: 'Start', 'Cumulative R/R': 0 },
+      { name: '2024-01-01', 'Cumulative R/R': 2 },
+      { name: '2024-01-03', 'Cumulative R/R': 3 },
+    ]);
+  });
+
+  it('is empty without taken trades', () => {
+    expect(buildRCurve([{ id: 'n', date: '2024-01-01', outcome: Outcome.NO_TRADE, notes: '' }], 'UTC')).toEqual([]);
+  });
+});
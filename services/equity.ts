@@ -0,0 +1,125 @@
+import { Trade, AccountSettings, JournalTimezone } from '../types';
+import { tradeR, isTakenTrade } from './tradeMath';
+import { tradeDay, tradeSortTime } from './tradeTime';
+
+export interface EquityPoint {
+  name: string;
+  Balance: number;
+}
+
+export interface RCurvePoint {
+  name: string;
+  'Cumulative R/R': number;
+}
+
+export interface EquitySummary {
+  points: EquityPoint[];
+  startingBalance: number;
+  endingBalance: number;
+  netPnl: number;
+  maxDrawdown: number; // Largest peak-to-trough fall in account currency
+  maxDrawdownPct: number; // The same fall as a percentage of the peak it started from
+  currency: string | null; // null when the trades span accounts with different currencies
+}
+
+export const riskAmount = (settings: AccountSettings, balance: number): number =>
+  settings.riskMode === 'percent' ? (balance * settings.riskValue) / 100 : settings.riskValue;
+
+// Lots needed so that hitting a stop of slSize pips loses exactly riskAmount.
+export const positionSize = (settings: AccountSettings, balance: number, slSize: number): number | null => {
+  if (!(slSize > 0) || !(settings.pipValuePerLot > 0)) return null;
+  return riskAmount(settings, balance) / (slSize * settings.pipValuePerLot);
+};
+
+// The recorded P&L when there is one; otherwise an estimate from the R earned and the configured risk.
+export const tradePnl = (trade: Trade, settings: AccountSettings, balance: number): number => {
+  if (!isTakenTrade(trade)) return 0;
+  if (trade.pnl !== undefined && trade.pnl !== null) return trade.pnl;
+  return tradeR(trade) * riskAmount(settings, balance) - settings.commissionPerTrade;
+};
+
+export const formatMoney = (amount: number, currency: string | null): string => {
+  if (!currency) return amount.toFixed(2);
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency code entered in settings.
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+// Replays the trades in date order, keeping a running balance per account so percent-risk
+// estimates compound on the right balance, and sums them into a single equity curve.
+export const buildEquityCurve = (
+  trades: Trade[],
+  getSettings: (account?: string) => AccountSettings,
+  timezone: JournalTimezone,
+): EquitySummary => {
+  const sortedTrades = trades
+    .filter(isTakenTrade)
+    .sort((a, b) => tradeSortTime(a, timezone) - tradeSortTime(b, timezone));
+
+  const accounts = Array.from(new Set(trades.map(t => t.account ?? '')));
+  if (accounts.length === 0) accounts.push('');
+
+  const balances = new Map<string, number>(accounts.map(a => [a, getSettings(a || undefined).startingBalance]));
+  const currencies = new Set(accounts.map(a => getSettings(a || undefined).currency));
+  const startingBalance = Array.from(balances.values()).reduce((sum, b) => sum + b, 0);
+
+  const dailyBalance = new Map<string, number>();
+  let total = startingBalance;
+  sortedTrades.forEach(trade => {
+    const account = trade.account ?? '';
+    const balance = balances.get(account)!;
+    const pnl = tradePnl(trade, getSettings(trade.account), balance);
+    balances.set(account, balance + pnl);
+    total += pnl;
+    dailyBalance.set(tradeDay(trade, timezone), total);
+  });
+
+  let peak = startingBalance;
+  let maxDrawdown = 0;
+  let maxDrawdownPct = 0;
+  const points: EquityPoint[] = [{ name: 'Start', Balance: startingBalance }];
+  for (const [day, balance] of dailyBalance.entries()) {
+    peak = Math.max(peak, balance);
+    const drawdown = peak - balance;
+    maxDrawdown = Math.max(maxDrawdown, drawdown);
+    if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, (drawdown / peak) * 100);
+    points.push({ name: day, Balance: balance });
+  }
+
+  return {
+    points,
+    startingBalance,
+    endingBalance: total,
+    netPnl: total - startingBalance,
+    maxDrawdown,
+    maxDrawdownPct,
+    currency: currencies.size === 1 ? Array.from(currencies)[0] : null,
+  };
+};
+
+// Cumulative R at the end of each day with trades, from a starting point of 0. Callers pass the
+// filtered trades they are displaying.
+export const buildRCurve = (trades: Trade[], timezone: JournalTimezone): RCurvePoint[] => {
+  const sortedTrades = trades
+    .filter(isTakenTrade)
+    .sort((a, b) => tradeSortTime(a, timezone) - tradeSortTime(b, timezone));
+  if (sortedTrades.length === 0) return [];
+
+  // Insertion order is chronological, since the trades were sorted.
+  const dailyR = new Map<string, number>();
+  sortedTrades.forEach(trade => {
+    const day = tradeDay(trade, timezone);
+    dailyR.set(day, (dailyR.get(day) ?? 0) + tradeR(trade));
+  });
+
+  let cumulative = 0;
+  const points: RCurvePoint[] = [{ name: 'Start', 'Cumulative R/R': 0 }];
+  for (const [day, r] of dailyR.entries()) {
+    cumulative += r;
+    points.push({ name: day, 'Cumulative R/R': cumulative });
+  }
+  return points;
+};
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { parseJournalImport, mergeNamed, mergeRiskRules, JOURNAL_BUNDLE_FORMAT } from './journalTransfer';
+import { filterTrades } from './tradeFilters';
+import { Outcome, TagCategory, TradeType } from '../types';
+
+const bundle = (trades: object[], version = 1, settings?: object) =>
+  JSON.stringify({ format: JOURNAL_BUNDLE_FORMAT, version, exportedAt: '2024-01-01T00:00:00.000Z', includesImages: false, trades, settings });
+
+describe('parseJournalImport', () => {
+  it('pins trades without a recorded zone to the journal zone', () => {
+    const { trades, errors } = parseJournalImport(bundle([
+      { id: 'a', date: '2024-01-02', outcome: Outcome.TP, notes: '' },
+      { id: 'b', date: '2024-01-03', outcome: Outcome.SL, notes: '', timezone: 'UTC' },
+    ]), 'Europe/London');
+    expect(errors).toEqual([]);
+    expect(trades.map(t => t.timezone)).toEqual(['Europe/London', 'UTC']);
+  });
+
+  it('reports invalid records by row and keeps the rest', () => {
+    const { trades, errors } = parseJournalImport(JSON.stringify([
+      { id: 'a', date: '2024-01-02', outcome: Outcome.TP, notes: '' },
+      { id: 'b', date: 'not a date', outcome: Outcome.TP, notes: '' },
+    ]), 'broker');
+    expect(trades.map(t => t.id)).toEqual(['a']);
+    expect(errors).toEqual([{ row: 2, id: 'b', message: "'date' must be a valid date string" }]);
+  });
+
+  it('reads the settings of a bundle, skipping entries it cannot read', () => {
+    const { settings, errors } = parseJournalImport(bundle([], 3, {
+      setups: [{ id: 's1', name: 'Breakout', checklist: ['Range defined'] }, { id: 's2', checklist: [] }],
+      tags: [{ name: 'FOMO', category: TagCategory.MISTAKE }],
+      riskRules: { maxTradesPerDay: 3 },
+      filterPresets: [{ id: 'p1', name: 'London', query: { match: 'all', groups: [] } }],
+    }), 'broker');
+    expect(settings).toEqual({
+      setups: [{ id: 's1', name: 'Breakout', checklist: ['Range defined'] }],
+      tags: [{ name: 'FOMO', category: TagCategory.MISTAKE }],
+      riskRules: { maxTradesPerDay: 3 },
+      filterPresets: [{ id: 'p1', name: 'London', query: { match: 'all', groups: [] } }],
+    });
+    expect(errors).toEqual([{ row: 0, message: '1 setup(s) could not be read and were skipped.' }]);
+  });
+
+  it('skips presets with conditions the filters cannot run', () => {
+    const query = (conditions: object[]) => ({ match: 'all', groups: [{ match: 'all', conditions }] });
+    const { settings, errors } = parseJournalImport(bundle([], 3, {
+      filterPresets: [
+        { id: 'p1', name: 'Unknown field', query: query([{ field: 'mood', values: ['calm'] }]) },
+        { id: 'p2', name: 'Null condition', query: query([null]) },
+        { id: 'p3', name: 'Wrong type', query: query([{ field: 'rr', min: '2' }]) },
+        { id: 'p4', name: 'Winners', query: query([{ field: 'outcome', values: [Outcome.TP] }]) },
+      ],
+    }), 'broker');
+    expect(settings?.filterPresets.map(p => p.name)).toEqual(['Winners']);
+    expect(errors).toEqual([{ row: 0, message: '3 filter preset(s) could not be read and were skipped.' }]);
+
+    const trades = [
+      { id: 'a', date: '2024-01-02', type: TradeType.BUY, outcome: Outcome.TP, notes: '' },
+      { id: 'b', date: '2024-01-03', type: TradeType.BUY, outcome: Outcome.SL, notes: '' },
+    ];
+    const selected = settings!.filterPresets.map(preset => filterTrades(trades, preset.query, { timezone: 'broker', tags: [] }));
+    expect(selected.map(list => list.map(t => t.id))).toEqual([['a']]);
+  });
+});
+
+describe('merging imported settings', () => {
+  it('adds only the items the journal does not have by id or name', () => {
+    const current = [{ id: 'a', name: 'Breakout' }];
+    const imported = [{ id: 'a', name: 'Renamed' }, { id: 'b', name: 'Breakout' }, { id: 'c', name: 'Pullback' }];
+    expect(mergeNamed(current, imported, 'merge')).toEqual([{ id: 'a', name: 'Breakout' }, { id: 'c', name: 'Pullback' }]);
+    expect(mergeNamed(current, imported, 'replace')).toEqual(imported);
+  });
+
+  it('keeps the rules already set when merging', () => {
+    expect(mergeRiskRules({ maxTradesPerDay: 2 }, { maxTradesPerDay: 5, maxDailyLossR: 3 }, 'merge'))
+      .toEqual({ maxTradesPerDay: 2, maxDailyLossR: 3 });
+    expect(mergeRiskRules({ maxTradesPerDay: 2 }, { maxDailyLossR: 3 }, 'replace')).toEqual({ maxDailyLossR: 3 });
+  });
+});
@@ -0,0 +1,380 @@
+import { Trade, Outcome, TradeType, TradeEdit, TradeEvent, TradeEventType, JournalTimezone, ChecklistCheck, Annotation, AnnotationKind, TradeImage, Setup, TagDefinition, TagCategory, RiskRules, RiskRuleKey } from '../types';
+import { realizedR, describeEvent } from './tradeMath';
+import { isJournalTimezone, tradeSession, TIMEZONE_OPTIONS } from './tradeTime';
+import { describeChecklist } from './playbook';
+import { normalizeImages, LEGACY_IMAGE_LABELS } from './tradeImages';
+import { RULE_LABELS } from './riskRules';
+import { FilterPreset, isFilterCondition } from './tradeFilters';
+
+export const JOURNAL_BUNDLE_FORMAT = 'mlassa-journal';
+// Version 2 lists images with labels instead of in fixed slots, and version 3 adds the settings
+// trades refer to. Older files still import.
+export const JOURNAL_BUNDLE_VERSION = 3;
+
+// What trades are analysed with besides the trades themselves. Setups and tags are referred to by name.
+export interface JournalSettings {
+  setups: Setup[];
+  tags: TagDefinition[];
+  riskRules?: RiskRules;
+  filterPresets: FilterPreset[];
+}
+
+export interface JournalBundle {
+  format: typeof JOURNAL_BUNDLE_FORMAT;
+  version: number;
+  exportedAt: string; // ISO string format
+  includesImages: boolean;
+  trades: Trade[];
+  settings?: JournalSettings; // Since version 3
+}
+
+export interface ImportRowError {
+  row: number; // 1-based position of the record in the imported file
+  id?: string;
+  message: string;
+}
+
+export interface ImportResult {
+  trades: Trade[];
+  errors: ImportRowError[];
+  settings?: JournalSettings;
+}
+
+export type ImportMode = 'merge' | 'replace';
+
+export const createJournalBundle = (trades: Trade[], includeImages: boolean, settings: JournalSettings): JournalBundle => ({
+  format: JOURNAL_BUNDLE_FORMAT,
+  version: JOURNAL_BUNDLE_VERSION,
+  exportedAt: new Date().toISOString(),
+  includesImages: includeImages,
+  trades: includeImages ? trades : trades.map(({ images, ...trade }) => trade),
+  settings,
+});
+
+// Merge keeps the journal's own setups, tags and presets and adds the imported ones it doesn't have
+// yet, matched by id or name; replace takes the imported list as it is.
+export const mergeNamed = <T extends { name: string; id?: string }>(current: T[], imported: T[], mode: ImportMode): T[] => {
+  if (mode === 'replace') return imported;
+  const ids = new Set(current.map(item => item.id).filter(Boolean));
+  const names = new Set(current.map(item => item.name));
+  return [...current, ...imported.filter(item => !names.has(item.name) && !(item.id && ids.has(item.id)))];
+};
+
+// Merge only fills in the rules the journal has left off.
+export const mergeRiskRules = (current: RiskRules, imported: RiskRules, mode: ImportMode): RiskRules => {
+  if (mode === 'replace') return imported;
+  const merged: RiskRules = { ...imported };
+  (Object.keys(current) as RiskRuleKey[]).forEach(key => {
+    if (current[key] !== undefined && current[key] !== null) merged[key] = current[key];
+  });
+  return merged;
+};
+
+// Columns derived from the time (session) are given in the journal's zone.
+const CSV_COLUMNS: { header: string; value: (trade: Trade, timezone: JournalTimezone) => string | number | undefined }[] = [
+  { header: 'id', value: t => t.id },
+  { header: 'date', value: t => t.date },
+  { header: 'instrument', value: t => t.instrument },
+  { header: 'account', value: t => t.account },
+  { header: 'setup', value: t => t.setup },
+  { header: 'checklist', value: t => t.checklist && describeChecklist(t.checklist) },
+  { header: 'type', value: t => t.type },
+  { header: 'outcome', value: t => t.outcome },
+  { header: 'slSize', value: t => t.slSize },
+  { header: 'tpSize', value: t => t.tpSize },
+  { header: 'rr', value: t => t.rr },
+  { header: 'realizedR', value: t => { const r = realizedR(t); return r === null ? undefined : Number(r.toFixed(4)); } },
+  { header: 'rangeSize', value: t => t.rangeSize },
+  { header: 'pnl', value: t => t.pnl },
+  { header: 'ticket', value: t => t.ticket },
+  { header: 'activationTime', value: t => t.activationTime },
+  { header: 'timezone', value: (t, timezone) => t.timezone ?? timezone },
+  { header: 'session', value: (t, timezone) => tradeSession(t, timezone) ?? undefined },
+  { header: 'slSweepNotes', value: t => t.slSweepNotes },
+  { header: 'events', value: t => t.events?.map(describeEvent).join('; ') },
+  { header: 'notes', value: t => t.notes },
+  { header: 'tags', value: t => t.tags?.join('; ') },
+  { header: 'imageCount', value: t => t.images?.length ?? 0 },
+];
+
+const escapeCSV = (value: string | number | undefined): string => {
+  if (value === undefined || value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const tradesToCSV = (trades: Trade[], timezone: JournalTimezone): string => {
+  const header = CSV_COLUMNS.map(c => c.header).join(',');
+  const rows = trades.map(trade => CSV_COLUMNS.map(c => escapeCSV(c.value(trade, timezone))).join(','));
+  return [header, ...rows].join('\r\n');
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
+
+const isOptionalNumber = (value: unknown) => value === undefined || value === null || (typeof value === 'number' && Number.isFinite(value));
+const isOptionalString = (value: unknown) => value === undefined || value === null || typeof value === 'string';
+
+const isTradeEdit = (value: unknown): value is TradeEdit => {
+  const edit = value as TradeEdit;
+  return !!edit && typeof edit.editedAt === 'string' && Array.isArray(edit.changes);
+};
+
+const isChecklistCheck = (value: unknown): value is ChecklistCheck => {
+  const check = value as ChecklistCheck;
+  return !!check && typeof check === 'object' && typeof check.item === 'string' && typeof check.checked === 'boolean';
+};
+
+const isTradeEvent = (value: unknown): value is TradeEvent => {
+  const event = value as TradeEvent;
+  return !!event && typeof event === 'object'
+    && Object.values(TradeEventType).includes(event.type)
+    && isOptionalString(event.time)
+    && isOptionalNumber(event.size)
+    && isOptionalNumber(event.r)
+    && isOptionalString(event.note);
+};
+
+const isFraction = (value: unknown) => typeof value === 'number' && value >= 0 && value <= 1;
+
+const isAnnotation = (value: unknown): value is Annotation => {
+  const annotation = value as Annotation;
+  return !!annotation && typeof annotation === 'object'
+    && Object.values(AnnotationKind).includes(annotation.kind)
+    && isFraction(annotation.x) && isFraction(annotation.y)
+    && (annotation.x2 === undefined || isFraction(annotation.x2))
+    && (annotation.y2 === undefined || isFraction(annotation.y2))
+    && (annotation.text === undefined || typeof annotation.text === 'string');
+};
+
+const isTradeImage = (value: unknown): value is TradeImage => {
+  const image = value as TradeImage;
+  return !!image && typeof image === 'object'
+    && typeof image.id === 'string' && image.id !== ''
+    && typeof image.label === 'string'
+    && typeof image.data === 'string' && image.data.startsWith('data:');
+};
+
+const isSetup = (value: unknown): value is Setup => {
+  const setup = value as Setup;
+  return !!setup && typeof setup === 'object'
+    && typeof setup.id === 'string' && setup.id !== ''
+    && typeof setup.name === 'string' && setup.name.trim() !== ''
+    && isOptionalString(setup.description)
+    && Array.isArray(setup.checklist) && setup.checklist.every(item => typeof item === 'string')
+    && isOptionalNumber(setup.defaultSlSize) && isOptionalNumber(setup.defaultTpSize);
+};
+
+const isTagDefinition = (value: unknown): value is TagDefinition => {
+  const tag = value as TagDefinition;
+  return !!tag && typeof tag === 'object'
+    && typeof tag.name === 'string' && tag.name.trim() !== ''
+    && Object.values(TagCategory).includes(tag.category);
+};
+
+const isFilterMatch = (value: unknown) => value === 'all' || value === 'any';
+
+// A preset with any condition the filters can't run is skipped whole, rather than changing what it selects.
+const isFilterPreset = (value: unknown): value is FilterPreset => {
+  const preset = value as FilterPreset;
+  return !!preset && typeof preset === 'object'
+    && typeof preset.id === 'string' && preset.id !== ''
+    && typeof preset.name === 'string' && preset.name.trim() !== ''
+    && !!preset.query && typeof preset.query === 'object'
+    && isFilterMatch(preset.query.match)
+    && Array.isArray(preset.query.groups)
+    && preset.query.groups.every(group => !!group && typeof group === 'object' && isFilterMatch(group.match)
+      && Array.isArray(group.conditions) && group.conditions.every(isFilterCondition));
+};
+
+const isRiskRules = (value: unknown): value is RiskRules =>
+  !!value && typeof value === 'object' && !Array.isArray(value)
+  && (Object.keys(RULE_LABELS) as RiskRuleKey[]).every(key => isOptionalNumber((value as RiskRules)[key]));
+
+// Reads the settings saved with a bundle. Entries that can't be read are skipped and reported,
+// without holding back the rest of the import.
+const validateSettings = (raw: unknown, errors: ImportRowError[]): JournalSettings | undefined => {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    errors.push({ row: 0, message: "The journal's settings could not be read and were skipped." });
+    return undefined;
+  }
+  const record = raw as Record<string, unknown>;
+  const list = <T>(key: string, label: string, isValid: (value: unknown) => value is T): T[] => {
+    const values: unknown[] = Array.isArray(record[key]) ? record[key] as unknown[] : [];
+    const valid = values.filter(isValid);
+    if (valid.length < values.length) {
+      errors.push({ row: 0, message: `${values.length - valid.length} ${label} could not be read and were skipped.` });
+    }
+    return valid;
+  };
+  if (record.riskRules !== undefined && !isRiskRules(record.riskRules)) {
+    errors.push({ row: 0, message: "The risk rules could not be read and were skipped." });
+  }
+  return {
+    setups: list('setups', 'setup(s)', isSetup),
+    tags: list('tags', 'tag(s)', isTagDefinition),
+    riskRules: isRiskRules(record.riskRules) ? record.riskRules : undefined,
+    filterPresets: list('filterPresets', 'filter preset(s)', isFilterPreset),
+  };
+};
+
+// Checks a single imported record against the Trade shape. Returns the problems found, or the
+// normalised trade when there are none. Records without a zone, from files exported before zones
+// were recorded, are given the fallback zone.
+const validateTrade = (raw: unknown, fallbackTimezone: JournalTimezone): { trade?: Trade; problems: string[] } => {
+  const problems: string[] = [];
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { problems: ['record is not an object'] };
+  }
+  const record = raw as Record<string, unknown>;
+
+  if (typeof record.id !== 'string' || record.id.trim() === '') problems.push("'id' must be a non-empty string");
+  if (typeof record.date !== 'string' || isNaN(new Date(record.date).getTime())) problems.push("'date' must be a valid date string");
+  if (!Object.values(Outcome).includes(record.outcome as Outcome)) {
+    problems.push(`'outcome' must be one of ${Object.values(Outcome).join(', ')}`);
+  }
+  if (record.type !== undefined && record.type !== null && !Object.values(TradeType).includes(record.type as TradeType)) {
+    problems.push(`'type' must be one of ${Object.values(TradeType).join(', ')}`);
+  }
+  (['slSize', 'tpSize', 'rr', 'rangeSize', 'pnl'] as const).forEach(field => {
+    if (!isOptionalNumber(record[field])) problems.push(`'${field}' must be a number`);
+  });
+  (['notes', 'activationTime', 'slSweepNotes', 'instrument', 'account', 'setup', 'ticket'] as const).forEach(field => {
+    if (!isOptionalString(record[field])) problems.push(`'${field}' must be a string`);
+  });
+  if (typeof record.activationTime === 'string' && record.activationTime !== '' && !/^\d{2}:\d{2}$/.test(record.activationTime)) {
+    problems.push("'activationTime' must be in HH:MM format");
+  }
+  if (record.timezone !== undefined && record.timezone !== null && !isJournalTimezone(record.timezone)) {
+    problems.push(`'timezone' must be one of ${TIMEZONE_OPTIONS.map(o => o.value).join(', ')}`);
+  }
+  if (Array.isArray(record.images)) {
+    if (!record.images.every(isTradeImage)) problems.push("'images' must be a list of { id, label, data } entries with data URIs");
+    else if (new Set(record.images.map(image => image.id)).size !== record.images.length) problems.push("image ids must be unique");
+  } else if (record.images !== undefined && record.images !== null) {
+    // Journals exported before version 2 keep images in fixed slots.
+    if (typeof record.images !== 'object') {
+      problems.push("'images' must be a list");
+    } else {
+      Object.entries(record.images as Record<string, unknown>).forEach(([slot, data]) => {
+        if (!(slot in LEGACY_IMAGE_LABELS)) problems.push(`unknown image slot '${slot}'`);
+        else if (data !== undefined && (typeof data !== 'string' || !data.startsWith('data:'))) problems.push(`image '${slot}' must be a data URI`);
+      });
+    }
+  }
+  if (record.annotations !== undefined && record.annotations !== null) {
+    if (typeof record.annotations !== 'object' || Array.isArray(record.annotations)) {
+      problems.push("'annotations' must be an object");
+    } else {
+      Object.entries(record.annotations as Record<string, unknown>).forEach(([imageId, list]) => {
+        if (list !== undefined && (!Array.isArray(list) || !list.every(isAnnotation))) problems.push(`annotations for image '${imageId}' must be a list of annotations`);
+      });
+    }
+  }
+  if (record.history !== undefined && (!Array.isArray(record.history) || !record.history.every(isTradeEdit))) {
+    problems.push("'history' must be a list of edits");
+  }
+
+  if (record.events !== undefined && (!Array.isArray(record.events) || !record.events.every(isTradeEvent))) {
+    problems.push("'events' must be a list of trade events");
+  }
+
+  if (record.tags !== undefined && (!Array.isArray(record.tags) || !record.tags.every(tag => typeof tag === 'string'))) {
+    problems.push("'tags' must be a list of strings");
+  }
+
+  if (record.checklist !== undefined && (!Array.isArray(record.checklist) || !record.checklist.every(isChecklistCheck))) {
+    problems.push("'checklist' must be a list of { item, checked } entries");
+  }
+
+  if (problems.length > 0) return { problems };
+
+  const optionalNumber = (value: unknown) => (value === null ? undefined : value as number | undefined);
+  const optionalString = (value: unknown) => (value === null || value === '' ? undefined : value as string | undefined);
+  const trade: Trade = {
+    id: record.id as string,
+    date: record.date as string,
+    outcome: record.outcome as Outcome,
+    type: (record.type ?? undefined) as TradeType | undefined,
+    instrument: optionalString(record.instrument),
+    account: optionalString(record.account),
+    setup: optionalString(record.setup),
+    checklist: record.checklist as ChecklistCheck[] | undefined,
+    slSize: optionalNumber(record.slSize),
+    tpSize: optionalNumber(record.tpSize),
+    rr: optionalNumber(record.rr),
+    rangeSize: optionalNumber(record.rangeSize),
+    pnl: optionalNumber(record.pnl),
+    ticket: optionalString(record.ticket),
+    notes: (record.notes as string | undefined) ?? '',
+    tags: record.tags as string[] | undefined,
+    activationTime: optionalString(record.activationTime),
+    timezone: (record.timezone ?? fallbackTimezone) as JournalTimezone,
+    slSweepNotes: optionalString(record.slSweepNotes),
+    images: normalizeImages(record.images),
+    annotations: (record.annotations ?? undefined) as Trade['annotations'],
+    events: record.events as TradeEvent[] | undefined,
+    history: record.history as TradeEdit[] | undefined,
+  };
+  return { trade, problems };
+};
+
+// Accepts either a journal bundle produced by createJournalBundle or a bare array of trades.
+// Trades without a recorded zone are taken to be in the given journal zone.
+export const parseJournalImport = (text: string, timezone: JournalTimezone): ImportResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (error) {
+    return { trades: [], errors: [{ row: 0, message: 'The file is not valid JSON.' }] };
+  }
+
+  let records: unknown[];
+  let settings: unknown;
+  if (Array.isArray(parsed)) {
+    records = parsed;
+  } else if (parsed && typeof parsed === 'object' && (parsed as JournalBundle).format === JOURNAL_BUNDLE_FORMAT) {
+    const bundle = parsed as JournalBundle;
+    if (typeof bundle.version !== 'number' || bundle.version > JOURNAL_BUNDLE_VERSION) {
+      return { trades: [], errors: [{ row: 0, message: `Unsupported journal version ${bundle.version}. Update the app to import this file.` }] };
+    }
+    if (!Array.isArray(bundle.trades)) {
+      return { trades: [], errors: [{ row: 0, message: "The journal bundle has no 'trades' list." }] };
+    }
+    records = bundle.trades;
+    settings = bundle.settings;
+  } else {
+    return { trades: [], errors: [{ row: 0, message: 'The file is not a trading journal export.' }] };
+  }
+
+  const trades: Trade[] = [];
+  const errors: ImportRowError[] = [];
+  const seenIds = new Set<string>();
+  const journalSettings = validateSettings(settings, errors);
+  records.forEach((raw, index) => {
+    const row = index + 1;
+    const { trade, problems } = validateTrade(raw, timezone);
+    const id = typeof (raw as Trade)?.id === 'string' ? (raw as Trade).id : undefined;
+    if (!trade) {
+      errors.push({ row, id, message: problems.join('; ') });
+      return;
+    }
+    if (seenIds.has(trade.id)) {
+      errors.push({ row, id, message: 'duplicate id within the imported file' });
+      return;
+    }
+    seenIds.add(trade.id);
+    trades.push(trade);
+  });
+
+  return { trades, errors, settings: journalSettings };
+};
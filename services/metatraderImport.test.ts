@@ -0,0 +1,108 @@
+// @vitest-environment happy-dom
+import { describe, it, expect } from 'vitest';
+import { parseMetaTraderStatement, findMatchingTrades, importedTickets, StatementTrade } from './metatraderImport';
+import { Trade, Outcome, TradeType } from '../types';
+
+const tableRow = (cells: string[]) => `<tr>${cells.map(cell => `<td>${cell}</td>`).join('')}</tr>`;
+
+// An MT4 "Detailed Statement": closed transactions, then the open trades, whose header has no close time.
+const MT4_HTML = `<!doctype html><html><body><table>
+<tr><td colspan="14"><b>Closed Transactions:</b></td></tr>
+${tableRow(['Ticket', 'Open Time', 'Type', 'Size', 'Item', 'Price', 'S / L', 'T / P', 'Close Time', 'Price', 'Commission', 'Taxes', 'Swap', 'Profit'])}
+${tableRow(['1001', '2024.01.15 10:30:00', 'buy', '1.00', 'eurusd', '1.10000', '1.09800', '1.10400', '2024.01.15 12:00:00', '1.10400', '-7.00', '0.00', '0.00', '400.00'])}
+${tableRow(['1002', '2024.01.16 08:05:00', 'sell', '1.00', 'gbpusd', '1.27000', '1.27200', '0.00000', '2024.01.16 09:00:00', '1.27200', '0.00', '0.00', '-1.50', '-200.00'])}
+${tableRow(['1003', '2024.01.16 14:00:00', 'buy', '0.50', 'eurusd', '1.09000', '1.08800', '1.09400', '', '', '0.00', '0.00', '0.00', '0.00'])}
+${tableRow(['1004', '2024.01.10 09:00:00', 'balance', '', 'Deposit', '', '', '', '', '', '', '', '', '10000.00'])}
+<tr><td colspan="14"><b>Open Trades:</b></td></tr>
+${tableRow(['Ticket', 'Open Time', 'Type', 'Size', 'Item', 'Price', 'S / L', 'T / P', '', 'Price', 'Commission', 'Taxes', 'Swap', 'Profit'])}
+${tableRow(['1005', '2024.01.17 10:00:00', 'buy', '1.00', 'eurusd', '1.09500', '1.09300', '1.09900', '', '1.09600', '0.00', '0.00', '0.00', '100.00'])}
+</table></body></html>`;
+
+// An MT5 "Report" exported as CSV: positions, then the orders table, which must not be read as positions.
+const MT5_CSV = [
+  'Time;Position;Symbol;Type;Volume;Price;S / L;T / P;Time;Price;Commission;Swap;Profit',
+  '2024.02.01 09:15:00;5001;XAUUSD;sell;0.10;2030.50;2035.50;2020.50;2024.02.01 11:00:00;2030.60;0.00;0.00;-1.00',
+  '2024.02.02 03:00:00;5002;USDJPY;buy;1.00;150.000;149.800;150.400;2024.02.02 07:30:00;150.400;-5.00;-1.00;266.67',
+  '2024.02.02 10:00:00;5003;USDJPY;sell;1.00;150.500;150.700;150.100;2024.02.02 11:00:00;abc;0.00;0.00;50.00',
+  'Orders',
+  'Open Time;Order;Symbol;Type;Volume;Price;S / L;T / P;Time;State',
+  '2024.02.01 09:15:00;6001;XAUUSD;sell;0.10;2030.50;2035.50;2020.50;2024.02.01 09:15:00;filled',
+].join('\r\n');
+
+describe('parseMetaTraderStatement', () => {
+  it('reads closed positions from an MT4 HTML statement and skips the rest', () => {
+    const result = parseMetaTraderStatement(MT4_HTML, 'DetailedStatement.htm');
+    expect(result.error).toBeUndefined();
+    // 1003 has no close, the balance row isn't a position and 1005 is in the open trades table.
+    expect(result.trades.map(t => t.ticket)).toEqual(['1001', '1002']);
+    expect(result.skippedRows).toBe(1);
+
+    const [win, loss] = result.trades.map(t => t.trade);
+    expect(win).toMatchObject({
+      date: '2024-01-15', activationTime: '10:30', timezone: 'broker', type: TradeType.BUY, instrument: 'EURUSD',
+      outcome: Outcome.TP, slSize: 20, tpSize: 40, rr: 2, pnl: 393, ticket: '1001',
+    });
+    // A take profit of 0 means none was set; commission and swap count towards the P&L.
+    expect(loss).toMatchObject({ type: TradeType.SELL, outcome: Outcome.SL, slSize: 20, tpSize: undefined, rr: -1, pnl: -201.5 });
+  });
+
+  it('reads an MT5 CSV report, resolving the repeated Time and Price columns by order', () => {
+    const result = parseMetaTraderStatement(MT5_CSV, 'ReportHistory.csv');
+    expect(result.error).toBeUndefined();
+    expect(result.trades.map(t => t.ticket)).toEqual(['5001', '5002']);
+    // 5003's close price can't be read.
+    expect(result.skippedRows).toBe(1);
+
+    const [gold, yen] = result.trades;
+    expect(gold.openTime).toBe('2024-02-01 09:15');
+    expect(gold.closeTime).toBe('2024-02-01 11:00');
+    // Closed within a tenth of the risk of the entry, so break-even despite the small loss; gold is quoted in cents.
+    expect(gold.trade).toMatchObject({ outcome: Outcome.BE, slSize: 500, tpSize: 1000, rr: -0.02 });
+    // 3-digit yen quotes are in fractional pips.
+    expect(yen.trade).toMatchObject({ outcome: Outcome.TP, slSize: 20, tpSize: 40, rr: 2, pnl: 260.67 });
+  });
+
+  it('reads an MT5 HTML report with its header aliases', () => {
+    const html = `<html><body><table>
+      <tr><th colspan="13">Positions</th></tr>
+      ${tableRow(['Time', 'Position', 'Symbol', 'Type', 'Volume', 'Price', 'S / L', 'T / P', 'Time', 'Price', 'Commission', 'Swap', 'Profit'])}
+      ${tableRow(['2024.03.04 16:40:00', '7001', 'US30', 'buy', '1', '39000.0', '38950.0', '', '2024.03.04 17:10:00', '38950.0', '0', '0', '-50.00'])}
+    </table></body></html>`;
+    const result = parseMetaTraderStatement(html, 'report.html');
+    expect(result.trades).toHaveLength(1);
+    // Indices aren't quoted in pips, so sizes stay in points.
+    expect(result.trades[0].trade).toMatchObject({ instrument: 'US30', outcome: Outcome.SL, slSize: 50, rr: -1 });
+  });
+
+  it('reports a file without a trade table', () => {
+    const result = parseMetaTraderStatement('Name;Value\nBalance;10000', 'summary.csv');
+    expect(result.trades).toEqual([]);
+    expect(result.error).toMatch(/No trade table was found/);
+  });
+});
+
+describe('importedTickets', () => {
+  it('collects stored tickets and ones only mentioned in older notes', () => {
+    const journal: Trade[] = [
+      { id: 'a', date: '2024-01-15', outcome: Outcome.TP, ticket: '1001', notes: '' },
+      { id: 'b', date: '2024-01-16', outcome: Outcome.SL, notes: 'Imported from MetaTrader statement: ticket #1002, GBPUSD, closed 2024-01-16 09:00.' },
+      { id: 'c', date: '2024-01-16', outcome: Outcome.SL, notes: 'Logged by hand' },
+    ];
+    expect(importedTickets(journal)).toEqual(new Set(['1001', '1002']));
+  });
+});
+
+describe('findMatchingTrades', () => {
+  it('compares days in the journal zone', () => {
+    // 00:30 server time is 17:30 the day before in New York.
+    const statementTrade = {
+      trade: { date: '2024-01-15', activationTime: '00:30', timezone: 'broker', type: TradeType.BUY, outcome: Outcome.TP, notes: '' },
+    } as StatementTrade;
+    const journal: Trade[] = [
+      { id: 'same-day', date: '2024-01-14', activationTime: '17:35', timezone: 'America/New_York', type: TradeType.BUY, outcome: Outcome.TP, notes: '' },
+      { id: 'next-day', date: '2024-01-15', activationTime: '09:00', timezone: 'America/New_York', type: TradeType.BUY, outcome: Outcome.TP, notes: '' },
+      { id: 'other-side', date: '2024-01-14', activationTime: '17:35', timezone: 'America/New_York', type: TradeType.SELL, outcome: Outcome.TP, notes: '' },
+    ];
+    expect(findMatchingTrades(statementTrade, journal, 'America/New_York').map(t => t.id)).toEqual(['same-day']);
+  });
+});
@@ -0,0 +1,262 @@
+import { Trade, TradeType, Outcome, JournalTimezone } from '../types';
+import { tradeDay } from './tradeTime';
+
+// A closed position read from an MT4/MT5 account statement, already mapped onto the Trade shape.
+export interface StatementTrade {
+  ticket: string;
+  symbol?: string;
+  volume?: number;
+  openTime: string; // "YYYY-MM-DD HH:MM"
+  closeTime: string;
+  openPrice: number;
+  closePrice: number;
+  stopLoss?: number;
+  takeProfit?: number;
+  profit: number;
+  trade: Omit<Trade, 'id'>;
+}
+
+export interface StatementParseResult {
+  trades: StatementTrade[];
+  skippedRows: number;
+  error?: string;
+}
+
+type Column = 'ticket' | 'openTime' | 'type' | 'volume' | 'symbol' | 'openPrice' | 'stopLoss' | 'takeProfit' | 'closeTime' | 'closePrice' | 'profit' | 'commission' | 'swap';
+
+// Header labels used by MT4 ("Ticket", "Open Time", "Item", "S / L") and MT5 ("Position", "Time",
+// "Symbol", "Volume"). MT5 repeats "Time" and "Price" for open and close, so those are resolved by order.
+const HEADER_ALIASES: { [normalized: string]: Column | 'time' | 'price' } = {
+  ticket: 'ticket',
+  order: 'ticket',
+  position: 'ticket',
+  deal: 'ticket',
+  opentime: 'openTime',
+  closetime: 'closeTime',
+  time: 'time',
+  type: 'type',
+  size: 'volume',
+  volume: 'volume',
+  lots: 'volume',
+  item: 'symbol',
+  symbol: 'symbol',
+  price: 'price',
+  openprice: 'openPrice',
+  closeprice: 'closePrice',
+  sl: 'stopLoss',
+  tp: 'takeProfit',
+  profit: 'profit',
+  commission: 'commission',
+  swap: 'swap',
+};
+
+const REQUIRED_COLUMNS: Column[] = ['ticket', 'openTime', 'type', 'openPrice', 'closeTime', 'closePrice', 'profit'];
+
+const normalizeHeader = (cell: string) => cell.toLowerCase().replace(/[^a-z]/g, '');
+
+// Section titles ("Orders", "Deals", "Open Positions") and the header rows of tables that aren't
+// closed positions. Either one ends the current table, so its rows aren't read with the wrong columns.
+const isTableBoundary = (row: string[]): boolean => {
+  const cells = row.map(cell => cell.trim()).filter(cell => cell !== '');
+  if (cells.length === 1 && /^[a-z][a-z ]*$/i.test(cells[0])) return true;
+  return cells.filter(cell => HEADER_ALIASES[normalizeHeader(cell)] !== undefined).length >= 3;
+};
+
+const mapHeader = (row: string[]): Partial<Record<Column, number>> | null => {
+  const columns: Partial<Record<Column, number>> = {};
+  row.forEach((cell, index) => {
+    const alias = HEADER_ALIASES[normalizeHeader(cell)];
+    if (!alias) return;
+    if (alias === 'time') {
+      const key = columns.openTime === undefined ? 'openTime' : 'closeTime';
+      if (columns[key] === undefined) columns[key] = index;
+    } else if (alias === 'price') {
+      const key = columns.openPrice === undefined ? 'openPrice' : 'closePrice';
+      if (columns[key] === undefined) columns[key] = index;
+    } else if (columns[alias] === undefined) {
+      columns[alias] = index;
+    }
+  });
+  return REQUIRED_COLUMNS.every(c => columns[c] !== undefined) ? columns : null;
+};
+
+const parseNumber = (value?: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const cleaned = value.replace(/[\s ]/g, '');
+  if (cleaned === '') return undefined;
+  const number = parseFloat(cleaned);
+  return Number.isFinite(number) ? number : undefined;
+};
+
+// Statement timestamps look like "2024.01.15 10:30:00"; only broker-local date and minute are kept.
+const parseStatementTime = (value?: string): string | null => {
+  const match = value?.trim().match(/^(\d{4})[.\-/](\d{2})[.\-/](\d{2})[ T](\d{2}):(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]} ${match[4]}:${match[5]}` : null;
+};
+
+// Guesses the pip size from the number of decimals the broker quotes the price with:
+// 5/3-digit quotes are fractional pips, 4/2-digit quotes are whole pips, anything else is in points.
+const pipSizeFor = (priceText: string): number => {
+  const decimals = priceText.trim().split('.')[1]?.length ?? 0;
+  if (decimals === 5 || decimals === 4) return 0.0001;
+  if (decimals === 3 || decimals === 2) return 0.01;
+  return 1;
+};
+
+const roundTo = (value: number, decimals: number) => Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+const toStatementTrade = (row: string[], columns: Partial<Record<Column, number>>): StatementTrade | null => {
+  const cell = (column: Column) => (columns[column] !== undefined ? row[columns[column]!]?.trim() : undefined);
+
+  const direction = cell('type')?.toLowerCase();
+  if (direction !== 'buy' && direction !== 'sell') return null;
+
+  const openTime = parseStatementTime(cell('openTime'));
+  const closeTime = parseStatementTime(cell('closeTime'));
+  const openPrice = parseNumber(cell('openPrice'));
+  const closePrice = parseNumber(cell('closePrice'));
+  const profit = parseNumber(cell('profit'));
+  if (!openTime || !closeTime || openPrice === undefined || closePrice === undefined || profit === undefined) return null;
+
+  // A stop loss or take profit of 0 means none was set.
+  const stopLoss = parseNumber(cell('stopLoss')) || undefined;
+  const takeProfit = parseNumber(cell('takeProfit')) || undefined;
+  const sign = direction === 'buy' ? 1 : -1;
+  const pipSize = pipSizeFor(cell('openPrice')!);
+
+  const riskDistance = stopLoss !== undefined ? Math.abs(openPrice - stopLoss) : undefined;
+  const realizedR = riskDistance ? ((closePrice - openPrice) * sign) / riskDistance : undefined;
+
+  // Close to entry (within a tenth of the risk) counts as break-even; otherwise the sign of the profit decides.
+  let outcome: Outcome;
+  if (profit === 0 || (riskDistance && Math.abs(closePrice - openPrice) <= riskDistance * 0.1)) {
+    outcome = Outcome.BE;
+  } else {
+    outcome = profit > 0 ? Outcome.TP : Outcome.SL;
+  }
+
+  const ticket = cell('ticket') ?? '';
+  const symbol = cell('symbol') || undefined;
+  const volume = parseNumber(cell('volume'));
+  const netProfit = roundTo(profit + (parseNumber(cell('commission')) ?? 0) + (parseNumber(cell('swap')) ?? 0), 2);
+
+  return {
+    ticket,
+    symbol,
+    volume,
+    openTime,
+    closeTime,
+    openPrice,
+    closePrice,
+    stopLoss,
+    takeProfit,
+    profit,
+    trade: {
+      date: openTime.split(' ')[0],
+      type: direction === 'buy' ? TradeType.BUY : TradeType.SELL,
+      instrument: symbol?.toUpperCase(),
+      outcome,
+      slSize: riskDistance !== undefined ? roundTo(riskDistance / pipSize, 1) : undefined,
+      tpSize: takeProfit !== undefined ? roundTo(Math.abs(takeProfit - openPrice) / pipSize, 1) : undefined,
+      rr: realizedR !== undefined ? roundTo(realizedR, 2) : undefined,
+      pnl: netProfit,
+      ticket,
+      activationTime: openTime.split(' ')[1],
+      timezone: 'broker',
+      notes: `Imported from MetaTrader statement: ticket #${ticket}${symbol ? `, ${symbol}` : ''}${volume !== undefined ? `, ${volume} lots` : ''}, closed ${closeTime}, profit ${profit}.`,
+      images: [],
+    },
+  };
+};
+
+const rowsToTrades = (rows: string[][]): StatementParseResult => {
+  const trades: StatementTrade[] = [];
+  let skippedRows = 0;
+  let columns: Partial<Record<Column, number>> | null = null;
+  let foundTable = false;
+
+  rows.forEach(row => {
+    const header = mapHeader(row);
+    if (header || isTableBoundary(row)) {
+      columns = header;
+      foundTable ||= header !== null;
+      return;
+    }
+    if (!columns) return;
+    const parsed = toStatementTrade(row, columns);
+    if (parsed) {
+      trades.push(parsed);
+    } else if (row.some(cell => /^(buy|sell)$/i.test(cell.trim()))) {
+      // Looked like a position but was missing a close time or price, e.g. a still-open trade.
+      skippedRows++;
+    }
+  });
+
+  if (!foundTable) {
+    return { trades, skippedRows, error: 'No trade table was found. Export a "Detailed Statement" (MT4) or "Report" (MT5) as HTML or CSV.' };
+  }
+  return { trades, skippedRows };
+};
+
+const parseHTMLRows = (html: string): string[][] => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return Array.from(doc.querySelectorAll('tr')).map(tr => {
+    const cells: string[] = [];
+    Array.from(tr.querySelectorAll('td, th')).forEach(cell => {
+      // Keep column positions stable when a cell spans several columns.
+      const span = parseInt(cell.getAttribute('colspan') ?? '1', 10) || 1;
+      cells.push(cell.textContent ?? '');
+      for (let i = 1; i < span; i++) cells.push('');
+    });
+    return cells;
+  });
+};
+
+const parseCSVRows = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const delimiter = [';', '\t', ','].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best), ',');
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') { cell += '"'; i++; }
+      else if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell); cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell); rows.push(row); row = []; cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) { row.push(cell); rows.push(row); }
+  return rows;
+};
+
+export const parseMetaTraderStatement = (content: string, fileName: string): StatementParseResult => {
+  const isHTML = /\.html?$/i.test(fileName) || /^\s*(<!doctype|<html)/i.test(content);
+  return rowsToTrades(isHTML ? parseHTMLRows(content) : parseCSVRows(content));
+};
+
+// Tickets of trades already imported from a statement. Trades imported before tickets were stored
+// only mention theirs in the notes.
+export const importedTickets = (journal: Trade[]): Set<string> =>
+  new Set(journal.flatMap(t => {
+    const ticket = t.ticket ?? t.notes.match(/^Imported from MetaTrader statement: ticket #([^,.\s]+)/)?.[1];
+    return ticket ? [ticket] : [];
+  }));
+
+// Journal entries on the same day with the same direction are likely the same trade logged by hand.
+// Days are compared in the journal's zone, since the statement is in server time.
+export const findMatchingTrades = (statementTrade: StatementTrade, journal: Trade[], timezone: JournalTimezone): Trade[] => {
+  const day = tradeDay(statementTrade.trade, timezone);
+  return journal.filter(t => tradeDay(t, timezone) === day && (!t.type || t.type === statementTrade.trade.type));
+};
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import { calculatePerformanceMetrics } from './performanceMetrics';
+import { Trade, Outcome, TradeType } from '../types';
+
+// One trade per entry, on the given day, earning the given R.
+const trades = (entries: [string, number][]): Trade[] =>
+  entries.map(([date, r], index) => ({
+    id: `t${index}`,
+    date,
+    type: TradeType.BUY,
+    outcome: r > 0 ? Outcome.TP : r < 0 ? Outcome.SL : Outcome.BE,
+    rr: r === 0 ? undefined : r,
+    notes: '',
+  }));
+
+// Consecutive days from 2024-01-01, one trade each.
+const daily = (rs: number[]): Trade[] =>
+  trades(rs.map((r, index) => [`2024-01-${String(index + 1).padStart(2, '0')}`, r]));
+
+describe('calculatePerformanceMetrics', () => {
+  it('returns empty metrics without trades', () => {
+    const metrics = calculatePerformanceMetrics([], 'UTC');
+    expect(metrics).toMatchObject({
+      tradeCount: 0,
+      expectancy: 0,
+      profitFactor: null,
+      payoffRatio: null,
+      maxDrawdownR: 0,
+      maxDrawdownTrades: 0,
+      maxDrawdownDays: 0,
+      longestWinStreak: 0,
+      longestLossStreak: 0,
+      currentStreak: { kind: 'none', length: 0 },
+      sharpe: null,
+      sortino: null,
+      sqn: null,
+    });
+  });
+
+  it('ignores no-trade days', () => {
+    const noTrade: Trade = { id: 'n', date: '2024-01-01', outcome: Outcome.NO_TRADE, notes: '' };
+    expect(calculatePerformanceMetrics([noTrade], 'UTC').tradeCount).toBe(0);
+  });
+
+  it('gives an infinite profit factor when nothing was lost', () => {
+    const metrics = calculatePerformanceMetrics(daily([1, 2, 0]), 'UTC');
+    expect(metrics.profitFactor).toBe(Infinity);
+    expect(metrics.payoffRatio).toBeNull();
+    expect(metrics.expectancy).toBe(1);
+  });
+
+  it('measures the deepest drawdown and how long it took to recover', () => {
+    // Cumulative R: 2, 1, 0, 1, 2, 1. The peak on day 1 is regained on day 8, four trades later.
+    const metrics = calculatePerformanceMetrics(trades([
+      ['2024-01-01', 2], ['2024-01-02', -1], ['2024-01-03', -1], ['2024-01-05', 1], ['2024-01-08', 1], ['2024-01-09', -1],
+    ]), 'UTC');
+    expect(metrics.maxDrawdownR).toBe(2);
+    expect(metrics.maxDrawdownTrades).toBe(4);
+    expect(metrics.maxDrawdownDays).toBe(7);
+  });
+
+  it('measures a drawdown that has not been recovered up to the last trade', () => {
+    const metrics = calculatePerformanceMetrics(trades([['2024-01-01', 1], ['2024-01-04', -1], ['2024-01-06', -1]]), 'UTC');
+    expect(metrics.maxDrawdownR).toBe(2);
+    expect(metrics.maxDrawdownTrades).toBe(2);
+    expect(metrics.maxDrawdownDays).toBe(5);
+  });
+
+  it('measures a drawdown from the start of the curve', () => {
+    const metrics = calculatePerformanceMetrics(trades([['2024-01-01', -1], ['2024-01-02', -1], ['2024-01-10', 3]]), 'UTC');
+    expect(metrics.maxDrawdownR).toBe(2);
+    expect(metrics.maxDrawdownTrades).toBe(3);
+    expect(metrics.maxDrawdownDays).toBe(9);
+  });
+
+  it('finds the longest and current streaks, with break-even ending a streak', () => {
+    const metrics = calculatePerformanceMetrics(daily([1, 1, 1, -1, -1, 0, -1, -1, -1, 2]), 'UTC');
+    expect(metrics.longestWinStreak).toBe(3);
+    expect(metrics.longestLossStreak).toBe(3);
+    expect(metrics.currentStreak).toEqual({ kind: 'win', length: 1 });
+
+    expect(calculatePerformanceMetrics(daily([2, -1, -1]), 'UTC').currentStreak).toEqual({ kind: 'loss', length: 2 });
+    expect(calculatePerformanceMetrics(daily([2, 0]), 'UTC').currentStreak).toEqual({ kind: 'none', length: 0 });
+  });
+
+  it('computes Sharpe, Sortino and SQN per trade', () => {
+    const metrics = calculatePerformanceMetrics(daily([2, -1]), 'UTC');
+    expect(metrics.sharpe).toBeCloseTo(0.5 / Math.sqrt(4.5));
+    expect(metrics.sortino).toBeCloseTo(0.5 / Math.sqrt(0.5));
+    expect(metrics.sqn).toBeCloseTo((Math.sqrt(2) * 0.5) / Math.sqrt(4.5));
+  });
+
+  it('leaves the ratios out with fewer than two trades', () => {
+    for (const r of [2, -1]) {
+      const metrics = calculatePerformanceMetrics(daily([r]), 'UTC');
+      expect(metrics.sharpe).toBeNull();
+      expect(metrics.sortino).toBeNull();
+      expect(metrics.sqn).toBeNull();
+    }
+  });
+
+  it('leaves the ratios out when every trade made the same R', () => {
+    const metrics = calculatePerformanceMetrics(daily([1, 1, 1]), 'UTC');
+    expect(metrics.sharpe).toBeNull();
+    expect(metrics.sortino).toBeNull();
+    expect(metrics.sqn).toBeNull();
+
+    // Equal losses have no spread either, but their downside deviation still defines Sortino.
+    const losses = calculatePerformanceMetrics(daily([-1, -1]), 'UTC');
+    expect(losses.sharpe).toBeNull();
+    expect(losses.sqn).toBeNull();
+    expect(losses.sortino).toBe(-1);
+  });
+
+  it('replays trades by time in the journal zone, whatever order they are passed in', () => {
+    const timed = (id: string, activationTime: string, r: number): Trade =>
+      ({ ...trades([['2024-01-02', r]])[0], id, activationTime, timezone: 'UTC' });
+    // a, b, c, then d and e both at 15:00, which are taken in id order: 2, 1, 0, 1, 0 cumulative R.
+    const journal = [timed('a', '08:00', 2), timed('b', '09:00', -1), timed('c', '11:00', -1), timed('d', '15:00', 1), timed('e', '15:00', -1)];
+    const orders = [journal, [...journal].reverse(), [...journal].sort((x, y) => (x.rr ?? 0) - (y.rr ?? 0))];
+
+    const results = orders.map(order => calculatePerformanceMetrics(order, 'UTC'));
+    results.forEach(metrics => {
+      expect(metrics.currentStreak).toEqual({ kind: 'loss', length: 1 });
+      expect(metrics.longestLossStreak).toBe(2);
+      expect(metrics.maxDrawdownR).toBe(2);
+      expect(metrics.maxDrawdownTrades).toBe(4);
+    });
+  });
+});
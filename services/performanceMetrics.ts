@@ -0,0 +1,118 @@
+import { Trade, JournalTimezone } from '../types';
+import { tradeR, isTakenTrade } from './tradeMath';
+import { tradeDay, tradeSortTime } from './tradeTime';
+
+export type StreakKind = 'win' | 'loss' | 'none';
+
+export interface PerformanceMetrics {
+  tradeCount: number;
+  expectancy: number; // Average R per trade
+  profitFactor: number | null; // Gross R won / gross R lost; Infinity with no losses, null with no decided trades
+  averageWinner: number; // Average R of winning trades
+  averageLoser: number; // Average R of losing trades (negative)
+  payoffRatio: number | null; // averageWinner / |averageLoser|
+  maxDrawdownR: number; // Deepest fall of cumulative R from a previous peak
+  maxDrawdownTrades: number; // Trades from that peak until it was recovered, or until now if it wasn't
+  maxDrawdownDays: number; // The same period in calendar days
+  longestWinStreak: number;
+  longestLossStreak: number;
+  currentStreak: { kind: StreakKind; length: number };
+  sharpe: number | null; // Mean R / standard deviation of R, per trade
+  sortino: number | null; // Mean R / downside deviation of R, per trade
+  sqn: number | null; // Van Tharp's System Quality Number: sqrt(n) * mean / standard deviation
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const mean = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+const sampleStdDev = (values: number[]) => {
+  if (values.length < 2) return 0;
+  const avg = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - avg) ** 2, 0) / (values.length - 1));
+};
+
+// Computes every metric from the trades given; callers pass the filtered set they are displaying,
+// in any order. Trades are replayed by time in the journal's zone, and trades logged at the same
+// time by id, which starts with when they were created. No-trade days are ignored, and break-even
+// trades end both win and loss streaks. The ratios are null with fewer than two trades, and Sharpe
+// and SQN also when every trade made the same R.
+export const calculatePerformanceMetrics = (trades: Trade[], timezone: JournalTimezone): PerformanceMetrics => {
+  const sortedTrades = trades
+    .filter(isTakenTrade)
+    .sort((a, b) => tradeSortTime(a, timezone) - tradeSortTime(b, timezone) || a.id.localeCompare(b.id));
+  const rs = sortedTrades.map(tradeR);
+
+  const winners = rs.filter(r => r > 0);
+  const losers = rs.filter(r => r < 0);
+  const grossWin = winners.reduce((sum, r) => sum + r, 0);
+  const grossLoss = Math.abs(losers.reduce((sum, r) => sum + r, 0));
+
+  let profitFactor: number | null = null;
+  if (grossLoss > 0) profitFactor = grossWin / grossLoss;
+  else if (grossWin > 0) profitFactor = Infinity;
+
+  const averageWinner = mean(winners);
+  const averageLoser = mean(losers);
+
+  // Drawdown on the cumulative R curve, which starts at 0 before the first trade.
+  let cumulative = 0;
+  let peak = 0;
+  let peakIndex = -1;
+  let maxDrawdownR = 0;
+  let maxDrawdownTrades = 0;
+  let maxDrawdownDays = 0;
+  const dayMs = (index: number) => Date.parse(`${tradeDay(sortedTrades[Math.max(index, 0)], timezone)}T00:00:00Z`);
+  const recordDuration = (endIndex: number) => {
+    const tradesInDrawdown = endIndex - peakIndex;
+    if (tradesInDrawdown > maxDrawdownTrades) {
+      maxDrawdownTrades = tradesInDrawdown;
+      maxDrawdownDays = Math.round((dayMs(endIndex) - dayMs(peakIndex)) / DAY_MS);
+    }
+  };
+  rs.forEach((r, index) => {
+    cumulative += r;
+    if (cumulative >= peak) {
+      if (index - peakIndex > 1) recordDuration(index);
+      peak = cumulative;
+      peakIndex = index;
+    } else {
+      maxDrawdownR = Math.max(maxDrawdownR, peak - cumulative);
+    }
+  });
+  if (rs.length > 0 && cumulative < peak) recordDuration(rs.length - 1);
+
+  let longestWinStreak = 0;
+  let longestLossStreak = 0;
+  let streakKind: StreakKind = 'none';
+  let streakLength = 0;
+  rs.forEach(r => {
+    const kind: StreakKind = r > 0 ? 'win' : r < 0 ? 'loss' : 'none';
+    streakLength = kind !== 'none' && kind === streakKind ? streakLength + 1 : kind === 'none' ? 0 : 1;
+    streakKind = kind;
+    if (kind === 'win') longestWinStreak = Math.max(longestWinStreak, streakLength);
+    if (kind === 'loss') longestLossStreak = Math.max(longestLossStreak, streakLength);
+  });
+
+  const expectancy = mean(rs);
+  const stdDev = sampleStdDev(rs);
+  const downsideDeviation = rs.length > 0 ? Math.sqrt(mean(rs.map(r => Math.min(r, 0) ** 2))) : 0;
+
+  return {
+    tradeCount: rs.length,
+    expectancy,
+    profitFactor,
+    averageWinner,
+    averageLoser,
+    payoffRatio: losers.length > 0 && winners.length > 0 ? averageWinner / Math.abs(averageLoser) : null,
+    maxDrawdownR,
+    maxDrawdownTrades,
+    maxDrawdownDays,
+    longestWinStreak,
+    longestLossStreak,
+    currentStreak: { kind: streakKind, length: streakLength },
+    sharpe: stdDev > 0 ? expectancy / stdDev : null,
+    sortino: rs.length > 1 && downsideDeviation > 0 ? expectancy / downsideDeviation : null,
+    sqn: stdDev > 0 ? (Math.sqrt(rs.length) * expectancy) / stdDev : null,
+  };
+};
@@ -0,0 +1,80 @@
+import { Trade, JournalTimezone } from '../types';
+import { tradeDay, weekStart } from './tradeTime';
+
+// Inclusive YYYY-MM-DD bounds; an empty bound leaves that side open.
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export type ComparisonPreset = 'week' | 'month' | 'split' | 'custom';
+
+// The dashboard shows the current period and compares it against the previous one.
+export interface PeriodComparison {
+  preset: ComparisonPreset;
+  current: DateRange;
+  previous: DateRange;
+}
+
+export const COMPARISON_PRESETS: { value: ComparisonPreset; label: string }[] = [
+  { value: 'week', label: 'This week vs last week' },
+  { value: 'month', label: 'This month vs last month' },
+  { value: 'split', label: 'Before vs after a date' },
+  { value: 'custom', label: 'Custom periods' },
+];
+
+const PERIOD_LABELS: Record<ComparisonPreset, [string, string]> = {
+  week: ['This week', 'Last week'],
+  month: ['This month', 'Last month'],
+  split: ['After', 'Before'],
+  custom: ['Period A', 'Period B'],
+};
+
+export const periodLabels = (preset: ComparisonPreset): { current: string; previous: string } => {
+  const [current, previous] = PERIOD_LABELS[preset];
+  return { current, previous };
+};
+
+export const shiftDays = (day: string, days: number): string => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, date + days)).toISOString().split('T')[0];
+};
+
+// Sunday to Saturday week containing the day.
+export const weekRange = (day: string): DateRange => {
+  const start = weekStart(day);
+  return { from: start, to: shiftDays(start, 6) };
+};
+
+// Calendar month containing the day.
+export const monthRange = (day: string): DateRange => {
+  const [year, month] = day.split('-').map(Number);
+  return {
+    from: new Date(Date.UTC(year, month - 1, 1)).toISOString().split('T')[0],
+    to: new Date(Date.UTC(year, month, 0)).toISOString().split('T')[0],
+  };
+};
+
+// Periods for a preset as of `today`. A split compares everything on or after the date with
+// everything before it, e.g. around a rule change; custom starts from this month and last month.
+export const presetComparison = (preset: ComparisonPreset, today: string, splitDay = today): PeriodComparison => {
+  if (preset === 'week') {
+    const current = weekRange(today);
+    return { preset, current, previous: weekRange(shiftDays(current.from, -1)) };
+  }
+  if (preset === 'split') {
+    return {
+      preset,
+      current: { from: splitDay, to: '' },
+      previous: { from: '', to: shiftDays(splitDay, -1) },
+    };
+  }
+  const current = monthRange(today);
+  return { preset, current, previous: monthRange(shiftDays(current.from, -1)) };
+};
+
+export const tradesInRange = (trades: Trade[], range: DateRange, timezone: JournalTimezone): Trade[] =>
+  trades.filter(trade => {
+    const day = tradeDay(trade, timezone);
+    return (!range.from || day >= range.from) && (!range.to || day <= range.to);
+  });
@@ -0,0 +1,12 @@
+import { ChecklistCheck, Setup } from '../types';
+
+// Trades keep their own copy of the checklist, so editing a setup later doesn't rewrite what
+// was confirmed on trades already logged.
+export const checklistForSetup = (setup: Setup): ChecklistCheck[] =>
+  setup.checklist.map(item => ({ item, checked: false }));
+
+export const isFullyCompliant = (checklist: ChecklistCheck[]): boolean => checklist.every(check => check.checked);
+
+// Compact text form of a checklist, e.g. "[x] Range under 10 pips; [ ] News checked".
+export const describeChecklist = (checklist: ChecklistCheck[]): string =>
+  checklist.map(check => `[${check.checked ? 'x' : ' '}] ${check.item}`).join('; ');
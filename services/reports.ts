@@ -0,0 +1,173 @@
+import { Trade, Outcome, TagDefinition, TagCategory, JournalTimezone } from '../types';
+import { tradeR, isTakenTrade, formatR } from './tradeMath';
+import { tradeDay, tradeSortTime, formatDay } from './tradeTime';
+import { DateRange, weekRange, monthRange, shiftDays, tradesInRange } from './periods';
+
+export type ReportPeriod = 'week' | 'month';
+
+export interface ReportTrade {
+  trade: Trade;
+  day: string;
+  r: number;
+}
+
+// A trade that broke the trader's own rules, with what was broken.
+export interface ReportViolation extends ReportTrade {
+  reasons: string[];
+}
+
+export interface ReportTag {
+  name: string;
+  category: TagCategory;
+  trades: number;
+  netR: number;
+}
+
+export interface PerformanceReport {
+  period: ReportPeriod;
+  range: DateRange;
+  title: string;
+  tradeCount: number; // Taken trades; no-trade days are counted separately
+  noTradeDays: number;
+  wins: number;
+  losses: number;
+  breakEvens: number;
+  winRate: number | null; // Wins out of wins and losses, in percent
+  netR: number;
+  averageR: number;
+  bestTrade: ReportTrade | null;
+  worstTrade: ReportTrade | null;
+  violations: ReportViolation[];
+  topTags: ReportTag[];
+  equity: { name: string; 'Cumulative R': number }[]; // Cumulative R at the end of each trading day
+}
+
+const TOP_TAG_COUNT = 5;
+
+export const reportRange = (period: ReportPeriod, day: string): DateRange =>
+  period === 'week' ? weekRange(day) : monthRange(day);
+
+// The period before (-1) or after (1) the one given.
+export const shiftReportRange = (period: ReportPeriod, range: DateRange, direction: -1 | 1): DateRange =>
+  reportRange(period, direction < 0 ? shiftDays(range.from, -1) : shiftDays(range.to, 1));
+
+export const reportTitle = (period: ReportPeriod, range: DateRange): string => {
+  if (period === 'week') return `Week of ${formatDay(range.from)}`;
+  return new Date(`${range.from}T00:00:00`).toLocaleDateString(undefined, { month: 'long', year: 'numeric' });
+};
+
+// Skipped checklist items and mistake tags both count as breaking the trader's rules.
+const violationReasons = (trade: Trade, tags: TagDefinition[]): string[] => [
+  ...(trade.checklist ?? []).filter(check => !check.checked).map(check => `Skipped "${check.item}"`),
+  ...(trade.tags ?? [])
+    .filter(name => tags.find(tag => tag.name === name)?.category === TagCategory.MISTAKE)
+    .map(name => `Mistake: ${name}`),
+];
+
+export const buildReport = (
+  allTrades: Trade[],
+  period: ReportPeriod,
+  range: DateRange,
+  timezone: JournalTimezone,
+  tags: TagDefinition[],
+): PerformanceReport => {
+  const periodTrades = tradesInRange(allTrades, range, timezone)
+    .sort((a, b) => tradeSortTime(a, timezone) - tradeSortTime(b, timezone));
+  const taken: ReportTrade[] = periodTrades
+    .filter(isTakenTrade)
+    .map(trade => ({ trade, day: tradeDay(trade, timezone), r: tradeR(trade) }));
+
+  const wins = taken.filter(t => t.trade.outcome === Outcome.TP).length;
+  const losses = taken.filter(t => t.trade.outcome === Outcome.SL).length;
+  const netR = taken.reduce((sum, t) => sum + t.r, 0);
+
+  const byR = [...taken].sort((a, b) => b.r - a.r);
+
+  const tagStats = new Map<string, ReportTag>();
+  taken.forEach(({ trade, r }) => trade.tags?.forEach(name => {
+    const entry = tagStats.get(name) ?? {
+      name,
+      category: tags.find(tag => tag.name === name)?.category ?? TagCategory.OTHER,
+      trades: 0,
+      netR: 0,
+    };
+    tagStats.set(name, { ...entry, trades: entry.trades + 1, netR: entry.netR + r });
+  }));
+
+  const equity: PerformanceReport['equity'] = [];
+  let cumulative = 0;
+  taken.forEach(({ day, r }) => {
+    cumulative += r;
+    const last = equity[equity.length - 1];
+    if (last && last.name === day) last['Cumulative R'] = cumulative;
+    else equity.push({ name: day, 'Cumulative R': cumulative });
+  });
+
+  return {
+    period,
+    range,
+    title: reportTitle(period, range),
+    tradeCount: taken.length,
+    noTradeDays: periodTrades.length - taken.length,
+    wins,
+    losses,
+    breakEvens: taken.filter(t => t.trade.outcome === Outcome.BE).length,
+    winRate: wins + losses > 0 ? (wins / (wins + losses)) * 100 : null,
+    netR,
+    averageR: taken.length > 0 ? netR / taken.length : 0,
+    bestTrade: byR[0] ?? null,
+    worstTrade: byR.length > 1 ? byR[byR.length - 1] : null,
+    violations: taken
+      .map(t => ({ ...t, reasons: violationReasons(t.trade, tags) }))
+      .filter(v => v.reasons.length > 0),
+    topTags: Array.from(tagStats.values())
+      .sort((a, b) => b.trades - a.trades || a.netR - b.netR)
+      .slice(0, TOP_TAG_COUNT),
+    equity: equity.length > 0 ? [{ name: 'Start', 'Cumulative R': 0 }, ...equity] : [],
+  };
+};
+
+const describeReportTrade = ({ trade, day, r }: ReportTrade) =>
+  `${formatDay(day)} ${trade.instrument ?? ''} ${trade.type ?? ''} ${formatR(r)}`.replace(/\s+/g, ' ');
+
+export const reportToMarkdown = (report: PerformanceReport, narrative?: string): string => {
+  const lines = [
+    `# ${report.title}`,
+    '',
+    `${formatDay(report.range.from)} – ${formatDay(report.range.to)}`,
+    '',
+    '## Summary',
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    `| Trades | ${report.tradeCount} |`,
+    `| No-trade days | ${report.noTradeDays} |`,
+    `| Wins / Losses / Break-even | ${report.wins} / ${report.losses} / ${report.breakEvens} |`,
+    `| Win rate | ${report.winRate === null ? 'N/A' : `${report.winRate.toFixed(1)}%`} |`,
+    `| Net R | ${formatR(report.netR)} |`,
+    `| Average R | ${formatR(report.averageR)} |`,
+    `| Best trade | ${report.bestTrade ? describeReportTrade(report.bestTrade) : 'N/A'} |`,
+    `| Worst trade | ${report.worstTrade ? describeReportTrade(report.worstTrade) : 'N/A'} |`,
+    '',
+    '## Rule Violations',
+    '',
+    ...(report.violations.length === 0
+      ? ['None.']
+      : report.violations.map(v => `- ${describeReportTrade(v)}: ${v.reasons.join('; ')}`)),
+    '',
+    '## Top Tags',
+    '',
+    ...(report.topTags.length === 0
+      ? ['No tagged trades.']
+      : ['| Tag | Category | Trades | Net R |', '| --- | --- | --- | --- |',
+         ...report.topTags.map(tag => `| ${tag.name} | ${tag.category} | ${tag.trades} | ${formatR(tag.netR)} |`)]),
+    '',
+    '## Equity',
+    '',
+    ...(report.equity.length === 0
+      ? ['No trades.']
+      : report.equity.slice(1).map(point => `- ${formatDay(point.name)}: ${formatR(point['Cumulative R'])}`)),
+  ];
+  if (narrative) lines.push('', '## Review', '', narrative);
+  return lines.join('\n') + '\n';
+};
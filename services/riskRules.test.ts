@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { findBreaches, findBreachesOf, evaluateRiskRules } from './riskRules';
+import { Trade, Outcome, TradeType, JournalTimezone } from '../types';
+
+// A trade recorded in UTC at the given day and time.
+const trade = (id: string, date: string, activationTime: string, outcome: Outcome, rr?: number): Trade =>
+  ({ id, date, activationTime, outcome, rr, type: TradeType.BUY, timezone: 'UTC', notes: '' });
+
+const breachesOf = (trades: Trade[], rules: Parameters<typeof findBreaches>[1], timezone: JournalTimezone = 'UTC') =>
+  findBreaches(trades, rules, timezone).map(b => `${b.rule}:${b.tradeId}`);
+
+describe('findBreaches', () => {
+  it('counts trades per day in the journal zone', () => {
+    // 03:00 and 06:00 UTC on the 15th are 22:00 on the 14th and 01:00 on the 15th in New York.
+    const trades = [trade('a', '2024-01-15', '03:00', Outcome.TP, 1), trade('b', '2024-01-15', '06:00', Outcome.TP, 1)];
+    expect(breachesOf(trades, { maxTradesPerDay: 1 }, 'UTC')).toEqual(['maxTradesPerDay:b']);
+    expect(breachesOf(trades, { maxTradesPerDay: 1 }, 'America/New_York')).toEqual([]);
+  });
+
+  it('flags every trade taken after the losing streak limit until a win resets it', () => {
+    const trades = [
+      trade('a', '2024-01-15', '09:00', Outcome.SL),
+      trade('b', '2024-01-15', '10:00', Outcome.SL),
+      trade('c', '2024-01-15', '11:00', Outcome.SL),
+      trade('d', '2024-01-15', '12:00', Outcome.TP, 2),
+      trade('e', '2024-01-15', '13:00', Outcome.SL),
+      // The streak doesn't carry over to the next day.
+      trade('f', '2024-01-16', '09:00', Outcome.SL),
+    ];
+    expect(breachesOf(trades, { maxConsecutiveLosses: 2 })).toEqual(['maxConsecutiveLosses:c', 'maxConsecutiveLosses:d']);
+  });
+
+  it('replays the day in time order, whatever order the trades are passed in', () => {
+    const trades = [
+      trade('late', '2024-01-15', '15:00', Outcome.TP, 1),
+      trade('early', '2024-01-15', '08:00', Outcome.SL),
+      trade('mid', '2024-01-15', '10:00', Outcome.SL),
+    ];
+    expect(breachesOf(trades, { maxDailyLossR: 2 })).toEqual(['maxDailyLossR:late']);
+  });
+
+  it('ignores rules without a value', () => {
+    const trades = [trade('a', '2024-01-15', '09:00', Outcome.SL), trade('b', '2024-01-15', '10:00', Outcome.SL)];
+    expect(breachesOf(trades, { maxTradesPerDay: 0, maxConsecutiveLosses: undefined })).toEqual([]);
+  });
+});
+
+describe('findBreachesOf', () => {
+  it('counts trades added together towards each other\'s limits', () => {
+    const journal = [trade('old', '2024-01-15', '08:00', Outcome.TP, 1)];
+    const added = [trade('new1', '2024-01-15', '09:00', Outcome.TP, 1), trade('new2', '2024-01-15', '10:00', Outcome.TP, 1)];
+    const breaches = findBreachesOf(added, [...journal, ...added], { maxTradesPerDay: 2 }, 'UTC');
+    expect(breaches.map(b => b.tradeId)).toEqual(['new2']);
+  });
+
+  it('only reports breaches of the changed trades', () => {
+    const journal = [
+      trade('a', '2024-01-15', '08:00', Outcome.TP, 1),
+      trade('b', '2024-01-15', '09:00', Outcome.TP, 1),
+      trade('c', '2024-01-15', '10:00', Outcome.TP, 1),
+    ];
+    expect(findBreachesOf([journal[2]], journal, { maxTradesPerDay: 1 }, 'UTC').map(b => b.tradeId)).toEqual(['c']);
+  });
+});
+
+describe('evaluateRiskRules', () => {
+  it("reports today's standing and the run of days without a breach", () => {
+    const trades = [
+      trade('a', '2024-01-15', '09:00', Outcome.TP, 1),
+      trade('b', '2024-01-15', '10:00', Outcome.TP, 1), // Breaches the limit of one trade a day
+      trade('c', '2024-01-16', '09:00', Outcome.TP, 2),
+      trade('d', '2024-01-17', '09:00', Outcome.SL),
+    ];
+    const { statuses, streak } = evaluateRiskRules(trades, { maxTradesPerDay: 1, maxDailyLossR: 1, weeklyTargetR: 3 }, 'UTC', '2024-01-17');
+    expect(statuses.map(s => [s.rule, s.state])).toEqual([
+      ['maxTradesPerDay', 'reached'],
+      ['maxDailyLossR', 'reached'],
+      ['weeklyTargetR', 'met'],
+    ]);
+    expect(streak).toEqual({ current: 2, best: 2 });
+  });
+});
@@ -0,0 +1,146 @@
+import { Trade, Outcome, RiskRules, RiskRuleKey, RuleBreach, JournalTimezone } from '../types';
+import { tradeR, isTakenTrade, formatR } from './tradeMath';
+import { tradeDay, tradeSortTime, weekStart } from './tradeTime';
+
+export const RULE_LABELS: Record<RiskRuleKey, string> = {
+  maxTradesPerDay: 'Max trades per day',
+  maxDailyLossR: 'Max daily loss',
+  maxConsecutiveLosses: 'Max consecutive losses',
+  weeklyTargetR: 'Weekly target',
+};
+
+// 'reached' means the limit is hit and the trader should stop; 'breached' that they traded on anyway.
+// The weekly target is a goal, so it is only ever 'ok' or 'met'.
+export type RuleState = 'ok' | 'reached' | 'breached' | 'met';
+
+export interface RuleStatus {
+  rule: RiskRuleKey;
+  label: string;
+  current: string;
+  limit: string;
+  state: RuleState;
+}
+
+export interface RuleStreak {
+  current: number; // Trading days in a row, up to the latest, without a breach
+  best: number;
+}
+
+export interface RiskEvaluation {
+  statuses: RuleStatus[]; // Today's standing for every rule that is set
+  breaches: Omit<RuleBreach, 'recordedAt'>[];
+  streak: RuleStreak;
+}
+
+const isSet = (value: number | undefined): value is number => value !== undefined && value > 0;
+
+// Taken trades per day in the journal's zone, each day in the order the trades were activated.
+const tradesByDay = (trades: Trade[], timezone: JournalTimezone): Map<string, Trade[]> => {
+  const days = new Map<string, Trade[]>();
+  [...trades]
+    .filter(isTakenTrade)
+    .sort((a, b) => tradeSortTime(a, timezone) - tradeSortTime(b, timezone))
+    .forEach(trade => {
+      const day = tradeDay(trade, timezone);
+      days.set(day, [...(days.get(day) ?? []), trade]);
+    });
+  return days;
+};
+
+// The daily limits, replayed trade by trade: a trade taken once a limit had been hit breaches it.
+const dayBreaches = (day: string, dayTrades: Trade[], rules: RiskRules): Omit<RuleBreach, 'recordedAt'>[] => {
+  const breaches: Omit<RuleBreach, 'recordedAt'>[] = [];
+  let dayR = 0;
+  let lossStreak = 0;
+  dayTrades.forEach((trade, index) => {
+    const breach = (rule: RiskRuleKey, message: string) => breaches.push({ rule, day, tradeId: trade.id, message });
+    if (isSet(rules.maxTradesPerDay) && index >= rules.maxTradesPerDay) {
+      breach('maxTradesPerDay', `Trade ${index + 1} of the day; the limit is ${rules.maxTradesPerDay}.`);
+    }
+    if (isSet(rules.maxDailyLossR) && dayR <= -rules.maxDailyLossR) {
+      breach('maxDailyLossR', `Taken after losing ${formatR(-dayR)} on the day; the limit is ${formatR(rules.maxDailyLossR)}.`);
+    }
+    if (isSet(rules.maxConsecutiveLosses) && lossStreak >= rules.maxConsecutiveLosses) {
+      breach('maxConsecutiveLosses', `Taken after ${lossStreak} losses in a row; the limit is ${rules.maxConsecutiveLosses}.`);
+    }
+    dayR += tradeR(trade);
+    lossStreak = trade.outcome === Outcome.SL ? lossStreak + 1 : 0;
+  });
+  return breaches;
+};
+
+export const findBreaches = (trades: Trade[], rules: RiskRules, timezone: JournalTimezone): Omit<RuleBreach, 'recordedAt'>[] =>
+  Array.from(tradesByDay(trades, timezone).entries()).flatMap(([day, dayTrades]) => dayBreaches(day, dayTrades, rules));
+
+// Breaches caused by the changed trades, checked against the journal as it is with them. The rules
+// run once over the whole journal, so trades added together count towards each other's limits.
+export const findBreachesOf = (changed: Trade[], journal: Trade[], rules: RiskRules, timezone: JournalTimezone): Omit<RuleBreach, 'recordedAt'>[] => {
+  const ids = new Set(changed.map(t => t.id));
+  return findBreaches(journal, rules, timezone).filter(b => ids.has(b.tradeId));
+};
+
+export const evaluateRiskRules = (trades: Trade[], rules: RiskRules, timezone: JournalTimezone, today: string): RiskEvaluation => {
+  const days = tradesByDay(trades, timezone);
+  const breaches = Array.from(days.entries()).flatMap(([day, dayTrades]) => dayBreaches(day, dayTrades, rules));
+
+  const todayTrades = days.get(today) ?? [];
+  const todayR = todayTrades.reduce((sum, trade) => sum + tradeR(trade), 0);
+  let lossStreak = 0;
+  todayTrades.forEach(trade => { lossStreak = trade.outcome === Outcome.SL ? lossStreak + 1 : 0; });
+  const week = weekStart(today);
+  const weekR = Array.from(days.entries())
+    .filter(([day]) => day >= week && day <= today)
+    .reduce((sum, [, dayTrades]) => sum + dayTrades.reduce((daySum, trade) => daySum + tradeR(trade), 0), 0);
+  const breachedToday = (rule: RiskRuleKey) => breaches.some(b => b.day === today && b.rule === rule);
+  const limitState = (rule: RiskRuleKey, reached: boolean): RuleState =>
+    breachedToday(rule) ? 'breached' : reached ? 'reached' : 'ok';
+
+  const statuses: RuleStatus[] = [];
+  if (isSet(rules.maxTradesPerDay)) {
+    statuses.push({
+      rule: 'maxTradesPerDay',
+      label: RULE_LABELS.maxTradesPerDay,
+      current: todayTrades.length.toString(),
+      limit: rules.maxTradesPerDay.toString(),
+      state: limitState('maxTradesPerDay', todayTrades.length >= rules.maxTradesPerDay),
+    });
+  }
+  if (isSet(rules.maxDailyLossR)) {
+    statuses.push({
+      rule: 'maxDailyLossR',
+      label: RULE_LABELS.maxDailyLossR,
+      current: formatR(todayR),
+      limit: formatR(-rules.maxDailyLossR),
+      state: limitState('maxDailyLossR', todayR <= -rules.maxDailyLossR),
+    });
+  }
+  if (isSet(rules.maxConsecutiveLosses)) {
+    statuses.push({
+      rule: 'maxConsecutiveLosses',
+      label: RULE_LABELS.maxConsecutiveLosses,
+      current: lossStreak.toString(),
+      limit: rules.maxConsecutiveLosses.toString(),
+      state: limitState('maxConsecutiveLosses', lossStreak >= rules.maxConsecutiveLosses),
+    });
+  }
+  if (isSet(rules.weeklyTargetR)) {
+    statuses.push({
+      rule: 'weeklyTargetR',
+      label: RULE_LABELS.weeklyTargetR,
+      current: formatR(weekR),
+      limit: formatR(rules.weeklyTargetR),
+      state: weekR >= rules.weeklyTargetR ? 'met' : 'ok',
+    });
+  }
+
+  // Only days with trades count towards the streak; a day off neither extends nor breaks it.
+  const breachDays = new Set(breaches.map(b => b.day));
+  let run = 0;
+  let best = 0;
+  Array.from(days.keys()).sort().forEach(day => {
+    run = breachDays.has(day) ? 0 : run + 1;
+    best = Math.max(best, run);
+  });
+
+  return { statuses, breaches, streak: { current: run, best } };
+};
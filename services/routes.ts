@@ -0,0 +1,59 @@
+export type AnalyzerTab = 'chat' | 'slSweep';
+
+export type Route =
+  | { view: 'dashboard' }
+  | { view: 'trade'; id: string }
+  | { view: 'add_trade' }
+  | { view: 'edit_trade'; id: string }
+  | { view: 'ai_analyzer'; tab: AnalyzerTab }
+  | { view: 'reports' }
+  | { view: 'gallery' }
+  | { view: 'playbooks' }
+  | { view: 'data' }
+  | { view: 'settings' };
+
+export type View = Route['view'];
+
+// Routes live in the URL hash, e.g. #/trades/<id>/edit, so they work on any static host
+// without server-side rewrites.
+const ANALYZER_TAB_PATHS: Record<AnalyzerTab, string> = {
+  chat: 'chat',
+  slSweep: 'sl-sweeps',
+};
+
+const SIMPLE_VIEWS: Record<string, Route> = {
+  reports: { view: 'reports' },
+  gallery: { view: 'gallery' },
+  playbooks: { view: 'playbooks' },
+  data: { view: 'data' },
+  settings: { view: 'settings' },
+};
+
+export const DASHBOARD_ROUTE: Route = { view: 'dashboard' };
+
+export const routeToHash = (route: Route): string => {
+  switch (route.view) {
+    case 'dashboard': return '#/';
+    case 'trade': return `#/trades/${encodeURIComponent(route.id)}`;
+    case 'add_trade': return '#/trades/new';
+    case 'edit_trade': return `#/trades/${encodeURIComponent(route.id)}/edit`;
+    case 'ai_analyzer': return `#/analyzer/${ANALYZER_TAB_PATHS[route.tab]}`;
+    default: return `#/${route.view}`;
+  }
+};
+
+// Anything unrecognised lands on the dashboard.
+export const parseRoute = (hash: string): Route => {
+  const parts = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(decodeURIComponent);
+  const [section, id, action] = parts;
+  if (section === 'trades' && id) {
+    if (id === 'new') return { view: 'add_trade' };
+    if (action === 'edit') return { view: 'edit_trade', id };
+    return { view: 'trade', id };
+  }
+  if (section === 'analyzer') {
+    const tab = (Object.keys(ANALYZER_TAB_PATHS) as AnalyzerTab[]).find(t => ANALYZER_TAB_PATHS[t] === id);
+    return { view: 'ai_analyzer', tab: tab ?? 'chat' };
+  }
+  return (section && SIMPLE_VIEWS[section]) || DASHBOARD_ROUTE;
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { renameFilterValue, TradeQuery } from './tradeFilters';
+
+describe('renameFilterValue', () => {
+  it('renames the value only in conditions on the given field', () => {
+    const query: TradeQuery = {
+      match: 'any',
+      groups: [
+        { match: 'all', conditions: [{ field: 'setup', values: ['Breakout', 'Pullback'] }, { field: 'instrument', values: ['Breakout'] }] },
+        { match: 'all', conditions: [{ field: 'setup', values: ['Breakout', 'Range'] }] },
+      ],
+    };
+    const renamed = renameFilterValue(query, 'setup', 'Breakout', 'Range');
+    expect(renamed.groups[0].conditions).toEqual([
+      { field: 'setup', values: ['Range', 'Pullback'] },
+      { field: 'instrument', values: ['Breakout'] },
+    ]);
+    // Renaming onto a value the condition already picks doesn't list it twice.
+    expect(renamed.groups[1].conditions[0].values).toEqual(['Range']);
+  });
+});
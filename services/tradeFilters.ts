@@ -0,0 +1,198 @@
+import { Trade, TagDefinition, JournalTimezone } from '../types';
+import { realizedR } from './tradeMath';
+import { tradeDay, tradeClockTime, tradeSession, dayOfWeek } from './tradeTime';
+
+export type FilterField =
+  | 'date' | 'activationTime'
+  | 'outcome' | 'type' | 'instrument' | 'account' | 'setup' | 'session' | 'dayOfWeek' | 'tag' | 'tagCategory'
+  | 'slSize' | 'tpSize' | 'rr' | 'realizedR' | 'rangeSize' | 'pnl'
+  | 'notes'
+  | 'hasImages' | 'hasTags';
+
+export type FilterKind = 'date' | 'time' | 'choice' | 'number' | 'text' | 'boolean';
+
+export type FilterMatch = 'all' | 'any';
+
+// Only the properties for the field's kind are used; a condition with nothing set matches every trade.
+export interface FilterCondition {
+  field: FilterField;
+  from?: string; // date: YYYY-MM-DD, time: HH:MM; inclusive
+  to?: string;
+  values?: string[]; // choice: matches any of these
+  min?: number; // number: inclusive range
+  max?: number;
+  text?: string; // text: case-insensitive substring
+  flag?: boolean; // boolean
+}
+
+export interface FilterGroup {
+  match: FilterMatch;
+  conditions: FilterCondition[];
+}
+
+// Groups are combined with the top-level match, conditions within a group with the group's own,
+// e.g. (EURUSD and London) or (GBPUSD and New York).
+export interface TradeQuery {
+  match: FilterMatch;
+  groups: FilterGroup[];
+}
+
+export interface FilterPreset {
+  id: string;
+  name: string;
+  query: TradeQuery;
+}
+
+export interface FilterContext {
+  timezone: JournalTimezone;
+  tags: TagDefinition[];
+}
+
+export const FILTER_FIELDS: { field: FilterField; label: string; kind: FilterKind }[] = [
+  { field: 'date', label: 'Date', kind: 'date' },
+  { field: 'activationTime', label: 'Activation time', kind: 'time' },
+  { field: 'dayOfWeek', label: 'Day of week', kind: 'choice' },
+  { field: 'session', label: 'Session', kind: 'choice' },
+  { field: 'outcome', label: 'Outcome', kind: 'choice' },
+  { field: 'type', label: 'Type', kind: 'choice' },
+  { field: 'instrument', label: 'Instrument', kind: 'choice' },
+  { field: 'account', label: 'Account', kind: 'choice' },
+  { field: 'setup', label: 'Setup', kind: 'choice' },
+  { field: 'tag', label: 'Tag', kind: 'choice' },
+  { field: 'tagCategory', label: 'Tag category', kind: 'choice' },
+  { field: 'slSize', label: 'SL size', kind: 'number' },
+  { field: 'tpSize', label: 'TP size', kind: 'number' },
+  { field: 'rr', label: 'R/R entered', kind: 'number' },
+  { field: 'realizedR', label: 'Realized R', kind: 'number' },
+  { field: 'rangeSize', label: 'Range size', kind: 'number' },
+  { field: 'pnl', label: 'P&L', kind: 'number' },
+  { field: 'notes', label: 'Notes contain', kind: 'text' },
+  { field: 'hasImages', label: 'Has images', kind: 'boolean' },
+  { field: 'hasTags', label: 'Has tags', kind: 'boolean' },
+];
+
+export const fieldKind = (field: FilterField): FilterKind => FILTER_FIELDS.find(f => f.field === field)!.kind;
+
+export const EMPTY_QUERY: TradeQuery = { match: 'all', groups: [{ match: 'all', conditions: [] }] };
+
+const numberValue = (trade: Trade, field: FilterField): number | null | undefined => {
+  switch (field) {
+    case 'slSize': return trade.slSize;
+    case 'tpSize': return trade.tpSize;
+    case 'rr': return trade.rr;
+    case 'realizedR': return realizedR(trade);
+    case 'rangeSize': return trade.rangeSize;
+    case 'pnl': return trade.pnl;
+    default: return undefined;
+  }
+};
+
+// The values a trade has for a choice field; a trade matches if any of them is selected.
+const choiceValues = (trade: Trade, field: FilterField, context: FilterContext): string[] => {
+  switch (field) {
+    case 'dayOfWeek': return [dayOfWeek(tradeDay(trade, context.timezone)).toString()];
+    case 'session': return [tradeSession(trade, context.timezone) ?? ''];
+    case 'outcome': return [trade.outcome];
+    case 'type': return [trade.type ?? ''];
+    case 'instrument': return [trade.instrument ?? ''];
+    case 'account': return [trade.account ?? ''];
+    case 'setup': return [trade.setup ?? ''];
+    case 'tag': return trade.tags ?? [];
+    case 'tagCategory': return (trade.tags ?? []).map(name => context.tags.find(t => t.name === name)?.category ?? '');
+    default: return [];
+  }
+};
+
+const inRange = (value: string, from?: string, to?: string) => (!from || value >= from) && (!to || value <= to);
+
+export const isConditionSet = (condition: FilterCondition): boolean => {
+  switch (fieldKind(condition.field)) {
+    case 'date':
+    case 'time': return !!condition.from || !!condition.to;
+    case 'choice': return !!condition.values && condition.values.length > 0;
+    case 'number': return condition.min !== undefined || condition.max !== undefined;
+    case 'text': return !!condition.text?.trim();
+    case 'boolean': return condition.flag !== undefined;
+  }
+};
+
+export const matchesCondition = (trade: Trade, condition: FilterCondition, context: FilterContext): boolean => {
+  if (!isConditionSet(condition)) return true;
+  const { from, to } = condition;
+  switch (fieldKind(condition.field)) {
+    case 'date':
+      return inRange(tradeDay(trade, context.timezone), from, to);
+    case 'time': {
+      const time = tradeClockTime(trade, context.timezone);
+      if (!time) return false;
+      // A window like 22:00-02:00 runs past midnight.
+      if (from && to && from > to) return time >= from || time <= to;
+      return inRange(time, from, to);
+    }
+    case 'choice':
+      return choiceValues(trade, condition.field, context).some(value => condition.values!.includes(value));
+    case 'number': {
+      const value = numberValue(trade, condition.field);
+      if (value === undefined || value === null) return false;
+      return (condition.min === undefined || value >= condition.min) && (condition.max === undefined || value <= condition.max);
+    }
+    case 'text': {
+      const needle = condition.text!.trim().toLowerCase();
+      return [trade.notes, trade.slSweepNotes].some(text => !!text && text.toLowerCase().includes(needle));
+    }
+    case 'boolean': {
+      const has = condition.field === 'hasImages'
+        ? (trade.images?.length ?? 0) > 0
+        : !!trade.tags && trade.tags.length > 0;
+      return has === condition.flag;
+    }
+  }
+};
+
+const isOptional = (value: unknown, type: 'string' | 'number' | 'boolean') =>
+  value === undefined || (typeof value === type && (type !== 'number' || Number.isFinite(value)));
+
+// Whether a condition read from outside the app, e.g. from an imported preset, is one the filters
+// can run: a known field, with values of the types its kind uses.
+export const isFilterCondition = (value: unknown): value is FilterCondition => {
+  if (!value || typeof value !== 'object') return false;
+  const condition = value as FilterCondition;
+  switch (FILTER_FIELDS.find(f => f.field === condition.field)?.kind) {
+    case 'date':
+    case 'time': return isOptional(condition.from, 'string') && isOptional(condition.to, 'string');
+    case 'choice': return condition.values === undefined || (Array.isArray(condition.values) && condition.values.every(v => typeof v === 'string'));
+    case 'number': return isOptional(condition.min, 'number') && isOptional(condition.max, 'number');
+    case 'text': return isOptional(condition.text, 'string');
+    case 'boolean': return isOptional(condition.flag, 'boolean');
+    default: return false;
+  }
+};
+
+const combine = <T>(items: T[], match: FilterMatch, test: (item: T) => boolean): boolean =>
+  match === 'all' ? items.every(test) : items.some(test);
+
+// Conditions with nothing set are left out, so an empty group or query matches every trade.
+export const filterTrades = (trades: Trade[], query: TradeQuery, context: FilterContext): Trade[] => {
+  const groups = query.groups
+    .map(group => ({ ...group, conditions: group.conditions.filter(isConditionSet) }))
+    .filter(group => group.conditions.length > 0);
+  if (groups.length === 0) return trades;
+  return trades.filter(trade =>
+    combine(groups, query.match, group =>
+      combine(group.conditions, group.match, condition => matchesCondition(trade, condition, context))));
+};
+
+export const activeConditionCount = (query: TradeQuery): number =>
+  query.groups.reduce((sum, group) => sum + group.conditions.filter(isConditionSet).length, 0);
+
+// The query with a renamed setup or tag replaced in the conditions that pick it.
+export const renameFilterValue = (query: TradeQuery, field: FilterField, from: string, to: string): TradeQuery => ({
+  ...query,
+  groups: query.groups.map(group => ({
+    ...group,
+    conditions: group.conditions.map(condition =>
+      condition.field === field && condition.values?.includes(from)
+        ? { ...condition, values: [...new Set(condition.values.map(value => (value === from ? to : value)))] }
+        : condition),
+  })),
+});
@@ -0,0 +1,76 @@
+import { TradeImage } from '../types';
+
+// Trades used to have exactly these three image slots. Their ids are kept when converting, so
+// annotations drawn on them still line up.
+export const LEGACY_IMAGE_LABELS: Record<string, string> = {
+  before: 'Before',
+  after: 'After',
+  metatrader: 'MetaTrader Screen',
+};
+
+export const SUGGESTED_IMAGE_LABELS = ['Before', 'After', 'MetaTrader Screen', 'Higher timeframe', 'Entry', 'Exit'];
+
+// Screenshots are scaled down so their longest side fits, and re-encoded as JPEG.
+const MAX_IMAGE_EDGE = 1920;
+const JPEG_QUALITY = 0.85;
+
+export const createImageId = () => Date.now().toString(36) + Math.random().toString(36).slice(2, 8);
+
+// Accepts images in either the current list form or the old { before, after, metatrader } form.
+export const normalizeImages = (value: unknown): TradeImage[] => {
+  if (Array.isArray(value)) return value as TradeImage[];
+  if (!value || typeof value !== 'object') return [];
+  return Object.entries(value as Record<string, unknown>)
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string' && entry[1] !== '')
+    .map(([slot, data]) => ({ id: slot, label: LEGACY_IMAGE_LABELS[slot] ?? slot, data }));
+};
+
+export const imageFiles = (files: FileList | File[] | null | undefined): File[] =>
+  Array.from(files ?? []).filter(file => file.type.startsWith('image/'));
+
+// A starting label for a new attachment: the file name, unless it's a generic clipboard name.
+export const defaultImageLabel = (file: File, existing: TradeImage[]): string => {
+  const name = file.name.replace(/\.[^.]+$/, '').trim();
+  if (name && !/^image$/i.test(name)) return name;
+  return SUGGESTED_IMAGE_LABELS.find(label => !existing.some(image => image.label === label)) ?? `Image ${existing.length + 1}`;
+};
+
+const readAsDataURI = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Could not decode the image"));
+    image.src = src;
+  });
+
+// Resizes and re-encodes an image for storage. The original is kept when re-encoding wouldn't
+// make it smaller, e.g. for small PNGs with flat colours.
+export const compressImage = async (file: Blob): Promise<string> => {
+  const original = await readAsDataURI(file);
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    const context = canvas.getContext('2d');
+    if (!context) return original;
+    // JPEG has no transparency, so give transparent screenshots the app's dark background.
+    context.fillStyle = '#111827';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    const compressed = canvas.toDataURL('image/jpeg', JPEG_QUALITY);
+    return compressed.length < original.length ? compressed : original;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { eventsR } from './tradeMath';
+import { TradeEvent, TradeEventType } from '../types';
+
+const entry: TradeEvent = { type: TradeEventType.ENTRY };
+const partial = (size: number, r?: number): TradeEvent => ({ type: TradeEventType.PARTIAL_CLOSE, size, r });
+const exit = (r?: number): TradeEvent => ({ type: TradeEventType.EXIT, r });
+const moveToBreakEven: TradeEvent = { type: TradeEventType.MOVE_SL_TO_BE };
+
+describe('eventsR', () => {
+  it('has no result before anything is closed', () => {
+    expect(eventsR([entry])).toBeNull();
+  });
+
+  it('weights closes by size, with an exit closing the rest', () => {
+    expect(eventsR([entry, partial(50, 2), exit(1)])).toBe(1.5);
+  });
+
+  it('counts the part never closed at the original stop', () => {
+    expect(eventsR([entry, partial(50, 2)])).toBe(0.5);
+  });
+
+  it('counts the part never closed at break-even once the stop was moved there', () => {
+    expect(eventsR([entry, partial(50, 2), moveToBreakEven])).toBe(1);
+    expect(eventsR([entry, moveToBreakEven, partial(50, 2), exit()])).toBe(1);
+  });
+});
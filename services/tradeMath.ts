@@ -0,0 +1,98 @@
+import { Trade, Outcome, TradeEvent, TradeEventType } from '../types';
+
+// The single definition of how many R a trade made. Every chart, table, export and AI payload
+// goes through these functions so the numbers agree everywhere.
+//
+// - NO_TRADE days are not trades and have no R.
+// - Trades with partial closes or an exit in their events use the size-weighted R of those closes
+//   (see eventsR), whatever their outcome says.
+// - Otherwise the outcome decides:
+//   - BE is always 0R.
+//   - SL is -1R, unless a negative R/R was entered, which records a loss bigger or smaller than
+//     the planned risk (slippage, an early manual exit). A positive R/R on a losing trade is the
+//     planned target and is ignored.
+//   - TP uses the entered R/R, otherwise TP size / SL size.
+
+export interface PartialClose {
+  portion: number; // Share of the position closed, in any unit (fraction, percent, lots)
+  r: number; // R earned on that fraction
+}
+
+// Size-weighted R of a position closed in parts, e.g. half at +1R and half at 0R gives +0.5R.
+// Portions that don't add up to 1 are normalised, so they can also be given as lots or percentages.
+export const combinePartialR = (parts: PartialClose[]): number => {
+  const totalPortion = parts.reduce((sum, p) => sum + p.portion, 0);
+  if (totalPortion <= 0) return 0;
+  return parts.reduce((sum, p) => sum + p.portion * p.r, 0) / totalPortion;
+};
+
+const isClose = (event: TradeEvent) => event.type === TradeEventType.PARTIAL_CLOSE || event.type === TradeEventType.EXIT;
+
+export const hasCloseEvents = (events?: TradeEvent[]): boolean => !!events && events.some(isClose);
+
+// R of a trade managed through events. Partial closes need a size; an exit without one closes
+// whatever is left. A close without an R after the stop was moved to break-even closed at 0R;
+// before that it is assumed to be the original stop at -1R. The same goes for any part of the
+// position that was never closed, so an unrecorded runner isn't credited with an earlier close's R.
+export const eventsR = (events: TradeEvent[]): number | null => {
+  const parts: PartialClose[] = [];
+  let remaining = 100;
+  let stopAtBreakEven = false;
+  for (const event of events) {
+    if (event.type === TradeEventType.MOVE_SL_TO_BE) {
+      stopAtBreakEven = true;
+      continue;
+    }
+    if (!isClose(event)) continue;
+    const size = event.type === TradeEventType.EXIT && !event.size ? remaining : Math.min(event.size ?? 0, remaining);
+    if (size <= 0) continue;
+    parts.push({ portion: size, r: event.r ?? (stopAtBreakEven ? 0 : -1) });
+    remaining -= size;
+  }
+  if (parts.length === 0) return null;
+  if (remaining > 0) parts.push({ portion: remaining, r: stopAtBreakEven ? 0 : -1 });
+  return combinePartialR(parts);
+};
+
+// Outcome implied by the R of a trade's events: any profit counts as TP, a loss as SL.
+export const outcomeForR = (r: number): Outcome => (r > 0 ? Outcome.TP : r < 0 ? Outcome.SL : Outcome.BE);
+
+// R earned by the trade, or null when it isn't a trade or there isn't enough data to tell.
+export const realizedR = (trade: Omit<Trade, 'id'>): number | null => {
+  if (trade.outcome !== Outcome.NO_TRADE && hasCloseEvents(trade.events)) {
+    return eventsR(trade.events!);
+  }
+  switch (trade.outcome) {
+    case Outcome.NO_TRADE:
+      return null;
+    case Outcome.BE:
+      return 0;
+    case Outcome.SL:
+      return trade.rr !== undefined && trade.rr !== null && trade.rr < 0 ? trade.rr : -1;
+    case Outcome.TP:
+      if (trade.rr !== undefined && trade.rr !== null) return trade.rr;
+      if (trade.tpSize && trade.slSize && trade.slSize > 0) return trade.tpSize / trade.slSize;
+      return null;
+    default:
+      return null;
+  }
+};
+
+// realizedR for aggregation: unknown results count as 0R.
+export const tradeR = (trade: Omit<Trade, 'id'>): number => realizedR(trade) ?? 0;
+
+export const isTakenTrade = (trade: Omit<Trade, 'id'>) => trade.outcome !== Outcome.NO_TRADE;
+
+export const totalR = (trades: Trade[]): number => trades.reduce((sum, trade) => sum + tradeR(trade), 0);
+
+export const formatR = (value: number | null): string => (value === null ? 'N/A' : `${value.toFixed(2)}R`);
+
+// Compact text form of an event, e.g. "PARTIAL_CLOSE 10:45 50% @ 1R (first target)".
+export const describeEvent = (event: TradeEvent): string =>
+  [
+    event.type,
+    event.time,
+    event.size !== undefined ? `${event.size}%` : undefined,
+    event.r !== undefined ? `@ ${event.r}R` : undefined,
+    event.note ? `(${event.note})` : undefined,
+  ].filter(Boolean).join(' ');
@@ -0,0 +1,233 @@
+import { Trade } from '../types';
+import { normalizeImages, LEGACY_IMAGE_LABELS } from './tradeImages';
+import { savedJournalTimezone } from './tradeTime';
+
+const DB_NAME = 'mlassa-trading-tracker';
+const TRADES_STORE = 'trades';
+const IMAGES_STORE = 'images';
+const LEGACY_STORAGE_KEY = 'trades';
+
+// Trades are stored without their image data; the images' ids and labels are listed instead
+// and each image itself lives in the images store as a Blob. Trades saved before images could be
+// labeled list the fixed slots they used in imageSlots.
+type StoredTrade = Omit<Trade, 'images'> & {
+  imageRefs?: { id: string; label: string }[];
+  imageSlots?: string[];
+};
+
+interface StoredImage {
+  tradeId: string;
+  slot: string; // The image's id; the name is part of the store's key path
+  blob: Blob;
+}
+
+// Each entry upgrades the database from (version - 1) to version. Append new steps here and
+// never edit existing ones, so that every installed database can be brought up to date.
+const UPGRADE_STEPS: { [version: number]: (db: IDBDatabase, tx: IDBTransaction) => void } = {
+  1: (db) => {
+    db.createObjectStore(TRADES_STORE, { keyPath: 'id' });
+    const images = db.createObjectStore(IMAGES_STORE, { keyPath: ['tradeId', 'slot'] });
+    images.createIndex('tradeId', 'tradeId');
+  },
+  // Trades saved before zones were recorded were read in the journal zone of the day. Pin them to
+  // the current one, so changing the journal zone later doesn't reinterpret their times.
+  2: (_db, tx) => {
+    const timezone = savedJournalTimezone();
+    const request = tx.objectStore(TRADES_STORE).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      const trade = cursor.value as StoredTrade;
+      if (!trade.timezone) cursor.update({ ...trade, timezone });
+      cursor.continue();
+    };
+  },
+};
+
+export const SCHEMA_VERSION = Math.max(...Object.keys(UPGRADE_STEPS).map(Number));
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error ?? new Error("Storage transaction was aborted"));
+  });
+
+// Runs work in the transaction and waits for it to commit. Both are awaited together, so when the
+// work fails the transaction's own rejection is still handled; the transaction is aborted so none of
+// the work is kept.
+const runTransaction = async (tx: IDBTransaction, work: () => Promise<void>): Promise<void> => {
+  await Promise.all([
+    work().catch(error => {
+      try {
+        tx.abort();
+      } catch {
+        // Already finished or aborted.
+      }
+      throw error;
+    }),
+    transactionDone(tx),
+  ]);
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available in this browser"));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, SCHEMA_VERSION);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const tx = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= SCHEMA_VERSION; version++) {
+          UPGRADE_STEPS[version](db, tx);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error("The trade database is open in another tab with an older version. Close other tabs and reload."));
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+const dataURIToBlob = (dataURI: string): Blob | null => {
+  const match = dataURI.match(/^data:(.+);base64,(.+)$/);
+  if (!match) return null;
+  const binary = atob(match[2]);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: match[1] });
+};
+
+const blobToDataURI = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Writes a trade and replaces its images inside an already-open transaction.
+const putTradeInTransaction = async (tx: IDBTransaction, trade: Trade) => {
+  const { images, ...tradeData } = trade;
+  const imagesStore = tx.objectStore(IMAGES_STORE);
+
+  const oldKeys = await requestToPromise(imagesStore.index('tradeId').getAllKeys(trade.id));
+  oldKeys.forEach(key => imagesStore.delete(key));
+
+  const imageRefs: StoredTrade['imageRefs'] = [];
+  (images ?? []).forEach(({ id, label, data }) => {
+    const blob = dataURIToBlob(data);
+    if (!blob) {
+      console.warn(`Invalid data URI for image '${label}' of trade ${trade.id}, skipping.`);
+      return;
+    }
+    const record: StoredImage = { tradeId: trade.id, slot: id, blob };
+    imagesStore.put(record);
+    imageRefs.push({ id, label });
+  });
+
+  const storedTrade: StoredTrade = { ...tradeData, imageRefs };
+  tx.objectStore(TRADES_STORE).put(storedTrade);
+};
+
+// One-time move of the trades that older versions kept in localStorage. The legacy key is only
+// removed once every trade has been committed to IndexedDB.
+const migrateFromLocalStorage = async (db: IDBDatabase) => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacy) return;
+
+  let legacyTrades: Trade[];
+  try {
+    legacyTrades = JSON.parse(legacy);
+  } catch (error) {
+    console.error("Could not parse legacy trades from localStorage, leaving them in place", error);
+    return;
+  }
+  if (!Array.isArray(legacyTrades)) return;
+
+  // Legacy trades have no zone of their own; pin them to the journal zone as for upgrade step 2.
+  const timezone = savedJournalTimezone();
+  const tx = db.transaction([TRADES_STORE, IMAGES_STORE], 'readwrite');
+  await runTransaction(tx, async () => {
+    for (const trade of legacyTrades) {
+      await putTradeInTransaction(tx, { ...trade, timezone: trade.timezone ?? timezone, images: normalizeImages(trade.images) });
+    }
+  });
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+export const loadTrades = async (): Promise<Trade[]> => {
+  const db = await openDatabase();
+  await migrateFromLocalStorage(db);
+
+  const tx = db.transaction([TRADES_STORE, IMAGES_STORE], 'readonly');
+  const [storedTrades, storedImages] = await Promise.all([
+    requestToPromise(tx.objectStore(TRADES_STORE).getAll() as IDBRequest<StoredTrade[]>),
+    requestToPromise(tx.objectStore(IMAGES_STORE).getAll() as IDBRequest<StoredImage[]>),
+  ]);
+
+  const imagesByTrade = new Map<string, Map<string, string>>();
+  await Promise.all(storedImages.map(async image => {
+    // Registered before awaiting, so a trade's images all land in the same map.
+    const images = imagesByTrade.get(image.tradeId) ?? new Map<string, string>();
+    imagesByTrade.set(image.tradeId, images);
+    images.set(image.slot, await blobToDataURI(image.blob));
+  }));
+
+  return storedTrades
+    .map(({ imageRefs, imageSlots, ...trade }) => {
+      const data = imagesByTrade.get(trade.id);
+      const refs = imageRefs ?? (imageSlots ?? []).map(slot => ({ id: slot, label: LEGACY_IMAGE_LABELS[slot] ?? slot }));
+      return { ...trade, images: refs.filter(ref => data?.has(ref.id)).map(ref => ({ ...ref, data: data!.get(ref.id)! })) };
+    })
+    .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+};
+
+export const saveTrade = async (trade: Trade): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([TRADES_STORE, IMAGES_STORE], 'readwrite');
+  await runTransaction(tx, () => putTradeInTransaction(tx, trade));
+};
+
+export const removeTrade = async (id: string): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([TRADES_STORE, IMAGES_STORE], 'readwrite');
+  await runTransaction(tx, async () => {
+    tx.objectStore(TRADES_STORE).delete(id);
+    const imagesStore = tx.objectStore(IMAGES_STORE);
+    const keys = await requestToPromise(imagesStore.index('tradeId').getAllKeys(id));
+    keys.forEach(key => imagesStore.delete(key));
+  });
+};
+
+// Writes many trades in a single transaction. When replaceExisting is set, every stored trade and
+// image is removed first so the database ends up holding exactly the given trades.
+export const saveTrades = async (trades: Trade[], replaceExisting = false): Promise<void> => {
+  const db = await openDatabase();
+  const tx = db.transaction([TRADES_STORE, IMAGES_STORE], 'readwrite');
+  await runTransaction(tx, async () => {
+    if (replaceExisting) {
+      tx.objectStore(TRADES_STORE).clear();
+      tx.objectStore(IMAGES_STORE).clear();
+    }
+    for (const trade of trades) {
+      await putTradeInTransaction(tx, trade);
+    }
+  });
+};
@@ -0,0 +1,154 @@
+import { Trade, JournalTimezone, TradingSession } from '../types';
+
+// Trades keep their date and activation time exactly as typed, in the zone they were recorded in
+// (trade.timezone, or the journal's zone for trades saved before zones existed). Everything that
+// groups trades by day, weekday, hour or session goes through these functions, converting to the
+// journal's zone, so a trade near midnight lands on the same day in every chart and filter.
+
+export const TIMEZONE_OPTIONS: { value: JournalTimezone; label: string }[] = [
+  { value: 'broker', label: 'Broker time (UTC+2, UTC+3 during US summer time)' },
+  { value: 'America/New_York', label: 'New York' },
+  { value: 'Europe/London', label: 'London' },
+  { value: 'UTC', label: 'UTC' },
+];
+
+export const isJournalTimezone = (value: unknown): value is JournalTimezone =>
+  TIMEZONE_OPTIONS.some(option => option.value === value);
+
+// MetaTrader statements and charts show server time, which is what most trades are logged in.
+export const DEFAULT_JOURNAL_TIMEZONE: JournalTimezone = 'broker';
+
+export const JOURNAL_TIMEZONE_KEY = 'journalTimezone';
+
+// The journal zone saved in localStorage, read outside React too, e.g. by storage migrations.
+export const savedJournalTimezone = (): JournalTimezone => {
+  const saved = localStorage.getItem(JOURNAL_TIMEZONE_KEY);
+  return isJournalTimezone(saved) ? saved : DEFAULT_JOURNAL_TIMEZONE;
+};
+
+// Most MetaTrader servers run New York time shifted by 7 hours, so the 17:00 New York close
+// is midnight on the server and every week has five daily candles.
+const BROKER_SHIFT_MINUTES = 7 * 60;
+
+const MINUTE_MS = 60 * 1000;
+
+// Each session's local opening hours in its own city, so daylight saving is handled per market.
+const SESSION_HOURS: { session: TradingSession; zone: string; open: number; close: number }[] = [
+  { session: TradingSession.ASIA, zone: 'Asia/Tokyo', open: 8, close: 17 },
+  { session: TradingSession.LONDON, zone: 'Europe/London', open: 8, close: 17 },
+  { session: TradingSession.NEW_YORK, zone: 'America/New_York', open: 8, close: 17 },
+];
+
+export const SESSION_ORDER: TradingSession[] = [
+  TradingSession.ASIA,
+  TradingSession.LONDON,
+  TradingSession.OVERLAP,
+  TradingSession.NEW_YORK,
+  TradingSession.OFF_HOURS,
+];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Minutes the IANA zone is ahead of UTC at the given moment.
+const zoneOffsetMinutes = (utcMs: number, zone: string): number => {
+  let formatter = formatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(zone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(new Date(utcMs)).map(p => [p.type, p.value]));
+  const wallMs = Date.UTC(+parts.year, +parts.month - 1, +parts.day, +parts.hour, +parts.minute);
+  return Math.round((wallMs - Math.floor(utcMs / MINUTE_MS) * MINUTE_MS) / MINUTE_MS);
+};
+
+const journalOffsetMinutes = (utcMs: number, zone: JournalTimezone): number =>
+  zone === 'broker' ? zoneOffsetMinutes(utcMs, 'America/New_York') + BROKER_SHIFT_MINUTES : zoneOffsetMinutes(utcMs, zone);
+
+// Wall-clock times are handled as if they were UTC milliseconds.
+const wallClockToUtc = (wallMs: number, zone: JournalTimezone): number => {
+  const guess = wallMs - journalOffsetMinutes(wallMs, zone) * MINUTE_MS;
+  // A second pass settles times close to a daylight saving change.
+  return wallMs - journalOffsetMinutes(guess, zone) * MINUTE_MS;
+};
+
+const utcToWallClock = (utcMs: number, zone: JournalTimezone): number =>
+  utcMs + journalOffsetMinutes(utcMs, zone) * MINUTE_MS;
+
+const recordedDay = (trade: Omit<Trade, 'id'>) => trade.date.split('T')[0];
+
+const dayStartMs = (day: string) => {
+  const [year, month, date] = day.split('-').map(Number);
+  return Date.UTC(year, month - 1, date);
+};
+
+// The moment the trade was activated, or null when no activation time was recorded.
+export const tradeTimestamp = (trade: Omit<Trade, 'id'>, journalZone: JournalTimezone): Date | null => {
+  if (!trade.activationTime) return null;
+  const [hours, minutes] = trade.activationTime.split(':').map(Number);
+  const wallMs = dayStartMs(recordedDay(trade)) + (hours * 60 + minutes) * MINUTE_MS;
+  return new Date(wallClockToUtc(wallMs, trade.timezone ?? journalZone));
+};
+
+// Calendar day of the trade in the journal's zone, as YYYY-MM-DD. Trades without a time stay on the
+// day they were recorded on.
+export const tradeDay = (trade: Omit<Trade, 'id'>, journalZone: JournalTimezone): string => {
+  const timestamp = tradeTimestamp(trade, journalZone);
+  if (!timestamp) return recordedDay(trade);
+  return new Date(utcToWallClock(timestamp.getTime(), journalZone)).toISOString().split('T')[0];
+};
+
+// Activation time as HH:MM in the journal's zone.
+export const tradeClockTime = (trade: Omit<Trade, 'id'>, journalZone: JournalTimezone): string | null => {
+  const timestamp = tradeTimestamp(trade, journalZone);
+  return timestamp ? new Date(utcToWallClock(timestamp.getTime(), journalZone)).toISOString().slice(11, 16) : null;
+};
+
+// Hour of activation (0-23) in the journal's zone.
+export const tradeHour = (trade: Omit<Trade, 'id'>, journalZone: JournalTimezone): number | null => {
+  const time = tradeClockTime(trade, journalZone);
+  return time ? parseInt(time.slice(0, 2), 10) : null;
+};
+
+// Orders trades by activation moment, falling back to the start of their day.
+export const tradeSortTime = (trade: Omit<Trade, 'id'>, journalZone: JournalTimezone): number =>
+  tradeTimestamp(trade, journalZone)?.getTime() ?? dayStartMs(tradeDay(trade, journalZone));
+
+// Today in the journal's zone, as YYYY-MM-DD.
+export const currentDay = (journalZone: JournalTimezone): string =>
+  new Date(utcToWallClock(Date.now(), journalZone)).toISOString().split('T')[0];
+
+// 0 for Sunday through 6 for Saturday, like Date.getDay(), for a YYYY-MM-DD day.
+export const dayOfWeek = (day: string): number => new Date(dayStartMs(day)).getUTCDay();
+
+// Sunday that starts the week containing the day, as YYYY-MM-DD.
+export const weekStart = (day: string): string =>
+  new Date(dayStartMs(day) - dayOfWeek(day) * 24 * 60 * MINUTE_MS).toISOString().split('T')[0];
+
+// Formats a YYYY-MM-DD day for display without shifting it through the browser's zone.
+export const formatDay = (day: string): string => new Date(`${day}T00:00:00`).toLocaleDateString();
+
+// Session the trade was activated in. London and New York both being open counts as the overlap;
+// the early hour where Asia and London meet counts as London.
+export const tradeSession = (trade: Omit<Trade, 'id'>, journalZone: JournalTimezone): TradingSession | null => {
+  const timestamp = tradeTimestamp(trade, journalZone);
+  if (!timestamp) return null;
+  const utcMs = timestamp.getTime();
+  const open = new Set(SESSION_HOURS.filter(({ zone, open, close }) => {
+    const local = new Date(utcMs + zoneOffsetMinutes(utcMs, zone) * MINUTE_MS);
+    const hour = local.getUTCHours() + local.getUTCMinutes() / 60;
+    return hour >= open && hour < close;
+  }).map(hours => hours.session));
+  if (open.has(TradingSession.LONDON) && open.has(TradingSession.NEW_YORK)) return TradingSession.OVERLAP;
+  if (open.has(TradingSession.LONDON)) return TradingSession.LONDON;
+  if (open.has(TradingSession.NEW_YORK)) return TradingSession.NEW_YORK;
+  if (open.has(TradingSession.ASIA)) return TradingSession.ASIA;
+  return TradingSession.OFF_HOURS;
+};
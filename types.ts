@@ -11,21 +11,194 @@ export enum Outcome {
   NO_TRADE = 'NO_TRADE',
 }
 
+export enum TradeEventType {
+  ENTRY = 'ENTRY',
+  PARTIAL_CLOSE = 'PARTIAL_CLOSE',
+  MOVE_SL_TO_BE = 'MOVE_SL_TO_BE',
+  EXIT = 'EXIT',
+}
+
+// Zone that trade dates and times are entered in. 'broker' is MetaTrader server time.
+export type JournalTimezone = 'broker' | 'America/New_York' | 'Europe/London' | 'UTC';
+
+export enum TradingSession {
+  ASIA = 'Asia',
+  LONDON = 'London',
+  NEW_YORK = 'New York',
+  OVERLAP = 'London/NY Overlap',
+  OFF_HOURS = 'Off-hours',
+}
+
+export interface TradeEvent {
+  type: TradeEventType;
+  time?: string; // e.g., "10:30"
+  size?: number; // Percent of the original position closed (PARTIAL_CLOSE, EXIT)
+  r?: number; // R at which that part was closed (PARTIAL_CLOSE, EXIT)
+  note?: string;
+}
+
+export enum TagCategory {
+  MISTAKE = 'Mistake',
+  EMOTION = 'Emotion',
+  MARKET = 'Market',
+  OTHER = 'Other',
+}
+
+export interface TagDefinition {
+  name: string;
+  category: TagCategory;
+}
+
+export interface ChecklistCheck {
+  item: string; // Entry criterion, as worded in the setup when the trade was logged
+  checked: boolean;
+}
+
+export enum AnnotationKind {
+  ENTRY = 'ENTRY',
+  SL = 'SL',
+  TP = 'TP',
+  ARROW = 'ARROW',
+  TEXT = 'TEXT',
+}
+
+// Drawn over a screenshot. Coordinates are fractions (0-1) of the image's width and height, so
+// annotations stay in place at any display size.
+export interface Annotation {
+  kind: AnnotationKind;
+  x: number; // Arrows: the tail; text: the anchor; ignored for ENTRY/SL/TP lines
+  y: number; // ENTRY/SL/TP: the price level the line is drawn at
+  x2?: number; // Arrows: the head
+  y2?: number;
+  text?: string; // TEXT annotations, or an optional label on a line
+}
+
+export interface TradeImage {
+  id: string; // Unique within the trade; annotations refer to it. Older trades use 'before', 'after' and 'metatrader'.
+  label: string; // e.g. "Before", "HTF context"
+  data: string; // Data URI
+}
+
 export interface Trade {
   id: string;
   date: string; // ISO string format
   type?: TradeType;
   outcome: Outcome;
+  instrument?: string; // Symbol traded, e.g. "EURUSD"
+  account?: string; // Name of the trading account the trade was placed on
+  setup?: string; // Name of the playbook setup traded
+  checklist?: ChecklistCheck[]; // The setup's entry checklist at the time, with the items that were met ticked
   slSize?: number;
   tpSize?: number;
   rr?: number; // R/R taken for the trade
   rangeSize?: number; // The size of the candle range for breakout
+  pnl?: number; // Actual profit or loss in account currency, after commissions
+  ticket?: string; // MetaTrader position ticket, for trades imported from a statement
   notes: string;
+  tags?: string[]; // Tag names; their categories come from the tag definitions
   activationTime?: string; // e.g., "10:30"
+  timezone?: JournalTimezone; // Zone date and activationTime were recorded in; the journal's zone when missing
   slSweepNotes?: string; // Notes about the candle that swept SL
-  images?: {
-    before?: string;
-    after?: string;
-    metatrader?: string;
-  };
+  events?: TradeEvent[]; // Trade management in the order it happened; when it includes closes, R and outcome are derived from it
+  images?: TradeImage[]; // In the order they are shown
+  annotations?: { [imageId: string]: Annotation[] }; // Kept apart from the images, which stay as uploaded
+  history?: TradeEdit[]; // Edits made after the trade was first logged, oldest first
+}
+
+export interface Setup {
+  id: string;
+  name: string;
+  description?: string;
+  checklist: string[]; // Entry criteria to confirm before taking the trade
+  defaultSlSize?: number;
+  defaultTpSize?: number;
+}
+
+// Limits the trader sets for themselves; a rule without a value is off. Rules apply across all accounts.
+export interface RiskRules {
+  maxTradesPerDay?: number;
+  maxDailyLossR?: number; // Stop for the day once this many R have been lost
+  maxConsecutiveLosses?: number; // Stop for the day after this many losses in a row
+  weeklyTargetR?: number; // A goal rather than a limit; reaching it is never a breach
+}
+
+export type RiskRuleKey = keyof RiskRules;
+
+export interface RuleBreach {
+  rule: RiskRuleKey;
+  day: string; // YYYY-MM-DD in the journal's zone
+  tradeId: string; // The trade taken in breach of the rule
+  message: string;
+  recordedAt: string; // ISO string format; when the breach was logged
+}
+
+export type RiskMode = 'percent' | 'fixed';
+
+export interface AccountSettings {
+  startingBalance: number;
+  currency: string; // ISO 4217 code, e.g. "USD"
+  riskMode: RiskMode;
+  riskValue: number; // Percent of the current balance, or a fixed amount, depending on riskMode
+  commissionPerTrade: number; // Round-turn commission in account currency
+  pipValuePerLot: number; // Value of one pip for one standard lot, used for position sizing
+}
+
+export interface TradeFieldChange {
+  field: string;
+  from: string;
+  to: string;
+}
+
+export interface TradeEdit {
+  editedAt: string; // ISO string format
+  changes: TradeFieldChange[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  createdAt: string; // ISO string format
+  status?: 'stopped' | 'error'; // Stopped replies keep what arrived before cancelling; failed ones aren't sent back to the AI
+}
+
+export interface ChatConversation {
+  id: string;
+  title: string; // The opening question
+  createdAt: string; // ISO string format
+  updatedAt: string;
+  messages: ChatMessage[];
+}
+
+export enum InsightSeverity {
+  HIGH = 'HIGH',
+  MEDIUM = 'MEDIUM',
+  LOW = 'LOW',
+}
+
+// One finding from an AI analysis, as returned in the structured (JSON) response.
+export interface AiInsight {
+  title: string;
+  severity: InsightSeverity;
+  finding: string;
+  tradeIds: string[]; // The trades the finding is based on
+  suggestedRule?: string; // A rule the trader could adopt to act on it
+  statistic?: string; // The figure supporting it, e.g. "5 of 7 Monday trades hit SL"
+}
+
+export interface AiAnalysis {
+  summary: string;
+  insights: AiInsight[];
+}
+
+export enum AiProviderKind {
+  GEMINI = 'GEMINI',
+  OPENAI = 'OPENAI', // Any server with an OpenAI-style /chat/completions endpoint, including local ones
+  MOCK = 'MOCK',
+}
+
+export interface AiSettings {
+  provider: AiProviderKind;
+  model: string;
+  apiKey?: string; // Entered at runtime and kept in this browser only
+  baseUrl?: string; // For OpenAI-compatible servers, e.g. "http://localhost:11434/v1"
 }